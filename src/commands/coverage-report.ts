@@ -0,0 +1,206 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import {
+  addBaseCoverage, BlockBaseMatch, coverageItemLevels, CoverageReport, createCoverageReport,
+  getHiddenBases, getUnmatchedBases, isCaughtEarlier, itemRarities
+} from "../items";
+import { BlockNode, parseFilter } from "../parsers-nextgen";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+
+export function registerCoverageReport(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("item-filter.coverageReport", showCoverageReport),
+    vscode.commands.registerCommand("item-filter.showBlockBases", showBlockBases)
+  );
+}
+
+/**
+ * Tests every known item base against the item filter within the active
+ * editor, opening a markdown document describing the results.
+ */
+async function showCoverageReport(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "item-filter") {
+    vscode.window.showErrorMessage("Creating a coverage report requires an item filter to be" +
+      " open within the active editor.");
+    return;
+  }
+
+  const document = editor.document;
+  const report = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: "Testing each item base against the item filter",
+    cancellable: true
+  }, (progress, token) => createReport(document, progress, token));
+
+  if (!report) {
+    return;
+  }
+
+  const reportDocument = await vscode.workspace.openTextDocument({
+    language: "markdown",
+    content: renderReport(document, report)
+  });
+
+  await vscode.window.showTextDocument(reportDocument, vscode.ViewColumn.Beside);
+}
+
+/**
+ * Opens a markdown document listing the item bases a block can catch, as
+ * counted by the code lens above the block.
+ */
+async function showBlockBases(document: vscode.TextDocument, block: BlockNode,
+  matches: BlockBaseMatch[]): Promise<void> {
+
+  const reportDocument = await vscode.workspace.openTextDocument({
+    language: "markdown",
+    content: renderBlockBases(document, block, matches)
+  });
+
+  await vscode.window.showTextDocument(reportDocument, vscode.ViewColumn.Beside);
+}
+
+/**
+ * Tests each item base against the filter, yielding between item classes
+ * to keep the editor responsive for larger filters.
+ * @return The report, which is undefined should the user cancel it.
+ */
+async function createReport(document: vscode.TextDocument,
+  progress: vscode.Progress<{ message?: string, increment?: number }>,
+  token: vscode.CancellationToken): Promise<CoverageReport | undefined> {
+
+  const root = parseFilter(document.getText());
+  const report = createCoverageReport(root);
+  const itemClasses = Object.keys(itemData.classesToBases);
+
+  for (const itemClass of itemClasses) {
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    progress.report({ message: itemClass, increment: 100 / itemClasses.length });
+    await new Promise(resolve => setImmediate(resolve));
+
+    for (const baseType of itemData.classesToBases[itemClass]) {
+      addBaseCoverage(report, root, baseType, itemClass);
+    }
+  }
+
+  return report;
+}
+
+function renderReport(document: vscode.TextDocument, report: CoverageReport): string {
+  const itemCount = report.bases.length * itemRarities.length * coverageItemLevels.length;
+  const hiddenBases = getHiddenBases(report);
+  const unmatchedBases = getUnmatchedBases(report);
+
+  const lines = [
+    `# Coverage Report for ${escapeMarkdown(path.basename(document.fileName))}`,
+    "",
+    `Tested ${report.bases.length} item bases at each rarity and at item levels` +
+      ` ${coverageItemLevels.join(", ")}, for a total of ${itemCount} items.`,
+    "",
+    "## Never Shown",
+    ""
+  ];
+
+  if (hiddenBases.length > 0) {
+    lines.push(`${hiddenBases.length} item bases are hidden at every rarity and item level.`,
+      "", ...renderBaseList(hiddenBases, () => ""));
+  } else {
+    lines.push("Every item base is shown at some rarity or item level.");
+  }
+
+  lines.push("", "## Caught by No Block", "");
+
+  if (unmatchedBases.length > 0) {
+    lines.push(`${unmatchedBases.length} item bases have items which are shown using the` +
+      " default styles, as no block catches them.", "",
+      ...renderBaseList(unmatchedBases, b => ` (${b.unmatched})`));
+  } else {
+    lines.push("Every item is caught by a block.");
+  }
+
+  lines.push("", "## Items per Block", "", "| Line | Block | Items |", "| ---: | --- | ---: |");
+
+  for (const [block, items] of report.blocks) {
+    const comment = block.comment ? ` # ${block.comment.value}` : "";
+    lines.push(`| ${block.range.start.line + 1} | ${escapeMarkdown(block.keyword.text + comment)}` +
+      ` | ${items} |`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function renderBlockBases(document: vscode.TextDocument, block: BlockNode,
+  matches: BlockBaseMatch[]): string {
+
+  const caughtBases = matches.filter(m => !isCaughtEarlier(m));
+  const earlierBases = matches.filter(isCaughtEarlier);
+  const comment = block.comment ? ` # ${block.comment.value}` : "";
+
+  const lines = [
+    `# Item Bases for Line ${block.range.start.line + 1} of` +
+      ` ${escapeMarkdown(path.basename(document.fileName))}`,
+    "",
+    `\`${block.keyword.text}${comment}\``,
+    "",
+    `Tested each item base at each rarity and at item levels ${coverageItemLevels.join(", ")}.`,
+    "",
+    "## Caught by This Block",
+    ""
+  ];
+
+  if (caughtBases.length > 0) {
+    lines.push(`${caughtBases.length} item bases have items caught by this block.`, "",
+      ...renderBaseList(caughtBases, m => m.caughtEarlier > 0 ?
+        ` (${m.caughtEarlier} of ${m.items} items caught earlier)` : ""));
+  } else {
+    lines.push("No item base has an item caught by this block.");
+  }
+
+  lines.push("", "## Already Caught by Earlier Blocks", "");
+
+  if (earlierBases.length > 0) {
+    lines.push(`${earlierBases.length} item bases meet the conditions of this block, but each` +
+      " of their items is caught by an earlier block.", "", ...renderBaseList(earlierBases,
+      () => ""));
+  } else {
+    lines.push("No item base is entirely caught by earlier blocks.");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Renders the item bases as a list of their names, grouped by their class. */
+function renderBaseList<T extends { baseType: string, class: string }>(bases: T[],
+  getSuffix: (base: T) => string): string[] {
+
+  const classes = new Map<string, string[]>();
+  for (const base of bases) {
+    const names = classes.get(base.class) || [];
+    names.push(escapeMarkdown(base.baseType) + getSuffix(base));
+    classes.set(base.class, names);
+  }
+
+  const result: string[] = [];
+  for (const [itemClass, names] of classes) {
+    result.push(`- **${escapeMarkdown(itemClass)}**: ${names.join(", ")}`);
+  }
+
+  return result;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_\[\]|<>]/g, "\\$&");
+}
@@ -4,4 +4,8 @@
  * license information.
  * ===========================================================================*/
 
+export * from "./coverage-report";
+export * from "./label-preview";
+export * from "./loot-wall";
 export * from "./play-sound";
+export * from "./test-item";
@@ -0,0 +1,258 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot, escapeHtml } from "../helpers";
+import { getItemLabel, getItemStyles, ItemStyles, renderLabelHtml } from "../items";
+import { CompositeDisposable, IDisposable } from "../kits/events";
+import { FilterChangedEvent, ItemFilterManager } from "../managers/item-filters";
+import { BlockNode, FilterNode, isBlockNode } from "../parsers-nextgen";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+const imageData = <types.ImageData>require(path.join(dataOutputRoot, "images.json"));
+
+/** The CSS colors used for each color of the beams created by `PlayEffect`. */
+const effectColors: { [color: string]: string | undefined } = {
+  Red: "rgb(255, 40, 40)",
+  Green: "rgb(60, 220, 60)",
+  Blue: "rgb(60, 120, 255)",
+  Brown: "rgb(170, 110, 50)",
+  White: "rgb(255, 255, 255)",
+  Yellow: "rgb(255, 220, 40)"
+};
+
+/** The names of each size of minimap icon, with the smallest value being the largest icon. */
+const minimapIconSizes = ["Large", "Medium", "Small"];
+
+export function registerLabelPreview(context: vscode.ExtensionContext,
+  filterManager: ItemFilterManager): void {
+
+  const panel = new LabelPreviewPanel(filterManager);
+
+  context.subscriptions.push(
+    panel,
+    vscode.commands.registerCommand("item-filter.showLabelPreview", () => showLabelPreview(panel))
+  );
+}
+
+/** Opens the label preview beside the item filter within the active editor. */
+function showLabelPreview(panel: LabelPreviewPanel): void {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "item-filter") {
+    vscode.window.showErrorMessage("Previewing a label requires an item filter to be open" +
+      " within the active editor.");
+    return;
+  }
+
+  panel.show(editor);
+}
+
+/**
+ * The webview previewing the label of the block under the cursor, which
+ * follows the cursor of the most recently active item filter editor and
+ * updates as that filter changes.
+ */
+class LabelPreviewPanel implements IDisposable {
+  private _editor?: vscode.TextEditor;
+  private _html?: string;
+  private _panel?: vscode.WebviewPanel;
+  private _subscriptions?: CompositeDisposable;
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._filterManager = filterManager;
+  }
+
+  dispose(): void {
+    if (this._panel) {
+      this._panel.dispose();
+    }
+  }
+
+  /** Displays the preview for the given editor, creating the webview if necessary. */
+  show(editor: vscode.TextEditor): void {
+    this._editor = editor;
+
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel("item-filter.labelPreview", "Label Preview",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true }, {});
+
+      // The preview only follows the filter while it's open.
+      this._subscriptions = new CompositeDisposable([
+        vscode.window.onDidChangeActiveTextEditor(this._changeEditor, this),
+        vscode.window.onDidChangeTextEditorSelection(e => this._changeEditor(e.textEditor)),
+        this._filterManager.onDidChangeFilter(this._changeFilter, false, this)
+      ]);
+
+      this._panel.onDidDispose(() => {
+        if (this._subscriptions) this._subscriptions.dispose();
+        this._subscriptions = undefined;
+        this._panel = undefined;
+        this._editor = undefined;
+        this._html = undefined;
+      });
+    } else {
+      this._panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    this._update();
+  }
+
+  private _changeEditor(editor: vscode.TextEditor | undefined): void {
+    if (editor && editor.document.languageId === "item-filter") {
+      this._editor = editor;
+      this._update();
+    }
+  }
+
+  private _changeFilter(event: FilterChangedEvent): void {
+    if (this._editor && this._editor.document.uri.toString() === event.uri) {
+      this._update();
+    }
+  }
+
+  /** Renders the preview for the block under the cursor of the current editor. */
+  private async _update(): Promise<void> {
+    const editor = this._editor;
+    if (!editor) return;
+
+    const payload = await this._filterManager.getPayload(editor.document);
+    if (!payload) return;
+
+    // The cursor may have since moved to another editor.
+    if (!this._panel || editor !== this._editor) return;
+
+    const block = findBlock(payload.root, editor.selection.active.line);
+    const html = renderPreview(block);
+
+    // Replacing the HTML reloads the webview, so it's only done when necessary.
+    if (html !== this._html) {
+      this._html = html;
+      this._panel.webview.html = html;
+    }
+  }
+}
+
+/** Returns the block containing the given line, if any. */
+function findBlock(root: FilterNode, line: number): BlockNode | undefined {
+  for (const node of root.children) {
+    if (node.range.start.line > line) {
+      break;
+    } else if (isBlockNode(node) && node.range.end.line >= line) {
+      return node;
+    }
+  }
+
+  return undefined;
+}
+
+function renderPreview(block: BlockNode | undefined): string {
+  let content: string;
+
+  if (block) {
+    const styles = getItemStyles(block);
+    const label = renderLabelHtml(getItemLabel(block, itemData.classesToBases));
+    const hidden = block.keyword.text === "Hide";
+
+    content = `<div class="ground">${renderEffect(styles)}` +
+      `<div class="label${hidden ? " hidden" : ""}">${label}</div></div>` +
+      `<p>${escapeHtml(`${block.keyword.text} block on line ${block.range.start.line + 1}`)}` +
+      `${hidden ? ", which is only shown while highlighting items" : ""}.</p>` +
+      renderDetails(styles);
+  } else {
+    content = "<p>Place the cursor within a block to preview its label.</p>";
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    .ground {
+      position: relative;
+      display: flex;
+      align-items: flex-end;
+      justify-content: center;
+      height: 220px;
+      background: radial-gradient(ellipse at center, rgb(62, 56, 46), rgb(24, 21, 17));
+      font-family: "Fontin SmallCaps", "Palatino Linotype", serif;
+    }
+    .label {
+      position: relative;
+      margin-bottom: 40px;
+    }
+    .label.hidden {
+      opacity: 0.5;
+    }
+    .beam {
+      position: absolute;
+      bottom: 40px;
+      width: 12px;
+      height: 180px;
+    }
+    .beam.temporary {
+      height: 90px;
+    }
+    .icon {
+      vertical-align: middle;
+      margin-right: 6px;
+    }
+  </style>
+</head>
+<body>
+  ${content}
+</body>
+</html>`;
+}
+
+/** Renders the beam created by the `PlayEffect` action of the block, if any. */
+function renderEffect(styles: ItemStyles): string {
+  if (!styles.effect) return "";
+
+  const color = effectColors[styles.effect.color];
+  if (!color) return "";
+
+  const className = styles.effect.temporary ? "beam temporary" : "beam";
+  return `<div class="${className}" style="background: linear-gradient(to top, ${color},` +
+    " transparent)\"></div>";
+}
+
+/** Renders the minimap icon and each of the other actions not shown by the label itself. */
+function renderDetails(styles: ItemStyles): string {
+  const details: string[] = [];
+
+  if (styles.minimapIcon) {
+    const { size, color, shape } = styles.minimapIcon;
+    const image = imageData[`minimap-icons/${shape.toLowerCase()}_${color.toLowerCase()}` +
+      `_${size}.png`];
+    const name = escapeHtml(`${minimapIconSizes[size] || size} ${color} ${shape}`);
+
+    details.push(image ? `<img class="icon" src="data:image/png;base64,${image}">` +
+      `${name} minimap icon` : `${name} minimap icon`);
+  }
+
+  if (styles.effect) {
+    details.push(escapeHtml(`${styles.effect.color} beam` +
+      (styles.effect.temporary ? ", shown only as the item drops" : "")));
+  }
+
+  if (styles.alertSound) {
+    details.push(escapeHtml(`Alert sound ${styles.alertSound.identifier} at volume` +
+      ` ${styles.alertSound.volume}`));
+  }
+
+  if (styles.customAlertSound) {
+    details.push(`Custom alert sound ${escapeHtml(styles.customAlertSound)}`);
+  }
+
+  if (!styles.dropSound) {
+    details.push("Drop sound disabled");
+  }
+
+  return details.length > 0 ? `<ul>${details.map(d => `<li>${d}</li>`).join("")}</ul>` : "";
+}
@@ -0,0 +1,157 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { createNonce, dataOutputRoot, escapeHtml, imageRoot, renderCspMeta } from "../helpers";
+import { getLootWall, renderLootWallHtml } from "../items";
+import { IDisposable } from "../kits/events";
+import { ItemFilterManager } from "../managers/item-filters";
+import { FilterNode } from "../parsers-nextgen";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+
+/** A message sent from the loot wall, requesting that a line of the filter be revealed. */
+interface RevealMessage {
+  line: number;
+}
+
+export function registerLootWall(context: vscode.ExtensionContext,
+  filterManager: ItemFilterManager): void {
+
+  const panel = new LootWallPanel(filterManager);
+
+  context.subscriptions.push(
+    panel,
+    vscode.commands.registerCommand("item-filter.showLootWall", () => showLootWall(panel))
+  );
+}
+
+/** Opens the loot wall for the item filter within the active editor. */
+async function showLootWall(panel: LootWallPanel): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "item-filter") {
+    vscode.window.showErrorMessage("Showing the loot wall requires an item filter to be open" +
+      " within the active editor.");
+    return;
+  }
+
+  await panel.show(editor.document);
+}
+
+/**
+ * The webview displaying a sample label for each block of an item filter,
+ * with each label linking back to its block.
+ */
+class LootWallPanel implements IDisposable {
+  private _panel?: vscode.WebviewPanel;
+  private _uri?: vscode.Uri;
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._filterManager = filterManager;
+  }
+
+  dispose(): void {
+    if (this._panel) {
+      this._panel.dispose();
+    }
+  }
+
+  /** Displays the loot wall for the filter, creating the webview if necessary. */
+  async show(document: vscode.TextDocument): Promise<void> {
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return;
+
+    this._uri = document.uri;
+
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel("item-filter.lootWall", "Loot Wall",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, localResourceRoots: [vscode.Uri.file(imageRoot)] });
+
+      this._panel.webview.onDidReceiveMessage(this._reveal, this);
+      this._panel.onDidDispose(() => {
+        this._panel = undefined;
+      });
+    } else {
+      this._panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    this._panel.title = `Loot Wall: ${path.basename(document.fileName)}`;
+    this._panel.webview.html = renderPanel(this._panel.webview, document.fileName,
+      payload.root);
+  }
+
+  /** Reveals the line requested by the webview within an editor for the filter. */
+  private async _reveal(message: RevealMessage): Promise<void> {
+    if (!this._uri) return;
+
+    const document = await vscode.workspace.openTextDocument(this._uri);
+    const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+    const position = new vscode.Position(message.line, 0);
+
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position),
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+}
+
+function renderPanel(webview: vscode.Webview, fileName: string, root: FilterNode): string {
+  const entries = getLootWall(root, itemData.classesToBases);
+  const nonce = createNonce();
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  ${renderCspMeta(webview.cspSource, nonce)}
+  <style>
+    body {
+      background: rgb(24, 21, 17);
+      color: rgb(200, 200, 200);
+    }
+    .labels {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+      margin: 8px 0 16px;
+      font-family: "Fontin SmallCaps", "Palatino Linotype", serif;
+    }
+    .labels a {
+      text-decoration: none;
+    }
+    .labels a.hidden {
+      display: none;
+      opacity: 0.35;
+      filter: grayscale(1);
+    }
+    body.show-hidden .labels a.hidden {
+      display: inline-block;
+    }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(path.basename(fileName))}</h1>
+  <label><input type="checkbox" id="show-hidden"> Show hidden blocks</label>
+  ${renderLootWallHtml(entries)}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById("show-hidden").addEventListener("change", event => {
+      document.body.classList.toggle("show-hidden", event.target.checked);
+    });
+    for (const link of document.querySelectorAll("a[data-line]")) {
+      link.addEventListener("click", event => {
+        event.preventDefault();
+        vscode.postMessage({ line: parseInt(link.getAttribute("data-line"), 10) });
+      });
+    }
+  </script>
+</body>
+</html>`;
+}
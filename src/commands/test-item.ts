@@ -0,0 +1,240 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { range2CodeRange } from "../converters";
+import { createNonce, dataOutputRoot, escapeHtml, imageRoot, renderCspMeta } from "../helpers";
+import {
+  color2Css, createItem, findNearMisses, isItemTooltip, Item, ItemDescription, ItemMatch,
+  labelFontScale, matchItem, NearMiss, parseItemDescription, parseItemTooltip, TooltipData
+} from "../items";
+import { IDisposable } from "../kits/events";
+import { ItemFilterManager } from "../managers/item-filters";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+const modData = <types.ModData>require(path.join(dataOutputRoot, "mods.json"));
+
+const tooltipData: TooltipData = {
+  itemBases: itemData.sortedBases,
+  prefixes: modData.prefixes,
+  suffixes: modData.suffixes,
+  prophecies: itemData.prophecies
+};
+
+/** A message sent from the result panel, requesting that a line of the filter be revealed. */
+interface RevealMessage {
+  line: number;
+}
+
+export function registerTestItem(context: vscode.ExtensionContext,
+  filterManager: ItemFilterManager): void {
+
+  const panel = new TestItemPanel();
+
+  context.subscriptions.push(
+    panel,
+    vscode.commands.registerCommand("item-filter.testItem", () => testItem(panel, filterManager))
+  );
+}
+
+/**
+ * Asks for an item, then determines which block of the item filter within
+ * the active editor catches that item.
+ */
+async function testItem(panel: TestItemPanel, filterManager: ItemFilterManager):
+  Promise<void> {
+
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "item-filter") {
+    vscode.window.showErrorMessage("Testing an item requires an item filter to be open" +
+      " within the active editor.");
+    return;
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: "Describe the item to test, or leave this empty to use an item copied from" +
+      " the game using Ctrl+C.",
+    placeHolder: "Vaal Regalia, Rarity Rare, ItemLevel 84, Sockets R-G-B-B-B-B",
+    ignoreFocusOut: true
+  });
+
+  if (input === undefined) {
+    return;
+  }
+
+  let item: Item;
+  try {
+    item = createItem(await getItemDescription(input), itemData.basesToClasses);
+  } catch (e) {
+    vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e));
+    return;
+  }
+
+  const document = editor.document;
+  const payload = await filterManager.getPayload(document);
+  if (!payload) return;
+
+  const root = payload.root;
+  const match = matchItem(root, item);
+  const nearMisses = findNearMisses(root, item);
+
+  if (match) {
+    revealLine(editor, match.block.range.start.line);
+  }
+
+  panel.show(document, item, match, nearMisses);
+}
+
+/** Parses the input, using the clipboard when the input is empty. */
+async function getItemDescription(input: string): Promise<ItemDescription> {
+  if (input.trim().length !== 0) {
+    return parseItemDescription(input);
+  }
+
+  const clipboard = await vscode.env.clipboard.readText();
+  if (!isItemTooltip(clipboard)) {
+    throw new Error("Expected the clipboard to contain an item copied from the game.");
+  }
+
+  const result = parseItemTooltip(clipboard, tooltipData);
+  if (result.warnings.length > 0) {
+    vscode.window.showWarningMessage(result.warnings.join(" "));
+  }
+
+  return result.item;
+}
+
+function revealLine(editor: vscode.TextEditor, line: number): void {
+  const position = new vscode.Position(line, 0);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(new vscode.Range(position, position),
+    vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * The webview displaying the result of the most recent item test, with each
+ * block listed within it linking back to the item filter.
+ */
+class TestItemPanel implements IDisposable {
+  private _panel?: vscode.WebviewPanel;
+  private _uri?: vscode.Uri;
+
+  dispose(): void {
+    if (this._panel) {
+      this._panel.dispose();
+    }
+  }
+
+  /** Displays the result of an item test, creating the webview if necessary. */
+  show(document: vscode.TextDocument, item: Item, match: ItemMatch | undefined,
+    nearMisses: NearMiss[]): void {
+
+    this._uri = document.uri;
+
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel("item-filter.testItem", "Item Test",
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, localResourceRoots: [vscode.Uri.file(imageRoot)] });
+
+      this._panel.webview.onDidReceiveMessage(this._reveal, this);
+      this._panel.onDidDispose(() => {
+        this._panel = undefined;
+      });
+    } else {
+      this._panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    this._panel.webview.html = renderResult(this._panel.webview, document, item, match,
+      nearMisses);
+  }
+
+  /** Reveals the line requested by the webview within an editor for the filter. */
+  private async _reveal(message: RevealMessage): Promise<void> {
+    if (!this._uri) return;
+
+    const document = await vscode.workspace.openTextDocument(this._uri);
+    const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+    revealLine(editor, message.line);
+  }
+}
+
+function renderResult(webview: vscode.Webview, document: vscode.TextDocument, item: Item,
+  match: ItemMatch | undefined, nearMisses: NearMiss[]): string {
+
+  const getText = (range: types.Range) => escapeHtml(document.getText(range2CodeRange(range)));
+  const blockLink = (line: number) => `<a href="#" data-line="${line}">line ${line + 1}</a>`;
+
+  let result: string;
+  if (match) {
+    result = `<p>${match.visible ? "Shown" : "Hidden"} by the block on` +
+      ` ${blockLink(match.block.range.start.line)}.</p>${renderLabel(item, match)}`;
+  } else {
+    result = "<p>No block catches the item, so it's shown using the default styles.</p>";
+  }
+
+  let nearMissList = "<p>No earlier block nearly caught the item.</p>";
+  if (nearMisses.length > 0) {
+    const entries = nearMisses.map(n => `<li>${getText(n.block.keyword.range)} block on` +
+      ` ${blockLink(n.block.range.start.line)}, failing <code>${getText(n.condition.range)}` +
+      "</code></li>");
+
+    nearMissList = `<ul>${entries.join("")}</ul>`;
+  }
+
+  const nonce = createNonce();
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  ${renderCspMeta(webview.cspSource, nonce)}
+</head>
+<body>
+  <h2>${escapeHtml(item.baseType)}</h2>
+  <p>${escapeHtml(`${item.rarity} ${item.class}, item level ${item.itemLevel}`)}</p>
+  ${result}
+  <h3>Near Misses</h3>
+  ${nearMissList}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    for (const link of document.querySelectorAll("a[data-line]")) {
+      link.addEventListener("click", event => {
+        event.preventDefault();
+        vscode.postMessage({ line: parseInt(link.getAttribute("data-line"), 10) });
+      });
+    }
+  </script>
+</body>
+</html>`;
+}
+
+/** Renders the label of the item, as styled by the block catching it. */
+function renderLabel(item: Item, match: ItemMatch): string {
+  const { styles } = match;
+  const css: string[] = ["display: inline-block", "padding: 2px 8px"];
+
+  if (styles.textColor) css.push(`color: ${color2Css(styles.textColor)}`);
+  if (styles.backgroundColor) css.push(`background: ${color2Css(styles.backgroundColor)}`);
+  if (styles.borderColor) css.push(`border: 1px solid ${color2Css(styles.borderColor)}`);
+  if (styles.fontSize) css.push(`font-size: ${Math.round(styles.fontSize * labelFontScale)}px`);
+
+  const details: string[] = [];
+  if (styles.alertSound) details.push(`Alert sound ${escapeHtml(styles.alertSound.identifier)}`);
+  if (styles.customAlertSound) {
+    details.push(`Custom alert sound ${escapeHtml(styles.customAlertSound)}`);
+  }
+  if (styles.minimapIcon) {
+    const { size, color, shape } = styles.minimapIcon;
+    details.push(`Minimap icon ${escapeHtml(`${color} ${shape}`)} of size ${size}`);
+  }
+  if (styles.effect) details.push(`${escapeHtml(styles.effect.color)} beam`);
+  if (!styles.dropSound) details.push("Drop sound disabled");
+
+  return `<p><span style="${css.join("; ")}">${escapeHtml(item.baseType)}</span></p>` +
+    (details.length > 0 ? `<p>${details.join(", ")}.</p>` : "");
+}
@@ -36,13 +36,29 @@ export function span2CodeRange(span: types.Span, line: number) {
 /**
  * Converts a diagnostic from our own representation into the VSCode type.
  * @param diagnostic A diagnostic received as part of the result of a parse.
+ * @param uri The URI of the document the diagnostic belongs to, which is also
+ * the document containing any of its related information.
  */
-export function diagnostic2CodeDiagnostic(diagnostic: types.Diagnostic): vscode.Diagnostic {
-  return new vscode.Diagnostic(
+export function diagnostic2CodeDiagnostic(diagnostic: types.Diagnostic, uri: vscode.Uri):
+  vscode.Diagnostic {
+
+  const result = new vscode.Diagnostic(
     range2CodeRange(diagnostic.range),
     diagnostic.message,
     diagSeverity2CodeDiagSeverity(diagnostic.severity)
   );
+
+  if (diagnostic.code) {
+    result.code = diagnostic.code;
+  }
+
+  if (diagnostic.relatedInformation) {
+    result.relatedInformation = diagnostic.relatedInformation.map(info =>
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(uri, range2CodeRange(info.range)), info.message));
+  }
+
+  return result;
 }
 
 /**
@@ -89,6 +105,14 @@ export function colorInfo2CodeColorInfo(colorInfo: types.ColorInformation):
     color2CodeColor(colorInfo.color));
 }
 
+/**
+ * Converts a text edit from our own representation into the VSCode type.
+ * @param edit A text edit received as the result of formatting.
+ */
+export function textEdit2CodeTextEdit(edit: types.TextEdit): vscode.TextEdit {
+  return new vscode.TextEdit(range2CodeRange(edit.range), edit.newText);
+}
+
 /** Returns the operator type that correlates to the given text, if any. */
 export function textOperator2FilterOperator(text: string): types.FilterOperator | undefined {
   switch (text) {
@@ -106,16 +130,3 @@ export function textOperator2FilterOperator(text: string): types.FilterOperator
       return undefined;
   }
 }
-
-export function textExtensionToSoundType(ext: string): types.CustomSoundType {
-  const value = ext.toLowerCase();
-
-  switch (value) {
-    case ".mp3":
-      return types.CustomSoundType.MP3;
-    case ".wav":
-      return types.CustomSoundType.WAV;
-    default:
-      return types.CustomSoundType.Unknown;
-  }
-}
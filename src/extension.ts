@@ -6,30 +6,62 @@
 
 import * as vscode from "vscode";
 
-import { registerPlaySound } from "./commands";
+import {
+  registerCoverageReport, registerLabelPreview, registerLootWall, registerPlaySound,
+  registerTestItem
+} from "./commands";
 import { DocumentRegistry } from "./registries/documents";
 import { VisibleEditorRegistry } from "./registries/visible-editors";
 import { ConfigurationManager } from "./managers/configuration";
+import { HintDecorationManager } from "./managers/hint-decorations";
 import { ItemFilterManager } from "./managers/item-filters";
+import { LabelDecorationManager } from "./managers/label-decorations";
+import { MinimapIconDecorationManager } from "./managers/minimap-icon-decorations";
 import { SoundDecorationManager } from "./managers/sound-decorations";
+import { FilterCodeActionProvider } from "./providers/code-actions";
+import { FilterCodeLensProvider } from "./providers/code-lenses";
 import { completionTriggers, FilterCompletionProvider } from "./providers/completions";
 import { FilterDiagnosticsProvider } from "./providers/diagnostics";
 import { FilterHoverProvider } from "./providers/hovers";
 import { FilterColorProvider } from "./providers/colors";
+import { FilterFoldingProvider } from "./providers/folding";
+import { FilterFormattingProvider } from "./providers/formatting";
+import { FilterReferenceProvider } from "./providers/references";
+import { FilterRenameProvider } from "./providers/rename";
+import { FilterSemanticTokensProvider, semanticTokensLegend } from "./providers/semantic-tokens";
+import { FilterSignatureHelpProvider, signatureHelpTriggers } from "./providers/signatures";
+import { FilterSymbolProvider } from "./providers/symbols";
 
 export function activate(context: vscode.ExtensionContext): void {
   registerPlaySound(context);
+  registerCoverageReport(context);
 
   const documentRegistry = new DocumentRegistry();
   const editorRegistry = new VisibleEditorRegistry(documentRegistry);
   const configManager = new ConfigurationManager();
   const filterManager = new ItemFilterManager(configManager, documentRegistry);
+  registerLabelPreview(context, filterManager);
+  registerLootWall(context, filterManager);
+  registerTestItem(context, filterManager);
+
   const soundManager = new SoundDecorationManager(editorRegistry, filterManager);
+  const labelManager = new LabelDecorationManager(editorRegistry, filterManager);
+  const minimapIconManager = new MinimapIconDecorationManager(editorRegistry, filterManager);
+  const hintManager = new HintDecorationManager(configManager, editorRegistry, filterManager);
 
   const completionProvider = new FilterCompletionProvider(configManager);
   const diagnosticProvider = new FilterDiagnosticsProvider(filterManager);
   const hoverProvider = new FilterHoverProvider();
   const colorProvider = new FilterColorProvider(configManager, filterManager);
+  const symbolProvider = new FilterSymbolProvider(filterManager);
+  const foldingProvider = new FilterFoldingProvider(filterManager);
+  const codeActionProvider = new FilterCodeActionProvider(configManager, filterManager);
+  const formattingProvider = new FilterFormattingProvider(configManager);
+  const semanticTokensProvider = new FilterSemanticTokensProvider(configManager, filterManager);
+  const codeLensProvider = new FilterCodeLensProvider(filterManager);
+  const referenceProvider = new FilterReferenceProvider(filterManager);
+  const renameProvider = new FilterRenameProvider(configManager, documentRegistry);
+  const signatureHelpProvider = new FilterSignatureHelpProvider();
 
   const selector: vscode.DocumentFilter = {
     language: "item-filter",
@@ -42,12 +74,35 @@ export function activate(context: vscode.ExtensionContext): void {
     configManager,
     filterManager,
     soundManager,
+    labelManager,
+    minimapIconManager,
+    hintManager,
     completionProvider,
     diagnosticProvider,
     colorProvider,
+    formattingProvider,
+    semanticTokensProvider,
+    renameProvider,
+    codeLensProvider,
     vscode.languages.registerCompletionItemProvider(selector, completionProvider,
       ...completionTriggers),
     vscode.languages.registerHoverProvider(selector, hoverProvider),
-    vscode.languages.registerColorProvider(selector, colorProvider)
+    vscode.languages.registerColorProvider(selector, colorProvider),
+    vscode.languages.registerDocumentSymbolProvider(selector, symbolProvider),
+    vscode.languages.registerFoldingRangeProvider(selector, foldingProvider),
+    vscode.languages.registerCodeActionsProvider(selector, codeActionProvider, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+    }),
+    vscode.languages.registerDocumentFormattingEditProvider(selector, formattingProvider),
+    vscode.languages.registerDocumentRangeFormattingEditProvider(selector, formattingProvider),
+    vscode.languages.registerDocumentSemanticTokensProvider(selector, semanticTokensProvider,
+      semanticTokensLegend),
+    vscode.languages.registerRenameProvider(selector, renameProvider),
+    vscode.languages.registerReferenceProvider(selector, referenceProvider),
+    vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
+    vscode.languages.registerSignatureHelpProvider(selector, signatureHelpProvider, {
+      triggerCharacters: signatureHelpTriggers,
+      retriggerCharacters: signatureHelpTriggers
+    })
   );
 }
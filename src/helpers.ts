@@ -4,6 +4,7 @@
  * license information.
  * ===========================================================================*/
 
+import * as crypto from "crypto";
 import * as path from "path";
 
 /** The root path of the project. */
@@ -15,6 +16,9 @@ export const outputRoot = path.join(projectRoot, "out");
 /** The root path of the data output directory. */
 export const dataOutputRoot = path.join(outputRoot, "data");
 
+/** The root path of the images directory. */
+export const imageRoot = path.join(projectRoot, "build", "images");
+
 /** The root path of the assets directory. */
 export const assetRoot = path.join(projectRoot, "assets");
 
@@ -123,3 +127,27 @@ export function stylizedArrayJoin(values: Array<string | number>, exclusive?: bo
     return `${values.slice(0, -1).join(", ")}${divider}${values.slice(-1)}`;
   }
 }
+
+/** Escapes the characters of the text with special meaning within HTML. */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+/** Returns a random value to be used once as the nonce of the scripts of a webview. */
+export function createNonce(): string {
+  return crypto.randomBytes(16).toString("base64");
+}
+
+/**
+ * Returns the meta tag setting the content security policy of a webview, which
+ * allows inline styles, images either from the extension or as data URIs, and
+ * only those inline scripts having the nonce.
+ * @param cspSource The source of the resources of the webview, being its `cspSource`.
+ * @param nonce The nonce of the scripts of the webview, as returned by `createNonce`.
+ * @return The HTML of the meta tag.
+ */
+export function renderCspMeta(cspSource: string, nonce: string): string {
+  return "<meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'; " +
+    `img-src ${cspSource} data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">`;
+}
@@ -4,123 +4,161 @@
  * license information.
  * ===========================================================================*/
 
-import * as assert from "assert";
-import * as path from "path";
-
 import * as types from "./types";
-import { dataOutputRoot, getOrdinal, splitLines } from "./helpers";
-import { isKeywordParseLineResult, KeywordParseLineResult, LineParser } from "./parsers/lines";
+import { CancellationError, isCancellationError, WorkerPool, WorkerTask } from "./kits/workers";
+import {
+  analyzeBlocks, FilterParseResult, FilterWorkerRequest, FilterWorkerResponse, parseItemFilter,
+  processNodes
+} from "./parsers/filter";
+import { reparseFilter, spliceResults, TextChange } from "./parsers-nextgen";
 
-const filterData = <types.FilterData>require(path.join(dataOutputRoot, "filter.json"));
+export { FilterParseResult } from "./parsers/filter";
 
-export interface FilterParseResult {
-  colorInformation: types.ColorInformation[];
-  soundInformation: types.SoundInformation[];
-  diagnostics: types.Diagnostic[];
-}
+/** A pool of workers able to parse the full text of an item filter. */
+export type FilterParsePool = WorkerPool<FilterWorkerRequest, FilterWorkerResponse>;
 
-export interface FilterContext {
-  config: types.ConfigurationValues;
-  blockFound: boolean;
-}
+/** A previous version of an item filter, along with the changes made since that version. */
+export interface PreviousItemFilter {
+  /** The previous version of the item filter. */
+  filter: ItemFilter;
 
-export interface BlockContext {
-  root?: types.Range;
-  classes: string[];
-  previousRules: Map<string, number>;
+  /** The changes made to the text of the previous version. */
+  changes: ReadonlyArray<TextChange>;
 }
 
 export class ItemFilter {
+  /** The version of the document the item filter was parsed from. */
+  readonly version: number;
+
+  /**
+   * The result of parsing the item filter, which is rejected with a
+   * `CancellationError` should the parse be cancelled.
+   */
   readonly payload: Promise<FilterParseResult>;
 
-  constructor(config: types.ConfigurationValues, text: string) {
-    this.payload = this._fullUpdate(config, text);
+  private readonly _text: string;
+  private readonly _pool?: FilterParsePool;
+  private _analysis?: Promise<types.Diagnostic[]>;
+  private _cancelled: boolean;
+  private _task?: WorkerTask<FilterWorkerResponse>;
+
+  /**
+   * Creates a new item filter, parsing the given text.
+   * @param config The configuration values for the extension.
+   * @param version The version of the document containing the text.
+   * @param text The full text of the item filter.
+   * @param pool The worker pool used to parse the full text of the item filter.
+   * The text is parsed on the current thread when not given.
+   * @param previous A previous version of the item filter parsed using the
+   * same configuration. Only those blocks affected by the changes made since
+   * that version will be parsed when given, unless that parse was cancelled.
+   */
+  constructor(config: types.ConfigurationValues, version: number, text: string,
+    pool?: FilterParsePool, previous?: PreviousItemFilter) {
+
+    this.version = version;
+    this._text = text;
+    this._pool = pool;
+    this._cancelled = false;
+    this.payload = previous ? this._incrementalUpdate(config, text, pool, previous) :
+      this._fullUpdate(config, text, pool);
   }
 
-  private async _fullUpdate(config: types.ConfigurationValues, text: string):
-    Promise<FilterParseResult> {
+  /**
+   * Cancels the parse and analysis of the item filter, if either has yet to
+   * complete. Any work being performed by a worker is stopped immediately.
+   */
+  cancel(): void {
+    this._cancelled = true;
 
-    const lines = splitLines(text);
-    const result: FilterParseResult = {
-      colorInformation: [],
-      soundInformation: [],
-      diagnostics: []
-    };
+    if (this._task) {
+      this._task.cancel();
+    }
+  }
 
-    const filterContext: FilterContext = {
-      config,
-      blockFound: false,
-    };
+  /**
+   * Compares the blocks of the item filter with one another once it has been
+   * parsed. Every block is compared, which is too slow to be done within the
+   * extension host on every edit, so this is left to a worker when possible.
+   *
+   * The analysis is only performed once, with any later calls returning the
+   * same result.
+   * @return The diagnostics found, which are rejected with a
+   * `CancellationError` should the item filter be cancelled beforehand.
+   */
+  analyze(): Promise<types.Diagnostic[]> {
+    if (!this._analysis) {
+      this._analysis = this._analyze();
+    }
 
-    const blockContext: BlockContext = {
-      classes: [],
-      previousRules: new Map()
-    };
+    return this._analysis;
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const parser = new LineParser(config, filterContext, blockContext);
-      const parse = parser.parse(line, i);
-
-      if (isKeywordParseLineResult(parse)) {
-        if (parse.knownKeyword) {
-          performBlockDiagnostics(filterContext, blockContext, parse);
-        }
-
-        if (parse.diagnostics.length > 0) {
-          result.diagnostics.push.apply(result.diagnostics, parse.diagnostics);
-        }
-
-        if (parse.color) {
-          result.colorInformation.push(parse.color);
-        }
-
-        if (parse.sound) {
-          result.soundInformation.push(parse.sound);
-        }
-      } else {
-        continue;
-      }
+  private async _fullUpdate(config: types.ConfigurationValues, text: string,
+    pool?: FilterParsePool): Promise<FilterParseResult> {
+
+    if (this._cancelled) {
+      throw new CancellationError();
     }
 
-    return result;
+    if (pool) {
+      this._task = pool.run({ type: "parse", config, text });
+      return <FilterParseResult>await this._task.result;
+    } else {
+      return parseItemFilter({ config, text });
+    }
   }
-}
 
-function performBlockDiagnostics(filterContext: FilterContext, blockContext: BlockContext,
-  parse: KeywordParseLineResult) {
+  /**
+   * Reparses the blocks affected by the changes made since the previous
+   * version, falling back to a full parse should that version's parse have
+   * been cancelled.
+   */
+  private async _incrementalUpdate(config: types.ConfigurationValues, text: string,
+    pool: FilterParsePool | undefined, previous: PreviousItemFilter):
+    Promise<FilterParseResult> {
 
-  if (parse.keyword === "Show" || parse.keyword === "Hide") {
-    filterContext.blockFound = true;
-    return;
-  }
+    let previousResult: FilterParseResult;
+    try {
+      previousResult = await previous.filter.payload;
+    } catch (e) {
+      // Without the previous syntax tree, there's nothing to reparse.
+      if (isCancellationError(e)) {
+        return this._fullUpdate(config, text, pool);
+      }
 
-  if (filterContext.blockFound) {
-    const ruleLimit = filterData.ruleLimits[parse.keyword];
-    assert(ruleLimit !== undefined);
+      throw e;
+    }
 
-    let occurrences = blockContext.previousRules.get(parse.keyword);
-    if (occurrences === undefined) {
-      occurrences = 0;
+    if (this._cancelled) {
+      throw new CancellationError();
     }
 
-    if (ruleLimit >= 1 && occurrences >= ruleLimit) {
-      parse.diagnostics.push({
-        message: `${getOrdinal(occurrences + 1)} occurrence of the` +
-          ` ${parse.keyword} rule within a block with a limit of ${ruleLimit}.`,
-        range: parse.keywordRange,
-        severity: types.DiagnosticSeverity.Warning,
-      });
+    const reparse = reparseFilter(previousResult.root, text, previous.changes);
+    const result = processNodes(reparse.reparsed, config);
+
+    return {
+      root: reparse.root,
+      colorInformation: spliceResults(previousResult.colorInformation, result.colorInformation,
+        reparse),
+      soundInformation: spliceResults(previousResult.soundInformation, result.soundInformation,
+        reparse),
+      diagnostics: spliceResults(previousResult.diagnostics, result.diagnostics, reparse)
+    };
+  }
+
+  private async _analyze(): Promise<types.Diagnostic[]> {
+    const result = await this.payload;
+
+    if (this._cancelled) {
+      throw new CancellationError();
     }
 
-    occurrences++;
-    blockContext.previousRules.set(parse.keyword, occurrences);
-  } else {
-    // We have a rule without an enclosing block.
-    parse.diagnostics.push({
-      message: `Block rule ${parse.keyword} found outside of a Hide or Show block.`,
-      range: parse.lineRange,
-      severity: types.DiagnosticSeverity.Error,
-    });
+    if (this._pool) {
+      this._task = this._pool.run({ type: "analyze", text: this._text });
+      return <types.Diagnostic[]>await this._task.result;
+    } else {
+      return analyzeBlocks(result.root);
+    }
   }
 }
@@ -0,0 +1,304 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { assertUnreachable } from "../helpers";
+import { FilterOperator } from "../types";
+import { BlockNode, isRuleNode, RuleNode, ValueNode } from "../parsers-nextgen";
+import { ItemRarity, itemRarities } from "./item";
+import { countSocketColors, getValueNumber, getValueText, isConditionRule } from "./matching";
+
+/** The type of the set of values allowed by a condition. */
+export const enum ConstraintType {
+  Number = "Number",
+  Text = "Text",
+  Boolean = "Boolean",
+  SocketGroup = "SocketGroup"
+}
+
+/** An inclusive range of whole numbers, either bound of which may be infinite. */
+export interface Interval {
+  min: number;
+  max: number;
+}
+
+/** The numbers allowed by a numeric condition, with rarities being numbered by their order. */
+export interface NumberConstraint {
+  type: ConstraintType.Number;
+
+  /** The allowed numbers, as sorted intervals that neither overlap nor touch. */
+  intervals: Interval[];
+}
+
+/** A condition met when the property of the item contains any of the values. */
+export interface TextConstraint {
+  type: ConstraintType.Text;
+  values: string[];
+}
+
+export interface BooleanConstraint {
+  type: ConstraintType.Boolean;
+  value: boolean;
+}
+
+/** A condition met when a group of linked sockets contains any of the socket groups. */
+export interface SocketGroupConstraint {
+  type: ConstraintType.SocketGroup;
+  groups: string[];
+}
+
+export type Constraint = NumberConstraint | TextConstraint | BooleanConstraint |
+  SocketGroupConstraint;
+
+/** The constraints placed upon an item by the conditions of a block. */
+export interface BlockConstraints {
+  /** The constraints for each condition keyword, in the order they appear. */
+  conditions: Map<string, Constraint[]>;
+
+  /** Whether the block contains any conditions whose constraints couldn't be determined. */
+  incomplete: boolean;
+}
+
+const numberKeywords = [
+  "ItemLevel", "DropLevel", "Quality", "Sockets", "LinkedSockets", "Width", "Height",
+  "StackSize", "GemLevel", "MapTier", "Rarity"
+];
+
+const textKeywords = ["Class", "BaseType", "Prophecy", "HasExplicitMod"];
+
+/**
+ * The number conditions which only ever apply to some items, as the property
+ * is missing for others. Those items fail the condition regardless of its value.
+ */
+const optionalNumberKeywords = ["GemLevel", "MapTier"];
+
+/** The numbers able to be held by the property of every item. */
+const fullInterval: Interval = { min: 0, max: Infinity };
+const rarityInterval: Interval = { min: 0, max: itemRarities.length - 1 };
+
+const socketGroupRegex = /^[RGBWA]+$/i;
+
+/**
+ * Returns the set of values allowed by a condition.
+ * @param rule The rule for the condition.
+ * @return The constraint, which is undefined for actions and for conditions
+ * with values that couldn't be understood.
+ */
+export function getConstraint(rule: RuleNode): Constraint | undefined {
+  const keyword = rule.keyword.text;
+  if (rule.values.length === 0) {
+    return undefined;
+  }
+
+  if (numberKeywords.includes(keyword)) {
+    return getNumberConstraint(rule);
+  } else if (textKeywords.includes(keyword)) {
+    return { type: ConstraintType.Text, values: rule.values.map(getValueText) };
+  } else if (keyword === "SocketGroup") {
+    const groups = rule.values.map(v => getValueText(v).toUpperCase());
+    return groups.every(g => socketGroupRegex.test(g)) ?
+      { type: ConstraintType.SocketGroup, groups } : undefined;
+  } else if (isConditionRule(rule)) {
+    const text = getValueText(rule.values[0]).toLowerCase();
+    return text === "true" || text === "false" ?
+      { type: ConstraintType.Boolean, value: text === "true" } : undefined;
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the constraints placed upon an item by each condition of the block.
+ * @param block The node for the block.
+ * @return The constraints of the block.
+ */
+export function getBlockConstraints(block: BlockNode): BlockConstraints {
+  const result: BlockConstraints = { conditions: new Map(), incomplete: false };
+
+  for (const child of block.children) {
+    if (!isRuleNode(child) || !isConditionRule(child)) continue;
+
+    const constraint = getConstraint(child);
+    if (constraint) {
+      const keyword = child.keyword.text;
+      result.conditions.set(keyword, [...(result.conditions.get(keyword) || []), constraint]);
+    } else {
+      result.incomplete = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns whether every item meeting the conditions of the first block also
+ * meets those of the second, in which case the second block catches each
+ * item the first would, were it placed before it.
+ *
+ * Only those items whose conditions could be understood are considered, so
+ * this may return false for blocks that would nonetheless catch the same items.
+ * @param block The constraints of the block whose items are checked.
+ * @param other The constraints of the block that may catch those items.
+ */
+export function impliesBlock(block: BlockConstraints, other: BlockConstraints): boolean {
+  if (other.incomplete) {
+    return false;
+  }
+
+  for (const [keyword, otherConstraints] of other.conditions) {
+    const constraints = block.conditions.get(keyword) || [];
+
+    for (const otherConstraint of otherConstraints) {
+      if (!impliesConstraint(keyword, constraints, otherConstraint)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Returns whether the condition keyword applies to a property that only some
+ * items have, such as `GemLevel`.
+ */
+export function isOptionalKeyword(keyword: string): boolean {
+  return optionalNumberKeywords.includes(keyword);
+}
+
+/**
+ * Returns the numbers allowed by every one of the number constraints for a
+ * condition keyword, limited to the numbers able to be held by the property.
+ */
+export function intersectNumberConstraints(keyword: string, constraints: Constraint[]):
+  Interval[] {
+
+  let result = [keyword === "Rarity" ? rarityInterval : fullInterval];
+
+  for (const constraint of constraints) {
+    if (constraint.type === ConstraintType.Number) {
+      result = intersectIntervals(result, constraint.intervals);
+    }
+  }
+
+  return result;
+}
+
+/** Returns the numbers contained within both sets of intervals. */
+export function intersectIntervals(first: Interval[], second: Interval[]): Interval[] {
+  const result: Interval[] = [];
+
+  for (const a of first) {
+    for (const b of second) {
+      result.push({ min: Math.max(a.min, b.min), max: Math.min(a.max, b.max) });
+    }
+  }
+
+  return normalizeIntervals(result);
+}
+
+/**
+ * Returns whether the constraints for a condition keyword are enough to meet
+ * the other constraint for that keyword.
+ */
+function impliesConstraint(keyword: string, constraints: Constraint[], other: Constraint):
+  boolean {
+
+  switch (other.type) {
+    case ConstraintType.Number:
+      // Items without the property never meet the condition, regardless of its value.
+      if (constraints.length === 0 && isOptionalKeyword(keyword)) {
+        return false;
+      }
+
+      return containsIntervals(other.intervals, intersectNumberConstraints(keyword, constraints));
+    case ConstraintType.Text:
+      // Any text containing each of the values also contains one of the other values.
+      return constraints.some(c => c.type === ConstraintType.Text &&
+        c.values.every(v => other.values.some(o => v.includes(o))));
+    case ConstraintType.Boolean:
+      return constraints.some(c => c.type === ConstraintType.Boolean && c.value === other.value);
+    case ConstraintType.SocketGroup:
+      return constraints.some(c => c.type === ConstraintType.SocketGroup &&
+        c.groups.every(g => other.groups.some(o => containsSocketGroup(g, o))));
+    default:
+      return assertUnreachable(other);
+  }
+}
+
+function getNumberConstraint(rule: RuleNode): NumberConstraint | undefined {
+  const isRarity = rule.keyword.text === "Rarity";
+  const operator = rule.operator ? rule.operator.value : FilterOperator.Equals;
+  const intervals: Interval[] = [];
+
+  for (const value of rule.values) {
+    const number = isRarity ? getRarityNumber(value) : getNumber(value);
+    if (number === undefined) {
+      return undefined;
+    }
+
+    intervals.push(getInterval(operator, number));
+  }
+
+  return { type: ConstraintType.Number, intervals: normalizeIntervals(intervals) };
+}
+
+/** Returns the numbers for which the comparison using the operator succeeds. */
+function getInterval(operator: FilterOperator, value: number): Interval {
+  switch (operator) {
+    case FilterOperator.Equals:
+      return { min: value, max: value };
+    case FilterOperator.GreaterThan:
+      return { min: value + 1, max: Infinity };
+    case FilterOperator.GreaterThanEquals:
+      return { min: value, max: Infinity };
+    case FilterOperator.LessThan:
+      return { min: -Infinity, max: value - 1 };
+    case FilterOperator.LessThanEquals:
+      return { min: -Infinity, max: value };
+    default:
+      return assertUnreachable(operator);
+  }
+}
+
+function getNumber(value: ValueNode): number | undefined {
+  const number = getValueNumber(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function getRarityNumber(value: ValueNode): number | undefined {
+  const index = itemRarities.indexOf(<ItemRarity>getValueText(value));
+  return index === -1 ? undefined : index;
+}
+
+/** Sorts the intervals, removing any that are empty and merging any that overlap or touch. */
+function normalizeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals.filter(i => i.min <= i.max).sort((a, b) => a.min - b.min);
+  const result: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = result[result.length - 1];
+
+    if (last && interval.min <= last.max + 1) {
+      last.max = Math.max(last.max, interval.max);
+    } else {
+      result.push({ ...interval });
+    }
+  }
+
+  return result;
+}
+
+/** Returns whether the normalized intervals contain every number within the others. */
+function containsIntervals(intervals: Interval[], others: Interval[]): boolean {
+  return others.every(o => intervals.some(i => i.min <= o.min && o.max <= i.max));
+}
+
+/** Returns whether a group of linked sockets meeting the socket group also meets the other. */
+function containsSocketGroup(group: string, other: string): boolean {
+  const available = countSocketColors(group);
+  const required = countSocketColors(other);
+  return Object.keys(required).every(c => (available[c] || 0) >= required[c]);
+}
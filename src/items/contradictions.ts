@@ -0,0 +1,186 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Diagnostic, DiagnosticCode, DiagnosticSeverity } from "../types";
+import { BlockNode, isRuleNode, RuleNode } from "../parsers-nextgen";
+import {
+  Constraint, ConstraintType, getConstraint, intersectNumberConstraints
+} from "./constraints";
+import { isConditionRule } from "./matching";
+
+/** Conditions of a block which can never all be met by the same item. */
+export interface Contradiction {
+  /** The rules for the conflicting conditions, in the order they appear. */
+  rules: RuleNode[];
+}
+
+/** A condition of a block, along with the values it allows. */
+interface Condition<T extends Constraint = Constraint> {
+  rule: RuleNode;
+  constraint: T;
+}
+
+/**
+ * Finds the conditions of a block which conflict with one another, such as
+ * `ItemLevel > 80` and `ItemLevel < 60`, in which case the block can never
+ * catch an item.
+ *
+ * Number conditions are compared for each keyword, as are boolean conditions.
+ * The `Class` and `BaseType` conditions are compared against the known item
+ * bases, with no contradiction being reported when any of their values
+ * doesn't appear within the data, as it may belong to a custom item.
+ * @param block The node for the block.
+ * @param classesToBases The item bases within each class, as found within `items.json`.
+ * @return Each contradiction, with at most one for each keyword.
+ */
+export function findContradictions(block: BlockNode,
+  classesToBases: { [itemClass: string]: string[] }): Contradiction[] {
+
+  const result: Contradiction[] = [];
+  const conditions = new Map<string, Condition[]>();
+
+  for (const child of block.children) {
+    if (!isRuleNode(child) || !isConditionRule(child)) continue;
+
+    const constraint = getConstraint(child);
+    if (constraint) {
+      const keyword = child.keyword.text;
+      conditions.set(keyword, [...(conditions.get(keyword) || []), { rule: child, constraint }]);
+    }
+  }
+
+  for (const [keyword, keywordConditions] of conditions) {
+    const rules = findConflictingRules(keyword, keywordConditions);
+    if (rules) {
+      result.push({ rules });
+    }
+  }
+
+  const itemConditions = [...(conditions.get("Class") || []),
+    ...(conditions.get("BaseType") || [])];
+
+  if (itemConditions.length > 1 && !hasItemBase(itemConditions, classesToBases)) {
+    result.push({ rules: itemConditions.map(c => c.rule).sort(compareRules) });
+  }
+
+  return result;
+}
+
+/**
+ * Creates the diagnostic for conflicting conditions, which is placed on the
+ * last of those conditions.
+ */
+export function getContradictionDiagnostic({ rules }: Contradiction): Diagnostic {
+  const last = rules[rules.length - 1];
+  const others = rules.slice(0, -1);
+  const conditions = rules.map(r => `\`${getRuleText(r)}\``);
+
+  let message: string;
+  if (rules.length === 1) {
+    message = `The condition ${conditions[0]} can never be met`;
+  } else if (rules.length === 2) {
+    message = `The conditions ${conditions.join(" and ")} can never both be met`;
+  } else {
+    message = `The conditions ${conditions.slice(0, -1).join(", ")}, and` +
+      ` ${conditions[conditions.length - 1]} can never all be met`;
+  }
+
+  const result: Diagnostic = {
+    message: `${message}, so this block can never catch an item.`,
+    range: last.range,
+    severity: DiagnosticSeverity.Warning,
+    code: DiagnosticCode.ConflictingConditions
+  };
+
+  if (others.length > 0) {
+    result.relatedInformation = others.map(r => ({
+      message: `The conflicting condition \`${getRuleText(r)}\`.`,
+      range: r.range
+    }));
+  }
+
+  return result;
+}
+
+/** Returns the text of a rule, without any trailing text or comment. */
+function getRuleText(rule: RuleNode): string {
+  const parts = [rule.keyword.text];
+  if (rule.operator) parts.push(rule.operator.text);
+  parts.push(...rule.values.map(v => v.text));
+  return parts.join(" ");
+}
+
+/** Finds the smallest set of conditions for a single keyword that can never all be met. */
+function findConflictingRules(keyword: string, conditions: Condition[]): RuleNode[] | undefined {
+  const first = conditions[0].constraint;
+
+  if (first.type === ConstraintType.Number) {
+    const isEmpty = (subset: Condition[]) =>
+      intersectNumberConstraints(keyword, subset.map(c => c.constraint)).length === 0;
+
+    if (!isEmpty(conditions)) {
+      return undefined;
+    }
+
+    for (const condition of conditions) {
+      if (isEmpty([condition])) return [condition.rule];
+    }
+
+    for (let i = 0; i < conditions.length; i++) {
+      for (let j = i + 1; j < conditions.length; j++) {
+        if (isEmpty([conditions[i], conditions[j]])) {
+          return [conditions[i].rule, conditions[j].rule];
+        }
+      }
+    }
+
+    return conditions.map(c => c.rule);
+  } else if (first.type === ConstraintType.Boolean) {
+    const conflicting = conditions.find(c => c.constraint.type === ConstraintType.Boolean &&
+      c.constraint.value !== first.value);
+
+    return conflicting ? [conditions[0].rule, conflicting.rule] : undefined;
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Returns whether any of the known item bases meets each of the `Class` and
+ * `BaseType` conditions, which is assumed to be the case when any of their
+ * values can't be found within the data.
+ */
+function hasItemBase(conditions: Condition[], classesToBases: { [itemClass: string]: string[] }):
+  boolean {
+
+  const itemClasses = Object.keys(classesToBases);
+  const classValues: string[][] = [];
+  const baseValues: string[][] = [];
+
+  for (const { rule, constraint } of conditions) {
+    if (constraint.type !== ConstraintType.Text) continue;
+
+    const isClass = rule.keyword.text === "Class";
+    const isKnown = (value: string) => isClass ? itemClasses.some(c => c.includes(value)) :
+      itemClasses.some(c => classesToBases[c].some(b => b.includes(value)));
+
+    if (!constraint.values.every(isKnown)) {
+      return true;
+    }
+
+    (isClass ? classValues : baseValues).push(constraint.values);
+  }
+
+  const meetsEach = (text: string, values: string[][]) =>
+    values.every(v => v.some(value => text.includes(value)));
+
+  return itemClasses.some(c => meetsEach(c, classValues) &&
+    classesToBases[c].some(b => meetsEach(b, baseValues)));
+}
+
+function compareRules(a: RuleNode, b: RuleNode): number {
+  return a.range.start.line - b.range.start.line;
+}
@@ -0,0 +1,248 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { BlockNode, FilterNode, isBlockNode, isRuleNode } from "../parsers-nextgen";
+import { createItem, itemRarities } from "./item";
+import { getFailedConditions, matchItem, meetsCondition } from "./matching";
+
+/**
+ * The item levels at which each base is tested, being those of the campaign,
+ * of the early and late maps, and of the highest level items.
+ */
+export const coverageItemLevels = [1, 68, 75, 84];
+
+/** The keywords of the conditions met by either every item of a base or none of them. */
+const baseKeywords = ["Class", "BaseType"];
+
+/** How the items created from a single item base were handled by the filter. */
+export interface BaseCoverage {
+  baseType: string;
+  class: string;
+
+  /** The number of items shown by a `Show` block. */
+  shown: number;
+
+  /** The number of items hidden by a `Hide` block. */
+  hidden: number;
+
+  /** The number of items caught by no block, which the game shows using the default styles. */
+  unmatched: number;
+}
+
+/** The result of testing every item base against an item filter. */
+export interface CoverageReport {
+  /** Each item base tested, in the order they were added. */
+  bases: BaseCoverage[];
+
+  /** The number of items caught by each block of the filter, in the order they appear. */
+  blocks: Map<BlockNode, number>;
+}
+
+/** The items of a single item base meeting each condition of a block. */
+export interface BlockBaseMatch {
+  baseType: string;
+  class: string;
+
+  /** The number of items meeting each condition of the block. */
+  items: number;
+
+  /** The number of those items caught by an earlier block, which this block never sees. */
+  caughtEarlier: number;
+}
+
+/** The item bases each block of a filter can catch. */
+export interface BlockMatches {
+  /** The item bases matched by each block, with the blocks in the order they appear. */
+  blocks: Map<BlockNode, BlockBaseMatch[]>;
+
+  /**
+   * The number of leading blocks whose matches were reused from a previous
+   * version of the filter, which are never tested again.
+   */
+  reusedBlocks: number;
+
+  /**
+   * The index of the block first catching each item of every tested item base,
+   * which is -1 for items caught by no block. Items are in the order they're
+   * created by `addBlockMatches`.
+   */
+  firstBlocks: Map<string, number[]>;
+}
+
+/**
+ * Creates an empty coverage report for the item filter, with each of its
+ * blocks yet to catch an item.
+ * @param root The root node of the syntax tree for the item filter.
+ * @return The coverage report.
+ */
+export function createCoverageReport(root: FilterNode): CoverageReport {
+  const blocks = new Map<BlockNode, number>();
+
+  for (const node of root.children) {
+    if (isBlockNode(node)) {
+      blocks.set(node, 0);
+    }
+  }
+
+  return { bases: [], blocks };
+}
+
+/**
+ * Tests an item base against the item filter, adding the results to the report.
+ * An item is created for the base at each rarity and at each of the
+ * `coverageItemLevels`.
+ * @param report The report for the item filter.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param baseType The item base.
+ * @param itemClass The class of the item base.
+ */
+export function addBaseCoverage(report: CoverageReport, root: FilterNode, baseType: string,
+  itemClass: string): void {
+
+  const result: BaseCoverage = { baseType, class: itemClass, shown: 0, hidden: 0, unmatched: 0 };
+
+  for (const rarity of itemRarities) {
+    for (const itemLevel of coverageItemLevels) {
+      const item = createItem({ baseType, class: itemClass, rarity, itemLevel }, {});
+      const match = matchItem(root, item);
+
+      if (!match) {
+        result.unmatched++;
+        continue;
+      }
+
+      report.blocks.set(match.block, (report.blocks.get(match.block) || 0) + 1);
+
+      if (match.visible) {
+        result.shown++;
+      } else {
+        result.hidden++;
+      }
+    }
+  }
+
+  report.bases.push(result);
+}
+
+/** Returns each item base that is hidden at every rarity and item level. */
+export function getHiddenBases(report: CoverageReport): BaseCoverage[] {
+  return report.bases.filter(b => b.shown === 0 && b.unmatched === 0);
+}
+
+/** Returns each item base with an item caught by no block. */
+export function getUnmatchedBases(report: CoverageReport): BaseCoverage[] {
+  return report.bases.filter(b => b.unmatched > 0);
+}
+
+/**
+ * Creates an empty set of block matches for the item filter, with each of its
+ * blocks yet to match an item base.
+ *
+ * The matches of a block depend only on the blocks up to and including it, so
+ * the leading blocks shared with a previous version of the filter keep their
+ * matches. This is the case for the blocks preceding the changes of an
+ * incremental parse, which reuses their nodes.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param previous The block matches for a previous version of the filter,
+ * which must have had every item base added.
+ * @return The block matches.
+ */
+export function createBlockMatches(root: FilterNode, previous?: BlockMatches): BlockMatches {
+  const blocks = new Map<BlockNode, BlockBaseMatch[]>();
+  const previousBlocks = previous ? [...previous.blocks] : [];
+  let reusedBlocks = 0;
+
+  for (const node of root.children) {
+    if (!isBlockNode(node)) continue;
+
+    const previousBlock = previousBlocks[blocks.size];
+    if (reusedBlocks === blocks.size && previousBlock && previousBlock[0] === node) {
+      blocks.set(node, [...previousBlock[1]]);
+      reusedBlocks++;
+    } else {
+      blocks.set(node, []);
+    }
+  }
+
+  return {
+    blocks,
+    reusedBlocks,
+    firstBlocks: new Map(previous && reusedBlocks > 0 ? previous.firstBlocks : [])
+  };
+}
+
+/**
+ * Tests an item base against each block of the item filter, adding the base to
+ * each block with the conditions to catch one of its items. Items are created
+ * in the same way as for `addBaseCoverage`. Blocks reused from a previous
+ * version of the filter are only tested for bases that version never tested.
+ * @param matches The block matches for the item filter.
+ * @param baseType The item base.
+ * @param itemClass The class of the item base.
+ */
+export function addBlockMatches(matches: BlockMatches, baseType: string, itemClass: string):
+  void {
+
+  const baseMatches = new Map<BlockNode, BlockBaseMatch>();
+  const allBlocks = [...matches.blocks.keys()];
+
+  // The reused blocks already contain their matches for the base, with the
+  // first blocks found previously telling whether they catch each item.
+  const previousFirstBlocks = matches.firstBlocks.get(baseType);
+  const startIndex = previousFirstBlocks ? matches.reusedBlocks : 0;
+  const firstBlocks: number[] = [];
+
+  // Most blocks are ruled out by the class or base of the item alone, which
+  // spares testing each item of the base against them.
+  const baseItem = createItem({ baseType, class: itemClass }, {});
+  const blocks: Array<[number, BlockNode]> = [];
+  for (let i = startIndex; i < allBlocks.length; i++) {
+    const block = allBlocks[i];
+    if (block.children.every(child => !isRuleNode(child) ||
+      !baseKeywords.includes(child.keyword.text) || meetsCondition(child, baseItem))) {
+      blocks.push([i, block]);
+    }
+  }
+
+  for (const rarity of itemRarities) {
+    for (const itemLevel of coverageItemLevels) {
+      const item = createItem({ baseType, class: itemClass, rarity, itemLevel }, {});
+      const previousFirstBlock = previousFirstBlocks ? previousFirstBlocks[firstBlocks.length] :
+        -1;
+      let firstBlock = previousFirstBlock < startIndex ? previousFirstBlock : -1;
+
+      for (const [index, block] of blocks) {
+        if (getFailedConditions(block, item).length > 0) continue;
+
+        let match = baseMatches.get(block);
+        if (!match) {
+          match = { baseType, class: itemClass, items: 0, caughtEarlier: 0 };
+          baseMatches.set(block, match);
+        }
+
+        match.items++;
+        if (firstBlock !== -1) {
+          match.caughtEarlier++;
+        } else {
+          firstBlock = index;
+        }
+      }
+
+      firstBlocks.push(firstBlock);
+    }
+  }
+
+  for (const [block, match] of baseMatches) {
+    (<BlockBaseMatch[]>matches.blocks.get(block)).push(match);
+  }
+
+  matches.firstBlocks.set(baseType, firstBlocks);
+}
+
+/** Returns whether every item of the base meeting the conditions of the block is caught earlier. */
+export function isCaughtEarlier(match: BlockBaseMatch): boolean {
+  return match.caughtEarlier === match.items;
+}
@@ -0,0 +1,149 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { ItemDescription, ItemRarity, itemRarities } from "./item";
+
+type NumberProperty = "itemLevel" | "dropLevel" | "quality" | "width" | "height" |
+  "stackSize" | "gemLevel" | "mapTier";
+
+type BooleanProperty = "identified" | "corrupted" | "elderItem" | "shaperItem" |
+  "shapedMap" | "elderMap";
+
+/** The item property described by each of the filter keywords. */
+const numberKeywords: { [keyword: string]: NumberProperty | undefined } = {
+  ItemLevel: "itemLevel",
+  DropLevel: "dropLevel",
+  Quality: "quality",
+  Width: "width",
+  Height: "height",
+  StackSize: "stackSize",
+  GemLevel: "gemLevel",
+  MapTier: "mapTier"
+};
+
+const booleanKeywords: { [keyword: string]: BooleanProperty | undefined } = {
+  Identified: "identified",
+  Corrupted: "corrupted",
+  ElderItem: "elderItem",
+  ShaperItem: "shaperItem",
+  ShapedMap: "shapedMap",
+  ElderMap: "elderMap"
+};
+
+const propertyRegex = /^([A-Za-z]+)(?:\s+(.*))?$/;
+
+/**
+ * Parses a short description of an item, which is a comma-separated list of
+ * the filter conditions met by the item. The first entry may instead be the
+ * base type of the item by itself.
+ *
+ * For example, `Vaal Regalia, Rarity Rare, ItemLevel 84, Sockets R-G-B-B-B-B`.
+ * Sockets are written as they appear within the game, with linked sockets
+ * separated by a hyphen and unlinked sockets separated by a space. Boolean
+ * conditions are considered to be true when given without a value.
+ * @param text The description of the item.
+ * @return The item description, which is yet to be verified against the item data.
+ */
+export function parseItemDescription(text: string): ItemDescription {
+  let baseType: string | undefined;
+  const result: Partial<ItemDescription> = {};
+
+  text.split(",").forEach((part, index) => {
+    const entry = part.trim();
+    if (entry.length === 0) return;
+
+    const match = propertyRegex.exec(entry);
+    const keyword = match ? match[1] : "";
+    const value = match && match[2] !== undefined ? unquote(match[2].trim()) : "";
+
+    const numberProperty = numberKeywords[keyword];
+    const booleanProperty = booleanKeywords[keyword];
+
+    if (numberProperty) {
+      result[numberProperty] = parseNumber(keyword, value);
+    } else if (booleanProperty) {
+      result[booleanProperty] = parseBoolean(keyword, value);
+    } else if (keyword === "BaseType" && value !== "") {
+      baseType = value;
+    } else if (keyword === "Class" && value !== "") {
+      result.class = value;
+    } else if (keyword === "Prophecy" && value !== "") {
+      result.prophecy = value;
+    } else if (keyword === "HasExplicitMod" && value !== "") {
+      result.explicitMods = [...(result.explicitMods || []), value];
+    } else if (keyword === "Rarity") {
+      result.rarity = parseRarity(value);
+    } else if (keyword === "Sockets") {
+      result.sockets = parseSockets(value);
+    } else if (index === 0) {
+      baseType = unquote(entry);
+    } else {
+      throw new Error(`Unknown item property '${entry}'.`);
+    }
+  });
+
+  if (baseType === undefined) {
+    throw new Error("Expected the description to include the base type of the item.");
+  }
+
+  return { ...result, baseType };
+}
+
+/**
+ * Parses sockets as they appear within the game, such as `R-G-B B`.
+ * @return Each group of linked sockets.
+ */
+export function parseSockets(text: string): string[] {
+  const result: string[] = [];
+
+  for (const group of text.trim().split(/\s+/)) {
+    if (group.length === 0) continue;
+
+    const sockets = group.split("-").join("").toUpperCase();
+    if (!/^[RGBWA]+$/.test(sockets)) {
+      throw new Error(`Invalid sockets '${text}'. Expected socket colors such as R-G-B.`);
+    }
+
+    result.push(sockets);
+  }
+
+  return result;
+}
+
+function parseNumber(keyword: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid value for ${keyword}. Expected a whole number.`);
+  }
+
+  return parseInt(value, 10);
+}
+
+function parseBoolean(keyword: string, value: string): boolean {
+  const lowercaseValue = value.toLowerCase();
+
+  if (lowercaseValue === "" || lowercaseValue === "true") {
+    return true;
+  } else if (lowercaseValue === "false") {
+    return false;
+  } else {
+    throw new Error(`Invalid value for ${keyword}. Expected either True or False.`);
+  }
+}
+
+function parseRarity(value: string): ItemRarity {
+  const rarity = itemRarities.find(r => r.toLowerCase() === value.toLowerCase());
+
+  if (rarity === undefined) {
+    throw new Error(`Invalid value for Rarity. Expected one of ${itemRarities.join(", ")}.`);
+  }
+
+  return rarity;
+}
+
+function unquote(text: string): string {
+  return text.length >= 2 && text.startsWith("\"") && text.endsWith("\"") ?
+    text.slice(1, -1) : text;
+}
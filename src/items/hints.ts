@@ -0,0 +1,193 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { FilterData, Position } from "../types";
+import {
+  FilterNode, isBlockNode, isRuleNode, NodeType, RuleNode, ValueNode
+} from "../parsers-nextgen";
+import { defaultLabelStyles, labelFontSizes } from "./labels";
+
+/** A short annotation shown alongside a value whose meaning isn't obvious. */
+export interface InlayHint {
+  position: Position;
+  label: string;
+
+  /**
+   * Whether the hint names the parameter of the value it precedes, such as
+   * `volume:`, rather than describing the value it follows.
+   */
+  parameter: boolean;
+}
+
+/** The loudest volume of an alert sound. */
+const maxVolume = 300;
+
+/** The names of each size of minimap icon, with the smallest value being the largest icon. */
+const minimapIconSizeNames = ["large", "medium", "small"];
+
+/** The colors used to name the colors of a rule, which are named after the closest of these. */
+const namedColors: Array<[string, number, number, number]> = [
+  ["black", 0, 0, 0],
+  ["dark grey", 64, 64, 64],
+  ["grey", 128, 128, 128],
+  ["silver", 192, 192, 192],
+  ["white", 255, 255, 255],
+  ["maroon", 128, 0, 0],
+  ["red", 255, 0, 0],
+  ["pink", 255, 192, 203],
+  ["brown", 150, 75, 0],
+  ["orange", 255, 165, 0],
+  ["gold", 255, 215, 0],
+  ["yellow", 255, 255, 0],
+  ["olive", 128, 128, 0],
+  ["green", 0, 128, 0],
+  ["lime", 0, 255, 0],
+  ["teal", 0, 128, 128],
+  ["cyan", 0, 255, 255],
+  ["navy", 0, 0, 128],
+  ["blue", 0, 0, 255],
+  ["purple", 128, 0, 128],
+  ["magenta", 255, 0, 255]
+];
+
+const colorKeywords = ["SetTextColor", "SetBorderColor", "SetBackgroundColor"];
+
+/**
+ * Returns the hints for the values of each rule whose meaning isn't obvious,
+ * such as the identifier and volume of an alert sound, the size of a minimap
+ * icon, and the font size and colors of a label.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param filterData The data for the rules of item filters.
+ * @return The hints, ordered by their position.
+ */
+export function getInlayHints(root: FilterNode, filterData: FilterData): InlayHint[] {
+  const result: InlayHint[] = [];
+
+  const addRuleHints = (rule: RuleNode) => {
+    const keyword = rule.keyword.text;
+
+    if (keyword === "PlayAlertSound" || keyword === "PlayAlertSoundPositional") {
+      addSoundHints(rule, filterData, result);
+    } else if (keyword === "MinimapIcon") {
+      addMinimapIconHints(rule, filterData, result);
+    } else if (keyword === "SetFontSize") {
+      addFontSizeHints(rule, filterData, result);
+    } else if (colorKeywords.includes(keyword)) {
+      addColorHints(rule, filterData, result);
+    }
+  };
+
+  for (const node of root.children) {
+    if (isBlockNode(node)) {
+      for (const child of node.children) {
+        if (isRuleNode(child)) addRuleHints(child);
+      }
+    } else if (isRuleNode(node)) {
+      addRuleHints(node);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the name of the color closest to the given components, such as
+ * `maroon` for `100 0 0`.
+ */
+export function getColorName(red: number, green: number, blue: number): string {
+  let result = namedColors[0][0];
+  let closestDistance = Infinity;
+
+  for (const [name, r, g, b] of namedColors) {
+    const distance = (red - r) ** 2 + (green - g) ** 2 + (blue - b) ** 2;
+    if (distance < closestDistance) {
+      result = name;
+      closestDistance = distance;
+    }
+  }
+
+  return result;
+}
+
+function addSoundHints(rule: RuleNode, filterData: FilterData, hints: InlayHint[]): void {
+  const [identifier, volume] = rule.values;
+  const { numberIdentifier, stringIdentifiers } = filterData.sounds;
+
+  if (!identifier) return;
+
+  // Only the identifiers of the Shaper voice lines are named, with the
+  // numbered identifiers having no name within the game.
+  let name: string | undefined;
+  if (identifier.type === NodeType.Number) {
+    if (identifier.value < numberIdentifier.min || identifier.value > numberIdentifier.max) {
+      return;
+    }
+  } else if (identifier.type === NodeType.Word || identifier.type === NodeType.String) {
+    name = stringIdentifiers[identifier.value];
+    if (name === undefined) return;
+  } else {
+    return;
+  }
+
+  addParameterHint(identifier, "id", hints);
+  if (name !== undefined) addValueHint(identifier, name, hints);
+
+  if (volume && volume.type === NodeType.Number && volume.value >= 0 &&
+    volume.value <= maxVolume) {
+    addParameterHint(volume, "volume", hints);
+    addValueHint(volume, `${Math.round(volume.value / maxVolume * 100)}%`, hints);
+  }
+}
+
+function addMinimapIconHints(rule: RuleNode, filterData: FilterData, hints: InlayHint[]): void {
+  const [size] = rule.values;
+  if (!size || size.type !== NodeType.Number) return;
+
+  const index = filterData.minimapIcons.sizes.indexOf(size.value);
+  if (index === -1 || index >= minimapIconSizeNames.length) return;
+
+  addParameterHint(size, "size", hints);
+  addValueHint(size, minimapIconSizeNames[index], hints);
+}
+
+function addFontSizeHints(rule: RuleNode, filterData: FilterData, hints: InlayHint[]): void {
+  const [size] = rule.values;
+  if (!size || size.type !== NodeType.Number) return;
+
+  const { min, max } = filterData.ruleRanges["SetFontSize"];
+  if (size.value < min || size.value > max) return;
+
+  if (size.value >= labelFontSizes.max) {
+    addValueHint(size, "max", hints);
+  } else if (size.value === min) {
+    addValueHint(size, "min", hints);
+  } else if (size.value === defaultLabelStyles.fontSize) {
+    addValueHint(size, "default", hints);
+  }
+}
+
+function addColorHints(rule: RuleNode, filterData: FilterData, hints: InlayHint[]): void {
+  const { min, max } = filterData.ruleRanges[rule.keyword.text];
+  const components: number[] = [];
+
+  for (const value of rule.values.slice(0, 4)) {
+    if (value.type !== NodeType.Number || value.value < min || value.value > max) break;
+    components.push(value.value);
+  }
+
+  if (components.length < 3) return;
+
+  const [red, green, blue] = components;
+  addValueHint(rule.values[components.length - 1], getColorName(red, green, blue), hints);
+}
+
+function addParameterHint(value: ValueNode, name: string, hints: InlayHint[]): void {
+  hints.push({ position: value.range.start, label: `${name}:`, parameter: true });
+}
+
+function addValueHint(value: ValueNode, description: string, hints: InlayHint[]): void {
+  hints.push({ position: value.range.end, label: `(${description})`, parameter: false });
+}
@@ -0,0 +1,19 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+export * from "./constraints";
+export * from "./contradictions";
+export * from "./coverage";
+export * from "./description";
+export * from "./hints";
+export * from "./item";
+export * from "./labels";
+export * from "./loot-wall";
+export * from "./matching";
+export * from "./minimap-icons";
+export * from "./references";
+export * from "./shadowing";
+export * from "./tooltip";
@@ -0,0 +1,107 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+/** The rarities of an item, ordered from the lowest to the highest. */
+export const itemRarities: ItemRarity[] = ["Normal", "Magic", "Rare", "Unique"];
+
+export type ItemRarity = "Normal" | "Magic" | "Rare" | "Unique";
+
+/** An item dropped within Path of Exile, with a property for each filter condition. */
+export interface Item {
+  /** The class of the item, such as `Body Armours`. */
+  class: string;
+
+  /** The base type of the item, such as `Vaal Regalia`. */
+  baseType: string;
+
+  rarity: ItemRarity;
+
+  itemLevel: number;
+
+  dropLevel: number;
+
+  quality: number;
+
+  /**
+   * The sockets of the item, with each string being a group of linked sockets.
+   * For example, `["RGB", "W"]` represents three linked sockets along with an
+   * unlinked white socket.
+   */
+  sockets: string[];
+
+  /** The width of the item within the inventory. */
+  width: number;
+
+  /** The height of the item within the inventory. */
+  height: number;
+
+  stackSize: number;
+
+  /** The level of the item, if it's a gem. */
+  gemLevel?: number;
+
+  /** The tier of the item, if it's a map. */
+  mapTier?: number;
+
+  /** The name of the prophecy, if the item is one. */
+  prophecy?: string;
+
+  /** The names of the explicit mods on the item, such as `Tyrannical`. */
+  explicitMods: string[];
+
+  identified: boolean;
+
+  corrupted: boolean;
+
+  elderItem: boolean;
+
+  shaperItem: boolean;
+
+  shapedMap: boolean;
+
+  elderMap: boolean;
+}
+
+/** A description of an item, where everything other than its base type is optional. */
+export type ItemDescription = Partial<Item> & { baseType: string };
+
+/**
+ * Creates an item from its description, using defaults for any properties not
+ * described. The class of the item is determined by its base type when missing.
+ * @param description The description of the item.
+ * @param basesToClasses The class of each item base, as found within `items.json`.
+ * @return The item.
+ */
+export function createItem(description: ItemDescription,
+  basesToClasses: { [base: string]: string | undefined }): Item {
+
+  const itemClass = description.class !== undefined ? description.class :
+    basesToClasses[description.baseType];
+
+  if (itemClass === undefined) {
+    throw new Error(`Unable to determine the class of the item base '${description.baseType}'.`);
+  }
+
+  return {
+    rarity: "Normal",
+    itemLevel: 1,
+    dropLevel: 1,
+    quality: 0,
+    sockets: [],
+    width: 1,
+    height: 1,
+    stackSize: 1,
+    explicitMods: [],
+    identified: false,
+    corrupted: false,
+    elderItem: false,
+    shaperItem: false,
+    shapedMap: false,
+    elderMap: false,
+    ...description,
+    class: itemClass
+  };
+}
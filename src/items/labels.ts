@@ -0,0 +1,173 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { escapeHtml } from "../helpers";
+import { Color, ItemSourceData } from "../types";
+import { BlockNode, isRuleNode } from "../parsers-nextgen";
+import { createItem } from "./item";
+import { getItemStyles, getValueText, meetsCondition } from "./matching";
+
+/** The label shown for an item on the ground, as styled by the block catching it. */
+export interface ItemLabel {
+  /** The text of the label, being the name of an item base caught by the block. */
+  text: string;
+
+  textColor: Color;
+  backgroundColor: Color;
+
+  /** The color of the border, with there being no border when omitted. */
+  borderColor?: Color;
+
+  fontSize: number;
+}
+
+/** The styles the game uses for a label when a block doesn't set them. */
+export const defaultLabelStyles = {
+  textColor: { red: 200 / 255, green: 200 / 255, blue: 200 / 255, alpha: 1 },
+  backgroundColor: { red: 0, green: 0, blue: 0, alpha: 240 / 255 },
+  fontSize: 32
+};
+
+/**
+ * The range of font sizes drawn by the game. `SetFontSize` allows sizes up to
+ * 50, but any size larger than 45 is drawn at 45.
+ */
+export const labelFontSizes = { min: 16, max: 45 };
+
+/** The number of pixels of text per point of font size, with the default size being 16px. */
+export const labelFontScale = 0.5;
+
+/** The keywords of the conditions used to determine the item bases caught by a block. */
+const sampleKeywords = ["Class", "BaseType"];
+
+/**
+ * Returns the item bases meeting the class and base conditions of the block,
+ * ordered by the first value of the `BaseType` condition they contain.
+ * @param block The node for the block.
+ * @param classesToBases The known item classes and bases.
+ * @param limit The maximum number of item bases to return.
+ * @return The names of the item bases.
+ */
+export function getSampleBases(block: BlockNode, classesToBases: ItemSourceData,
+  limit = Infinity): string[] {
+
+  const rules = block.children.filter(isRuleNode).filter(r =>
+    sampleKeywords.includes(r.keyword.text));
+  const classRules = rules.filter(r => r.keyword.text === "Class");
+  const baseRules = rules.filter(r => r.keyword.text === "BaseType");
+  const values = baseRules.length > 0 ? baseRules[0].values.map(getValueText) : [""];
+
+  // Only the bases of the classes caught by the block need to be scanned.
+  const itemClasses = Object.keys(classesToBases).filter(itemClass => {
+    const item = createItem({ baseType: "", class: itemClass }, {});
+    return classRules.every(r => meetsCondition(r, item));
+  });
+
+  const result: string[] = [];
+  const seenBases = new Set<string>();
+
+  for (const value of values) {
+    for (const itemClass of itemClasses) {
+      for (const baseType of classesToBases[itemClass]) {
+        if (!baseType.includes(value) || seenBases.has(baseType)) continue;
+
+        const item = createItem({ baseType, class: itemClass }, {});
+        if (!baseRules.every(r => meetsCondition(r, item))) continue;
+
+        result.push(baseType);
+        seenBases.add(baseType);
+        if (result.length >= limit) return result;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the label of an item caught by the block, using the first of its
+ * sample bases for the text of the label. Blocks catching no known item base
+ * instead use the first value of their conditions.
+ * @param block The node for the block.
+ * @param classesToBases The known item classes and bases.
+ * @param sampleCache The first sample base of the blocks already labelled,
+ * keyed by their class and base conditions. Blocks often repeat the conditions
+ * of another, so sharing a cache between the blocks of a filter avoids scanning
+ * the item bases for each of them.
+ * @return The label.
+ */
+export function getItemLabel(block: BlockNode, classesToBases: ItemSourceData,
+  sampleCache?: Map<string, string | undefined>): ItemLabel {
+
+  const styles = getItemStyles(block);
+  const sampleBase = getFirstSampleBase(block, classesToBases, sampleCache);
+
+  return {
+    text: sampleBase !== undefined ? sampleBase : getFallbackText(block),
+    textColor: styles.textColor ? styles.textColor : defaultLabelStyles.textColor,
+    backgroundColor: styles.backgroundColor ? styles.backgroundColor :
+      defaultLabelStyles.backgroundColor,
+    borderColor: styles.borderColor,
+    fontSize: styles.fontSize !== undefined ?
+      Math.min(Math.max(styles.fontSize, labelFontSizes.min), labelFontSizes.max) :
+      defaultLabelStyles.fontSize
+  };
+}
+
+/** Returns the color as a CSS color, such as `rgba(255, 0, 0, 0.5)`. */
+export function color2Css(color: Color): string {
+  const components = [color.red, color.green, color.blue].map(c => Math.round(c * 255));
+  return `rgba(${components.join(", ")}, ${Number(color.alpha.toFixed(3))})`;
+}
+
+/**
+ * Renders the label as an HTML element, styled to look like the label within
+ * the game when displayed over a dark background.
+ * @param label The label.
+ * @param className The class of the element, if any.
+ * @return The HTML of the element.
+ */
+export function renderLabelHtml(label: ItemLabel, className?: string): string {
+  const css = [
+    "display: inline-block",
+    "padding: 0.2em 0.6em",
+    `color: ${color2Css(label.textColor)}`,
+    `background: ${color2Css(label.backgroundColor)}`,
+    `border: 1px solid ${label.borderColor ? color2Css(label.borderColor) : "transparent"}`,
+    `font-size: ${Math.round(label.fontSize * labelFontScale)}px`
+  ];
+
+  const classAttribute = className ? ` class="${className}"` : "";
+  return `<span${classAttribute} style="${css.join("; ")}">${escapeHtml(label.text)}</span>`;
+}
+
+function getFirstSampleBase(block: BlockNode, classesToBases: ItemSourceData,
+  cache?: Map<string, string | undefined>): string | undefined {
+
+  if (!cache) return getSampleBases(block, classesToBases, 1)[0];
+
+  const key = JSON.stringify(block.children.filter(isRuleNode)
+    .filter(r => sampleKeywords.includes(r.keyword.text))
+    .map(r => [r.keyword.text, r.operator ? r.operator.value : "", r.values.map(getValueText)]));
+
+  if (!cache.has(key)) {
+    cache.set(key, getSampleBases(block, classesToBases, 1)[0]);
+  }
+
+  return cache.get(key);
+}
+
+function getFallbackText(block: BlockNode): string {
+  for (const keyword of ["BaseType", "Class"]) {
+    for (const child of block.children) {
+      if (isRuleNode(child) && child.keyword.text === keyword && child.values.length > 0) {
+        return getValueText(child.values[0]);
+      }
+    }
+  }
+
+  return "Item";
+}
@@ -0,0 +1,116 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { escapeHtml } from "../helpers";
+import { ItemSourceData } from "../types";
+import {
+  BlockNode, FilterNode, getBlockName, getFilterOutline, isFilterSection, OutlineNode
+} from "../parsers-nextgen";
+import { getItemLabel, ItemLabel, renderLabelHtml } from "./labels";
+
+/** A section of the loot wall, grouping the labels of the blocks within a filter section. */
+export interface LootWallSection {
+  /** The title of the filter section. */
+  name: string;
+
+  /** The level of the header of the filter section, being 1 for the outermost sections. */
+  level: number;
+
+  /** The sections and labels within this section, in the order they appear. */
+  children: LootWallEntry[];
+}
+
+/** The sample label shown on the loot wall for a block. */
+export interface LootWallLabel {
+  /** The line on which the block starts. */
+  line: number;
+
+  /** A description of the block, such as `Show block on line 3: Currency`. */
+  title: string;
+
+  /** Whether the block hides the items it catches. */
+  hidden: boolean;
+
+  label: ItemLabel;
+}
+
+/** An entry within the loot wall. */
+export type LootWallEntry = LootWallSection | LootWallLabel;
+
+/** Determines whether the given loot wall entry is a section. */
+export function isLootWallSection(entry: LootWallEntry): entry is LootWallSection {
+  return (<LootWallSection>entry).children !== undefined;
+}
+
+/**
+ * Returns the loot wall of the item filter, which has a sample label for each
+ * block nested within the section containing that block.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param classesToBases The known item classes and bases.
+ * @return The sections and labels outside of any section, in the order they appear.
+ */
+export function getLootWall(root: FilterNode, classesToBases: ItemSourceData): LootWallEntry[] {
+  return getEntries(getFilterOutline(root), classesToBases, new Map());
+}
+
+/**
+ * Renders the entries of the loot wall as HTML, with each section adding a
+ * heading above the labels of its blocks. Each label links to its block using
+ * a `data-line` attribute, with those of hidden blocks having the `hidden` class.
+ * @param entries The entries of the loot wall.
+ * @return The HTML of the entries.
+ */
+export function renderLootWallHtml(entries: LootWallEntry[]): string {
+  const result: string[] = [];
+  let labels: string[] = [];
+
+  const flushLabels = () => {
+    if (labels.length > 0) {
+      result.push(`<div class="labels">${labels.join("")}</div>`);
+      labels = [];
+    }
+  };
+
+  for (const entry of entries) {
+    if (isLootWallSection(entry)) {
+      flushLabels();
+
+      const heading = `h${Math.min(entry.level + 1, 6)}`;
+      result.push(`<section><${heading}>${escapeHtml(entry.name)}</${heading}>` +
+        `${renderLootWallHtml(entry.children)}</section>`);
+    } else {
+      labels.push(`<a href="#" data-line="${entry.line}"` +
+        `${entry.hidden ? " class=\"hidden\"" : ""} title="${escapeHtml(entry.title)}">` +
+        `${renderLabelHtml(entry.label)}</a>`);
+    }
+  }
+
+  flushLabels();
+  return result.join("\n");
+}
+
+function getEntries(nodes: OutlineNode[], classesToBases: ItemSourceData,
+  sampleCache: Map<string, string | undefined>): LootWallEntry[] {
+
+  return nodes.map(node => isFilterSection(node) ? {
+    name: node.name,
+    level: node.level,
+    children: getEntries(node.children, classesToBases, sampleCache)
+  } : getLabel(node, classesToBases, sampleCache));
+}
+
+function getLabel(block: BlockNode, classesToBases: ItemSourceData,
+  sampleCache: Map<string, string | undefined>): LootWallLabel {
+
+  const line = block.range.start.line;
+
+  return {
+    line,
+    title: `${block.keyword.text} block on line ${line + 1}: ${getBlockName(block)}`,
+    hidden: block.keyword.text === "Hide",
+    label: getItemLabel(block, classesToBases, sampleCache)
+  };
+}
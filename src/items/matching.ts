@@ -0,0 +1,357 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { assertUnreachable } from "../helpers";
+import { Color, ColorInformation, FilterOperator } from "../types";
+import {
+  BlockNode, FilterNode, isBlockNode, isRuleNode, NodeType, RuleNode, ValueNode
+} from "../parsers-nextgen";
+import { Item, ItemRarity, itemRarities } from "./item";
+
+/** The styles applied to an item by the actions of a block. */
+export interface ItemStyles {
+  textColor?: Color;
+  borderColor?: Color;
+  backgroundColor?: Color;
+  fontSize?: number;
+
+  /** The default alert sound played when the item drops. */
+  alertSound?: {
+    identifier: string;
+    volume: number;
+    positional: boolean;
+  };
+
+  /** The file name or path of the custom alert sound played when the item drops. */
+  customAlertSound?: string;
+
+  /** Whether the item plays the drop sound, which is disabled by `DisableDropSound`. */
+  dropSound: boolean;
+
+  minimapIcon?: {
+    size: number;
+    color: string;
+    shape: string;
+  };
+
+  effect?: {
+    color: string;
+    temporary: boolean;
+  };
+}
+
+/** The block which catches an item, along with the resulting styles for the item. */
+export interface ItemMatch {
+  block: BlockNode;
+
+  /** Whether the item is shown, which is false when caught by a `Hide` block. */
+  visible: boolean;
+
+  styles: ItemStyles;
+}
+
+/** A block which failed to catch an item due to a single condition. */
+export interface NearMiss {
+  block: BlockNode;
+
+  /** The rule for the only condition not met by the item. */
+  condition: RuleNode;
+}
+
+/** Determines whether a condition is met by the given item. */
+type Condition = (item: Item, rule: RuleNode) => boolean;
+
+const conditions: { [keyword: string]: Condition | undefined } = {
+  ItemLevel: (item, rule) => compareNumbers(item.itemLevel, rule),
+  DropLevel: (item, rule) => compareNumbers(item.dropLevel, rule),
+  Quality: (item, rule) => compareNumbers(item.quality, rule),
+  Sockets: (item, rule) => compareNumbers(item.sockets.join("").length, rule),
+  LinkedSockets: (item, rule) => compareNumbers(getLinkedSockets(item), rule),
+  Width: (item, rule) => compareNumbers(item.width, rule),
+  Height: (item, rule) => compareNumbers(item.height, rule),
+  StackSize: (item, rule) => compareNumbers(item.stackSize, rule),
+  GemLevel: (item, rule) => item.gemLevel !== undefined && compareNumbers(item.gemLevel, rule),
+  MapTier: (item, rule) => item.mapTier !== undefined && compareNumbers(item.mapTier, rule),
+  Rarity: (item, rule) => compareValues(itemRarities.indexOf(item.rarity), rule,
+    value => itemRarities.indexOf(<ItemRarity>getValueText(value))),
+  Class: (item, rule) => containsAny(item.class, rule),
+  BaseType: (item, rule) => containsAny(item.baseType, rule),
+  Prophecy: (item, rule) => item.prophecy !== undefined && containsAny(item.prophecy, rule),
+  HasExplicitMod: (item, rule) => item.explicitMods.some(m => containsAny(m, rule)),
+  SocketGroup: (item, rule) => rule.values.some(v => hasSocketGroup(item, getValueText(v))),
+  Identified: (item, rule) => compareBoolean(item.identified, rule),
+  Corrupted: (item, rule) => compareBoolean(item.corrupted, rule),
+  ElderItem: (item, rule) => compareBoolean(item.elderItem, rule),
+  ShaperItem: (item, rule) => compareBoolean(item.shaperItem, rule),
+  ShapedMap: (item, rule) => compareBoolean(item.shapedMap, rule),
+  ElderMap: (item, rule) => compareBoolean(item.elderMap, rule)
+};
+
+/** Returns whether the rule is a condition, rather than an action. */
+export function isConditionRule(rule: RuleNode): boolean {
+  return conditions[rule.keyword.text] !== undefined;
+}
+
+/**
+ * Finds the block catching the item, which is the first `Show` or `Hide` block
+ * with each of its conditions being met by the item.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param item The item.
+ * @return The match, if any block catches the item.
+ */
+export function matchItem(root: FilterNode, item: Item): ItemMatch | undefined {
+  for (const node of root.children) {
+    if (isBlockNode(node) && getFailedConditions(node, item).length === 0) {
+      return {
+        block: node,
+        visible: node.keyword.text !== "Hide",
+        styles: getItemStyles(node)
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds each block preceding the one catching the item that would have caught
+ * the item, were it not for a single condition.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param item The item.
+ * @return The near misses, in the order they appear.
+ */
+export function findNearMisses(root: FilterNode, item: Item): NearMiss[] {
+  const result: NearMiss[] = [];
+
+  for (const node of root.children) {
+    if (!isBlockNode(node)) continue;
+
+    const failedConditions = getFailedConditions(node, item);
+    if (failedConditions.length === 0) {
+      break;
+    } else if (failedConditions.length === 1) {
+      result.push({ block: node, condition: failedConditions[0] });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the conditions of the block that aren't met by the given item,
+ * with the block catching the item when there are none.
+ * @param block The node for the block.
+ * @param item The item.
+ * @return The rules for the failed conditions, in the order they appear.
+ */
+export function getFailedConditions(block: BlockNode, item: Item): RuleNode[] {
+  const result: RuleNode[] = [];
+
+  for (const child of block.children) {
+    if (isRuleNode(child) && !meetsCondition(child, item)) {
+      result.push(child);
+    }
+  }
+
+  return result;
+}
+
+/** Returns whether the rule is met by the given item, which is always the case for actions. */
+export function meetsCondition(rule: RuleNode, item: Item): boolean {
+  const condition = conditions[rule.keyword.text];
+  return condition === undefined || condition(item, rule);
+}
+
+/**
+ * Returns the styles applied by the actions of a block. Only the last of any
+ * repeated action is used, as is done by the game client.
+ * @param block The node for the block.
+ * @return The styles.
+ */
+export function getItemStyles(block: BlockNode): ItemStyles {
+  const result: ItemStyles = { dropSound: true };
+
+  for (const child of block.children) {
+    if (!isRuleNode(child)) continue;
+
+    const [first, second, third] = child.values;
+    switch (child.keyword.text) {
+      case "SetTextColor":
+        result.textColor = getColor(child);
+        break;
+      case "SetBorderColor":
+        result.borderColor = getColor(child);
+        break;
+      case "SetBackgroundColor":
+        result.backgroundColor = getColor(child);
+        break;
+      case "SetFontSize":
+        if (first && first.type === NodeType.Number) result.fontSize = first.value;
+        break;
+      case "PlayAlertSound":
+      case "PlayAlertSoundPositional":
+        if (!first) break;
+        result.alertSound = {
+          identifier: getValueText(first),
+          volume: second && second.type === NodeType.Number ? second.value : 100,
+          positional: child.keyword.text === "PlayAlertSoundPositional"
+        };
+        break;
+      case "CustomAlertSound":
+        if (first) result.customAlertSound = getValueText(first);
+        break;
+      case "DisableDropSound":
+        result.dropSound = false;
+        break;
+      case "MinimapIcon":
+        if (!first || first.type !== NodeType.Number || !second || !third) break;
+        result.minimapIcon = {
+          size: first.value,
+          color: getValueText(second),
+          shape: getValueText(third)
+        };
+        break;
+      case "PlayEffect":
+        if (!first) break;
+        result.effect = {
+          color: getValueText(first),
+          temporary: second !== undefined && getValueText(second) === "Temp"
+        };
+        break;
+    }
+  }
+
+  return result;
+}
+
+/** Returns the text of the value as seen by the game client, without any quotation marks. */
+export function getValueText(value: ValueNode): string {
+  switch (value.type) {
+    case NodeType.Number:
+      return value.text;
+    case NodeType.Boolean:
+      return value.value ? "True" : "False";
+    default:
+      return value.value;
+  }
+}
+
+/** Returns the number contained within the value, which is NaN when there is none. */
+export function getValueNumber(value: ValueNode): number {
+  return value.type === NodeType.Number ? value.value : parseInt(getValueText(value), 10);
+}
+
+/**
+ * Compares a property of the item against each value of the rule using its
+ * operator, with the condition being met if any of the comparisons succeed.
+ */
+function compareValues(actual: number, rule: RuleNode, parse: (value: ValueNode) => number):
+  boolean {
+
+  const operator = rule.operator ? rule.operator.value : FilterOperator.Equals;
+
+  return rule.values.some(value => {
+    const expected = parse(value);
+
+    switch (operator) {
+      case FilterOperator.Equals:
+        return actual === expected;
+      case FilterOperator.GreaterThan:
+        return actual > expected;
+      case FilterOperator.GreaterThanEquals:
+        return actual >= expected;
+      case FilterOperator.LessThan:
+        return actual < expected;
+      case FilterOperator.LessThanEquals:
+        return actual <= expected;
+      default:
+        return assertUnreachable(operator);
+    }
+  });
+}
+
+function compareNumbers(actual: number, rule: RuleNode): boolean {
+  return compareValues(actual, rule, getValueNumber);
+}
+
+function compareBoolean(actual: boolean, rule: RuleNode): boolean {
+  const value = rule.values[0];
+  return value !== undefined && getValueText(value).toLowerCase() === String(actual);
+}
+
+/** Returns whether the text contains any of the values of the rule. */
+function containsAny(text: string, rule: RuleNode): boolean {
+  return rule.values.some(v => text.includes(getValueText(v)));
+}
+
+function getLinkedSockets(item: Item): number {
+  return item.sockets.reduce((max, group) => Math.max(max, group.length), 0);
+}
+
+/**
+ * Returns whether any group of linked sockets contains at least as many
+ * sockets of each color as the socket group, such as `RRG`.
+ */
+function hasSocketGroup(item: Item, socketGroup: string): boolean {
+  const required = countSocketColors(socketGroup);
+
+  return item.sockets.some(group => {
+    const available = countSocketColors(group);
+    return Object.keys(required).every(c => (available[c] || 0) >= required[c]);
+  });
+}
+
+/** Returns the number of sockets of each color within the group, such as `RRG`. */
+export function countSocketColors(sockets: string): { [color: string]: number } {
+  const result: { [color: string]: number } = {};
+
+  for (const color of sockets.toUpperCase()) {
+    result[color] = (result[color] || 0) + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Returns the color given by a rule such as `SetTextColor`, being made up of
+ * up to four of its leading values, so long as there are at least three. The
+ * values aren't checked against the range allowed by the rule.
+ * @param rule The node for the rule.
+ * @return The color and the range of its values, if the rule has one.
+ */
+export function getRuleColor(rule: RuleNode): ColorInformation | undefined {
+  const components: number[] = [];
+
+  for (const value of rule.values.slice(0, 4)) {
+    if (value.type !== NodeType.Number) break;
+    components.push(value.value);
+  }
+
+  if (components.length < 3) {
+    return undefined;
+  }
+
+  const [red, green, blue, alpha] = components;
+  const lastValue = rule.values[components.length - 1];
+
+  return {
+    color: {
+      red: red / 255,
+      green: green / 255,
+      blue: blue / 255,
+      alpha: alpha === undefined ? 1 : alpha / 255
+    },
+    range: {
+      start: { ...rule.values[0].range.start },
+      end: { ...lastValue.range.end }
+    }
+  };
+}
+
+function getColor(rule: RuleNode): Color | undefined {
+  const information = getRuleColor(rule);
+  return information ? information.color : undefined;
+}
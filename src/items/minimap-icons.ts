@@ -0,0 +1,33 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { FilterData } from "../types";
+import { RuleNode } from "../parsers-nextgen";
+import { getValueText } from "./matching";
+
+/**
+ * Returns the image of the icon drawn on the minimap by a `MinimapIcon` rule,
+ * such as `minimap-icons/star_red_0.png`.
+ * @param rule The node for the rule.
+ * @param filterData The filter data, listing the valid sizes, colors, and shapes of icons.
+ * @return The path of the image relative to the images directory, or
+ * undefined if the rule isn't a `MinimapIcon` rule with valid values.
+ */
+export function getMinimapIconImage(rule: RuleNode, filterData: FilterData): string | undefined {
+  if (rule.keyword.text !== "MinimapIcon" || rule.values.length < 3) {
+    return undefined;
+  }
+
+  const [size, color, shape] = rule.values.map(getValueText);
+  const { sizes, colors, shapes } = filterData.minimapIcons;
+
+  if (!sizes.includes(parseInt(size, 10)) || !colors.includes(color) ||
+    !shapes.includes(shape)) {
+    return undefined;
+  }
+
+  return `minimap-icons/${shape.toLowerCase()}_${color.toLowerCase()}_${size}.png`;
+}
@@ -0,0 +1,108 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Color, Position, Range } from "../types";
+import { FilterNode, isBlockNode, isRuleNode, RuleNode } from "../parsers-nextgen";
+import { getRuleColor, getValueText } from "./matching";
+
+const itemKeywords = ["Class", "BaseType", "Prophecy", "HasExplicitMod"];
+const colorKeywords = ["SetTextColor", "SetBorderColor", "SetBackgroundColor"];
+const soundKeywords = ["PlayAlertSound", "PlayAlertSoundPositional"];
+
+/**
+ * Finds each reference to the value at the given position within the item filter.
+ *
+ * For the value of an item condition, such as `"Exalted Orb"`, these are the
+ * values of the same condition that would catch an item with that name,
+ * including partial matches such as `"Orb"`. For a color, these are the
+ * colors of each rule with the same components, while for an alert sound
+ * these are the alert sounds with the same identifier.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param position The position of the value, which may be at either end of it.
+ * @return The range of each reference, ordered by their position.
+ */
+export function findReferences(root: FilterNode, position: Position): Range[] {
+  const rule = findRule(root, position.line);
+  if (!rule) return [];
+
+  const keyword = rule.keyword.text;
+  const result: Range[] = [];
+
+  if (colorKeywords.includes(keyword)) {
+    const color = getRuleColor(rule);
+    if (!color || !containsPosition(color.range, position)) return [];
+
+    forEachRule(root, other => {
+      if (!colorKeywords.includes(other.keyword.text)) return;
+
+      const otherColor = getRuleColor(other);
+      if (otherColor && equalColors(otherColor.color, color.color)) {
+        result.push(otherColor.range);
+      }
+    });
+
+    return result;
+  }
+
+  const index = rule.values.findIndex(v => containsPosition(v.range, position));
+  if (index < 0) return [];
+
+  const text = getValueText(rule.values[index]);
+
+  if (soundKeywords.includes(keyword) && index === 0) {
+    forEachRule(root, other => {
+      const identifier = other.values[0];
+      if (soundKeywords.includes(other.keyword.text) && identifier &&
+        getValueText(identifier) === text) {
+        result.push(identifier.range);
+      }
+    });
+  } else if (itemKeywords.includes(keyword)) {
+    forEachRule(root, other => {
+      if (other.keyword.text !== keyword) return;
+
+      for (const value of other.values) {
+        if (text.includes(getValueText(value))) result.push(value.range);
+      }
+    });
+  }
+
+  return result;
+}
+
+/** Invokes the callback with each rule of the filter, whether it's within a block or not. */
+function forEachRule(root: FilterNode, callback: (rule: RuleNode) => void): void {
+  for (const node of root.children) {
+    if (isBlockNode(node)) {
+      for (const child of node.children) {
+        if (isRuleNode(child)) callback(child);
+      }
+    } else if (isRuleNode(node)) {
+      callback(node);
+    }
+  }
+}
+
+function findRule(root: FilterNode, line: number): RuleNode | undefined {
+  let result: RuleNode | undefined;
+
+  forEachRule(root, rule => {
+    if (rule.range.start.line === line) result = rule;
+  });
+
+  return result;
+}
+
+/** Determines whether the colors have the same components, with an omitted alpha being 255. */
+function equalColors(lha: Color, rha: Color): boolean {
+  return lha.red === rha.red && lha.green === rha.green && lha.blue === rha.blue &&
+    lha.alpha === rha.alpha;
+}
+
+function containsPosition(range: Range, position: Position): boolean {
+  return range.start.line === position.line && range.start.character <= position.character &&
+    range.end.character >= position.character;
+}
@@ -0,0 +1,82 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { BlockNode, FilterNode, isBlockNode } from "../parsers-nextgen";
+import {
+  BlockConstraints, ConstraintType, getBlockConstraints, impliesBlock, isOptionalKeyword
+} from "./constraints";
+
+/** A block which can never catch an item, as an earlier block catches every such item. */
+export interface ShadowedBlock {
+  block: BlockNode;
+
+  /** The earliest block catching each item that the shadowed block would otherwise catch. */
+  shadowingBlock: BlockNode;
+}
+
+/** A block preceding those being checked, along with what's needed to shadow them. */
+interface ShadowingCandidate {
+  block: BlockNode;
+  constraints: BlockConstraints;
+
+  /** The keywords which must also be used by the conditions of any block it shadows. */
+  requiredKeywords: number;
+}
+
+/**
+ * Finds each block that can never catch an item, due to the conditions of an
+ * earlier block being met by every item meeting the conditions of that block.
+ * @param root The root node of the syntax tree for the item filter.
+ * @return The shadowed blocks, in the order they appear.
+ */
+export function findShadowedBlocks(root: FilterNode): ShadowedBlock[] {
+  const result: ShadowedBlock[] = [];
+  const candidates: ShadowingCandidate[] = [];
+  const keywordBits = new Map<string, number>();
+
+  // Comparing the keywords of each pair of blocks as bit masks first avoids
+  // comparing the constraints of most pairs, which matters for large filters.
+  const getKeywordBit = (keyword: string) => {
+    let bit = keywordBits.get(keyword);
+    if (bit === undefined) {
+      bit = keywordBits.size < 31 ? 1 << keywordBits.size : 0;
+      keywordBits.set(keyword, bit);
+    }
+
+    return bit;
+  };
+
+  for (const node of root.children) {
+    if (!isBlockNode(node)) continue;
+
+    const constraints = getBlockConstraints(node);
+    let keywords = 0;
+    let requiredKeywords = 0;
+
+    for (const [keyword, keywordConstraints] of constraints.conditions) {
+      const bit = getKeywordBit(keyword);
+      keywords |= bit;
+
+      // Number conditions may allow every possible value, so are met by any block.
+      if (keywordConstraints[0].type !== ConstraintType.Number || isOptionalKeyword(keyword)) {
+        requiredKeywords |= bit;
+      }
+    }
+
+    const shadowing = candidates.find(c => (c.requiredKeywords & ~keywords) === 0 &&
+      impliesBlock(constraints, c.constraints));
+
+    if (shadowing) {
+      result.push({ block: node, shadowingBlock: shadowing.block });
+    }
+
+    if (!constraints.incomplete) {
+      candidates.push({ block: node, constraints, requiredKeywords });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,266 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { parseSockets } from "./description";
+import { ItemDescription, ItemRarity } from "./item";
+
+const tooltipRegex = /^(Item Class:[^\n]*\n)?Rarity:/;
+const separatorRegex = /^-{2,}$/;
+const propertyRegex = /^([^:]+):\s*(.*)$/;
+const modifierRegex = /^{\s*(Prefix|Suffix) Modifier "([^"]+)"/;
+const numberRegex = /\d+/;
+
+/** The rarity used by the filter for each of the rarities shown within a tooltip. */
+const tooltipRarities: { [rarity: string]: ItemRarity | undefined } = {
+  "Normal": "Normal",
+  "Magic": "Magic",
+  "Rare": "Rare",
+  "Unique": "Unique",
+  "Currency": "Normal",
+  "Gem": "Normal",
+  "Divination Card": "Normal"
+};
+
+/** The data used to verify the contents of an item tooltip, as found within `out/data`. */
+export interface TooltipData {
+  /** Every known item base. */
+  itemBases: string[];
+
+  /** The names of every explicit prefix mod. */
+  prefixes: string[];
+
+  /** The names of every explicit suffix mod. */
+  suffixes: string[];
+
+  prophecies: string[];
+}
+
+/** The result of parsing an item tooltip. */
+export interface TooltipParseResult {
+  item: ItemDescription;
+
+  /** Any issues with the tooltip that didn't prevent it from being parsed, such as unknown mods. */
+  warnings: string[];
+}
+
+/**
+ * Returns whether the text looks to be an item tooltip copied from the game,
+ * which always begins with the rarity of the item, other than for newer
+ * versions of the game, where it follows the class of the item.
+ */
+export function isItemTooltip(text: string): boolean {
+  return tooltipRegex.test(text.trim());
+}
+
+/**
+ * Parses the text copied from an item tooltip within the game using Ctrl+C.
+ *
+ * Explicit mods are only known for magic items, whose name contains them, and
+ * for tooltips copied using Ctrl+Alt+C, which includes the name of each mod.
+ * @param text The text of the tooltip.
+ * @param data The data used to verify the base type and mods of the item.
+ * @return The result of the parse.
+ */
+export function parseItemTooltip(text: string, data: TooltipData): TooltipParseResult {
+  const sections = splitSections(text);
+  let [header = []] = sections;
+  if (header.length > 0 && header[0].startsWith("Item Class:")) {
+    header = header.slice(1);
+  }
+
+  const rarityMatch = header.length > 0 ? propertyRegex.exec(header[0]) : null;
+
+  if (!rarityMatch || rarityMatch[1] !== "Rarity") {
+    throw new Error("Expected the item tooltip to begin with the rarity of the item.");
+  }
+
+  const rarity = tooltipRarities[rarityMatch[2]];
+  if (rarity === undefined) {
+    throw new Error(`Unknown item rarity '${rarityMatch[2]}'.`);
+  }
+
+  const nameLines = header.slice(1);
+  if (nameLines.length === 0) {
+    throw new Error("Expected the item tooltip to include the name of the item.");
+  }
+
+  const result: TooltipParseResult = {
+    item: { ...parseName(nameLines, rarity, data), rarity, identified: true },
+    warnings: []
+  };
+
+  // Magic items include each of their mods within their name.
+  const explicitMods: string[] = [];
+  if (rarity === "Magic") {
+    const name = nameLines[0].replace(/^Shaped /, "");
+    const [prefix, suffix] = name.split(result.item.baseType).map(s => s.trim());
+    if (prefix) explicitMods.push(verifyMod(prefix, data.prefixes, "prefix", result));
+    if (suffix) explicitMods.push(verifyMod(suffix, data.suffixes, "suffix", result));
+  }
+
+  // Gems have their level listed before any requirements, which also use
+  // the same name for the level of the character.
+  if (rarityMatch[2] === "Gem" && sections.length > 1) {
+    for (const line of sections[1]) {
+      const match = propertyRegex.exec(line);
+      if (match && match[1] === "Level") {
+        result.item.gemLevel = parseFirstNumber(match[2]);
+      }
+    }
+  }
+
+  for (const section of sections.slice(1)) {
+    for (const line of section) {
+      const modifierMatch = modifierRegex.exec(line);
+
+      if (modifierMatch) {
+        const [, type, name] = modifierMatch;
+        const mod = type === "Prefix" ? verifyMod(name, data.prefixes, "prefix", result) :
+          verifyMod(name, data.suffixes, "suffix", result);
+
+        if (!explicitMods.includes(mod)) {
+          explicitMods.push(mod);
+        }
+      } else {
+        parseLine(line, result.item);
+      }
+    }
+  }
+
+  if (explicitMods.length > 0) {
+    result.item.explicitMods = explicitMods;
+  }
+
+  return result;
+}
+
+/**
+ * Determines the base type of the item from the lines containing its name,
+ * verifying it against the known item bases.
+ */
+function parseName(nameLines: string[], rarity: ItemRarity, data: TooltipData):
+  Pick<ItemDescription, "baseType" | "prophecy" | "shapedMap"> {
+
+  // Identified rare and unique items have their name on the line prior to
+  // their base type, while other items combine the two on a single line.
+  let baseText = nameLines[nameLines.length - 1];
+
+  if (rarity === "Normal" && data.prophecies.includes(baseText)) {
+    return { baseType: "Prophecy", prophecy: baseText };
+  }
+
+  let shapedMap = false;
+  if (baseText.startsWith("Superior ")) {
+    baseText = baseText.slice("Superior ".length);
+  } else if (baseText.startsWith("Shaped ")) {
+    baseText = baseText.slice("Shaped ".length);
+    shapedMap = true;
+  }
+
+  let baseType: string | undefined;
+  if (data.itemBases.includes(baseText)) {
+    baseType = baseText;
+  } else if (rarity === "Magic") {
+    baseType = findBaseType(baseText, data.itemBases);
+  }
+
+  if (baseType === undefined) {
+    throw new Error(`Unknown item base '${baseText}'.`);
+  }
+
+  return shapedMap ? { baseType, shapedMap } : { baseType };
+}
+
+/** Parses a line of any section following the header of the tooltip. */
+function parseLine(line: string, item: ItemDescription): void {
+  const match = propertyRegex.exec(line);
+
+  if (match) {
+    const [, name, value] = match;
+
+    switch (name) {
+      case "Item Level":
+        item.itemLevel = parseFirstNumber(value);
+        break;
+      case "Quality":
+        item.quality = parseFirstNumber(value);
+        break;
+      case "Sockets":
+        item.sockets = parseSockets(value);
+        break;
+      case "Stack Size":
+        item.stackSize = parseFirstNumber(value);
+        break;
+      case "Map Tier":
+        item.mapTier = parseFirstNumber(value);
+        break;
+    }
+  } else {
+    switch (line) {
+      case "Corrupted":
+        item.corrupted = true;
+        break;
+      case "Unidentified":
+        item.identified = false;
+        break;
+      case "Shaper Item":
+        item.shaperItem = true;
+        break;
+      case "Elder Item":
+        item.elderItem = true;
+        break;
+    }
+  }
+}
+
+/** Adds a warning to the result should the mod be unknown, returning the mod. */
+function verifyMod(mod: string, knownMods: string[], type: "prefix" | "suffix",
+  result: TooltipParseResult): string {
+
+  if (!knownMods.includes(mod)) {
+    result.warnings.push(`Unknown ${type} mod '${mod}'.`);
+  }
+
+  return mod;
+}
+
+/** Splits the tooltip into the sections divided by lines of hyphens. */
+function splitSections(text: string): string[][] {
+  const result: string[][] = [[]];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (separatorRegex.test(line)) {
+      result.push([]);
+    } else if (line.length !== 0) {
+      result[result.length - 1].push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Finds the base type within the name of a magic item, which includes its
+ * affixes. The longest base is used, as some bases are contained within others.
+ */
+function findBaseType(text: string, itemBases: string[]): string | undefined {
+  let result: string | undefined;
+
+  for (const base of itemBases) {
+    if (text.includes(base) && (result === undefined || base.length > result.length)) {
+      result = base;
+    }
+  }
+
+  return result;
+}
+
+function parseFirstNumber(text: string): number | undefined {
+  const match = numberRegex.exec(text);
+  return match ? parseInt(match[0], 10) : undefined;
+}
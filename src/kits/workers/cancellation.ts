@@ -0,0 +1,18 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+/** The error rejecting the result of any work that was cancelled before it completed. */
+export class CancellationError extends Error {
+  constructor() {
+    super("The work was cancelled prior to completion.");
+    this.name = "CancellationError";
+  }
+}
+
+/** Returns whether the given value is a `CancellationError`. */
+export function isCancellationError(value: unknown): value is CancellationError {
+  return value instanceof CancellationError;
+}
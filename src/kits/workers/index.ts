@@ -0,0 +1,42 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+export * from "./cancellation";
+export * from "./pool";
+export * from "./requests";
+
+/** A request queued onto a worker pool, which may be cancelled before it completes. */
+export interface WorkerTask<T> {
+  /**
+   * The response from the worker, which is rejected with a `CancellationError`
+   * should the task be cancelled.
+   */
+  readonly result: Promise<T>;
+
+  /** Cancels the task, terminating the worker if it is currently handling the request. */
+  cancel(): void;
+}
+
+/** A message sent to a worker thread, requesting that it perform some work. */
+export interface RequestMessage<T> {
+  /** The identifier of the task, which is included within the response. */
+  id: number;
+
+  /** The request itself. */
+  request: T;
+}
+
+/** A message sent from a worker thread once it has finished handling a request. */
+export interface ResponseMessage<T> {
+  /** The identifier of the task the request belonged to. */
+  id: number;
+
+  /** The response to the request, if it was handled successfully. */
+  response?: T;
+
+  /** The message of the error thrown while handling the request, if any. */
+  error?: string;
+}
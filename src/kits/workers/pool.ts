@@ -0,0 +1,199 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { IDisposable } from "../events";
+import { CancellationError } from "./cancellation";
+import { RequestMessage, ResponseMessage, WorkerTask } from "./index";
+
+/** A request which has been queued onto the pool, but not yet responded to. */
+interface PendingTask<TRequest, TResponse> {
+  id: number;
+  request: TRequest;
+  resolve: (response: TResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/** A worker thread within the pool, along with the task it is currently handling. */
+interface PoolWorker<TRequest, TResponse> {
+  worker: import("worker_threads").Worker;
+  task?: PendingTask<TRequest, TResponse>;
+}
+
+/**
+ * Returns whether worker threads are available within the current version of
+ * Node, which is required in order to create a `WorkerPool`.
+ */
+export function areWorkerThreadsSupported(): boolean {
+  try {
+    require("worker_threads");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A pool of worker threads, with each worker running the same script. Requests
+ * are handled in the order they were made, with each worker handling a single
+ * request at a time.
+ *
+ * Workers are only created once there is work for them, up to the size of the
+ * pool. The script run by each worker is expected to call `handleRequests`.
+ */
+export class WorkerPool<TRequest, TResponse> implements IDisposable {
+  private readonly _filename: string;
+  private readonly _size: number;
+  private readonly _queue: Array<PendingTask<TRequest, TResponse>>;
+  private readonly _workers: Array<PoolWorker<TRequest, TResponse>>;
+  private _disposed: boolean;
+  private _nextId: number;
+
+  /**
+   * Create a new worker pool.
+   * @param filename The absolute path to the script run by each worker.
+   * @param size The maximum number of workers within the pool.
+   */
+  constructor(filename: string, size: number) {
+    this._filename = filename;
+    this._size = Math.max(1, size);
+    this._queue = [];
+    this._workers = [];
+    this._disposed = false;
+    this._nextId = 0;
+  }
+
+  /**
+   * Terminates every worker within the pool, cancelling any tasks which have
+   * yet to complete.
+   */
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+
+    const tasks = this._queue.splice(0);
+    for (const poolWorker of this._workers.splice(0)) {
+      if (poolWorker.task) tasks.push(poolWorker.task);
+      poolWorker.worker.terminate();
+    }
+
+    for (const task of tasks) {
+      task.reject(new CancellationError());
+    }
+  }
+
+  /**
+   * Queues the request to be handled by the next available worker.
+   * @param request The request, which must be supported by the structured clone algorithm.
+   * @return The task, allowing the request to be cancelled.
+   */
+  run(request: TRequest): WorkerTask<TResponse> {
+    const id = this._nextId++;
+
+    const result = new Promise<TResponse>((resolve, reject) => {
+      if (this._disposed) {
+        reject(new CancellationError());
+        return;
+      }
+
+      this._queue.push({ id, request, resolve, reject });
+      this._processQueue();
+    });
+
+    return { result, cancel: () => this._cancel(id) };
+  }
+
+  /** Hands out queued tasks to idle workers, creating new workers as necessary. */
+  private _processQueue(): void {
+    while (this._queue.length > 0) {
+      let poolWorker = this._workers.find(w => w.task === undefined);
+
+      if (poolWorker === undefined) {
+        if (this._workers.length >= this._size) return;
+        poolWorker = this._createWorker();
+      }
+
+      const task = this._queue.shift() as PendingTask<TRequest, TResponse>;
+      const message: RequestMessage<TRequest> = { id: task.id, request: task.request };
+      poolWorker.task = task;
+      poolWorker.worker.postMessage(message);
+    }
+  }
+
+  private _createWorker(): PoolWorker<TRequest, TResponse> {
+    // The module is only required here, as older versions of Node lack it entirely.
+    const workerThreads = <typeof import("worker_threads")>require("worker_threads");
+    const poolWorker: PoolWorker<TRequest, TResponse> = {
+      worker: new workerThreads.Worker(this._filename)
+    };
+
+    poolWorker.worker.on("message", (message: ResponseMessage<TResponse>) => {
+      const task = poolWorker.task;
+      if (task === undefined || task.id !== message.id) return;
+
+      poolWorker.task = undefined;
+      if (message.error === undefined) {
+        task.resolve(message.response as TResponse);
+      } else {
+        task.reject(new Error(message.error));
+      }
+
+      this._processQueue();
+    });
+
+    poolWorker.worker.on("error", (error: Error) => {
+      this._removeWorker(poolWorker, error);
+    });
+
+    poolWorker.worker.on("exit", (exitCode: number) => {
+      this._removeWorker(poolWorker, new Error(`The worker exited with code ${exitCode}.`));
+    });
+
+    this._workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  /**
+   * Removes a worker which has stopped unexpectedly from the pool, rejecting
+   * the task it was handling.
+   */
+  private _removeWorker(poolWorker: PoolWorker<TRequest, TResponse>, error: Error): void {
+    const index = this._workers.indexOf(poolWorker);
+    if (index === -1) return;
+
+    this._workers.splice(index, 1);
+    if (poolWorker.task) {
+      poolWorker.task.reject(error);
+      poolWorker.task = undefined;
+    }
+
+    this._processQueue();
+  }
+
+  /**
+   * Cancels the task with the given identifier. A worker handling the task is
+   * terminated, as there is no other way of stopping synchronous work, with a
+   * new worker taking its place once there is work for it.
+   */
+  private _cancel(id: number): void {
+    const queueIndex = this._queue.findIndex(t => t.id === id);
+    if (queueIndex !== -1) {
+      const [task] = this._queue.splice(queueIndex, 1);
+      task.reject(new CancellationError());
+      return;
+    }
+
+    const workerIndex = this._workers.findIndex(w => w.task !== undefined && w.task.id === id);
+    if (workerIndex !== -1) {
+      const [poolWorker] = this._workers.splice(workerIndex, 1);
+      const task = poolWorker.task as PendingTask<TRequest, TResponse>;
+
+      poolWorker.task = undefined;
+      poolWorker.worker.terminate();
+      task.reject(new CancellationError());
+      this._processQueue();
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { RequestMessage, ResponseMessage } from "./index";
+
+/**
+ * Handles each request sent to the current worker thread from a `WorkerPool`,
+ * posting the response back to the pool.
+ *
+ * This must only be called from the script a pool was created with.
+ * @param handler The function producing the response to each request.
+ */
+export function handleRequests<TRequest, TResponse>(
+  handler: (request: TRequest) => TResponse): void {
+
+  // The module is only required here, as older versions of Node lack it entirely.
+  const workerThreads = <typeof import("worker_threads")>require("worker_threads");
+  const port = workerThreads.parentPort;
+
+  if (port == null) {
+    throw new Error("Requests can only be handled from within a worker thread.");
+  }
+
+  port.on("message", (message: RequestMessage<TRequest>) => {
+    let response: ResponseMessage<TResponse>;
+
+    try {
+      response = { id: message.id, response: handler(message.request) };
+    } catch (e) {
+      response = { id: message.id, error: e instanceof Error ? e.message : String(e) };
+    }
+
+    port.postMessage(response);
+  });
+}
@@ -63,6 +63,8 @@ export class ConfigurationManager implements IDisposable {
     const booleanQuotes = config.get<boolean>("booleanQuotes");
     const rarityQuotes = config.get<boolean>("rarityQuotes");
     const modQuotes = config.get<boolean>("modQuotes");
+    const renameAcrossFilters = config.get<boolean>("renameAcrossFilters");
+    const inlayHints = config.get<boolean>("inlayHints");
     const linuxMPGAvailable = config.get<boolean>("linuxMPGAvailable");
     const linuxMPGPath = config.get<string>("linuxMPGPath");
     const verifyCustomSounds = config.get<boolean>("verifyCustomSounds");
@@ -80,6 +82,8 @@ export class ConfigurationManager implements IDisposable {
       booleanQuotes: booleanQuotes == null ? false : booleanQuotes,
       rarityQuotes: rarityQuotes == null ? false : rarityQuotes,
       modQuotes: modQuotes == null ? true : modQuotes,
+      renameAcrossFilters: renameAcrossFilters == null ? false : renameAcrossFilters,
+      inlayHints: inlayHints == null ? true : inlayHints,
       linuxMPGAvailable: linuxMPGAvailable == null ? false : linuxMPGAvailable,
       linuxMPGPath: linuxMPGPath == null ? "" : linuxMPGPath,
       verifyCustomSounds: verifyCustomSounds == null ? true : verifyCustomSounds,
@@ -0,0 +1,175 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import { CompositeDisposable, IDisposable } from "../kits/events";
+import { VisibleEditorRegistry } from "../registries/visible-editors";
+import { position2CodePosition } from "../converters";
+import { getInlayHints } from "../items";
+import { FilterNode } from "../parsers-nextgen";
+import { ConfigurationManager } from "./configuration";
+import { ItemFilterManager, FilterChangedEvent, FilterOpenedEvent } from "./item-filters";
+
+const filterData = <types.FilterData>require(path.join(dataOutputRoot, "filter.json"));
+
+/**
+ * Creates and manages the inlay hints for each visible editor of the Visual
+ * Studio Code window, which annotate values whose meaning isn't obvious, such
+ * as the identifier and volume of an alert sound.
+ *
+ * The hints are drawn as attachments before or after each value, as the
+ * version of Visual Studio Code supported by the extension has no inlay hint
+ * provider.
+ */
+export class HintDecorationManager implements IDisposable {
+  private _config: types.ConfigurationValues;
+  private readonly _cache: Map<string, vscode.DecorationOptions[]>;
+  private readonly _decorationType: vscode.TextEditorDecorationType;
+  private readonly _editorRegistry: VisibleEditorRegistry;
+  private readonly _filterManager: ItemFilterManager;
+  private readonly _subscriptions: CompositeDisposable;
+
+  constructor(configManager: ConfigurationManager, editorRegistry: VisibleEditorRegistry,
+    filterManager: ItemFilterManager) {
+
+    this._config = configManager.values;
+    this._cache = new Map();
+    this._editorRegistry = editorRegistry;
+    this._filterManager = filterManager;
+
+    this._decorationType = vscode.window.createTextEditorDecorationType({
+      before: {
+        color: new vscode.ThemeColor("editorCodeLens.foreground"),
+        margin: "0 0.3em 0 0"
+      },
+      after: {
+        color: new vscode.ThemeColor("editorCodeLens.foreground"),
+        margin: "0 0 0 0.3em"
+      }
+    });
+
+    this._subscriptions = new CompositeDisposable([
+      configManager.onDidChange(this._updateConfig, false, this),
+      editorRegistry.observeFilterEditors(this._open, false, this),
+      editorRegistry.onDidCloseFilterEditor(this._close, false, this),
+      filterManager.onDidOpenFilter(this._update, false, this),
+      filterManager.onDidChangeFilter(this._update, false, this)
+    ]);
+  }
+
+  /** Disposes of this manager and all of its subscriptions. */
+  dispose(): void {
+    this._subscriptions.dispose();
+    this._decorationType.dispose();
+    this._cache.clear();
+  }
+
+  /** Adds or removes the hints of every visible editor as the setting is toggled. */
+  private _updateConfig(newConfig: types.ConfigurationValues): void {
+    const enabled = !this._config.inlayHints && newConfig.inlayHints;
+    const disabled = this._config.inlayHints && !newConfig.inlayHints;
+    this._config = newConfig;
+
+    if (disabled) {
+      this._cache.clear();
+      for (const editor of this._editorRegistry.editors) {
+        editor.setDecorations(this._decorationType, []);
+      }
+    } else if (enabled) {
+      for (const editor of this._editorRegistry.editors) {
+        if (editor.document.languageId === "item-filter") this._open(editor);
+      }
+    }
+  }
+
+  /**
+   * Registers the given editor as being visible, performing any work necessary
+   * to either create or restore any hint decorations specific to that editor's
+   * document.
+   */
+  private async _open(editor: vscode.TextEditor): Promise<void> {
+    if (!this._config.inlayHints) return;
+
+    const uri = editor.document.uri.toString();
+
+    const existingDecorations = this._cache.get(uri);
+    if (existingDecorations) {
+      editor.setDecorations(this._decorationType, existingDecorations);
+      return;
+    }
+
+    const filter = this._filterManager.getActive(uri);
+    // The filter may still be parsing, in which case the decorations are
+    // added once it has been opened.
+    if (filter) {
+      const payload = await filter.payload;
+
+      // The hints may have since been disabled.
+      if (!this._config.inlayHints) return;
+
+      const decorations = createDecorations(payload.root);
+      editor.setDecorations(this._decorationType, decorations);
+      this._cache.set(uri, decorations);
+    }
+  }
+
+  /** Closes a previously visible editor. */
+  private _close(closedEditor: vscode.TextEditor): void {
+    const closedEditorUri = closedEditor.document.uri.toString();
+
+    let sharedDocument = false;
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+
+      if (closedEditorUri === editorUri && editor !== closedEditor) {
+        sharedDocument = true;
+      }
+    }
+
+    if (!sharedDocument) {
+      this._cache.delete(closedEditorUri);
+    }
+  }
+
+  /** Updates the hint decorations for each editor containing the given document. */
+  private async _update(event: FilterOpenedEvent | FilterChangedEvent): Promise<void> {
+    if (!this._config.inlayHints) return;
+
+    const payload = await event.filter.payload;
+    const decorations = createDecorations(payload.root);
+
+    // This document may have since been closed, or the hints disabled.
+    if (this._filterManager.get(event.uri) == null || !this._config.inlayHints) {
+      return;
+    }
+
+    this._cache.set(event.uri, decorations);
+
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+      if (editorUri === event.uri) {
+        editor.setDecorations(this._decorationType, decorations);
+      }
+    }
+  }
+}
+
+/** Creates VSCode editor decorations for each inlay hint of the filter. */
+function createDecorations(root: FilterNode): vscode.DecorationOptions[] {
+  return getInlayHints(root, filterData).map(hint => {
+    const position = position2CodePosition(hint.position);
+    const attachment = { contentText: hint.label };
+
+    return {
+      range: new vscode.Range(position, position),
+      renderOptions: hint.parameter ? { before: attachment } : { after: attachment }
+    };
+  });
+}
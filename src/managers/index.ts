@@ -5,5 +5,8 @@
  * ===========================================================================*/
 
 export * from "./configuration";
+export * from "./hint-decorations";
 export * from "./item-filters";
+export * from "./label-decorations";
+export * from "./minimap-icon-decorations";
 export * from "./sound-decorations";
@@ -4,11 +4,14 @@
  * license information.
  * ===========================================================================*/
 
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
 
 import { CompositeDisposable, Emitter, Event, IDisposable } from "../kits/events";
-import { ItemFilter } from "../item-filter";
-import { ConfigurationValues } from "../types";
+import { areWorkerThreadsSupported, isCancellationError, WorkerPool } from "../kits/workers";
+import { FilterParsePool, FilterParseResult, ItemFilter } from "../item-filter";
+import { ConfigurationValues, Diagnostic } from "../types";
 import { ConfigurationManager } from "./configuration";
 import { DocumentRegistry } from "../registries/documents";
 
@@ -26,6 +29,14 @@ export interface FilterChangedEvent {
   filter: ItemFilter;
 }
 
+export interface FilterAnalyzedEvent {
+  uri: string;
+  filter: ItemFilter;
+
+  /** The diagnostics found by comparing the blocks of the filter with one another. */
+  diagnostics: Diagnostic[];
+}
+
 /** Type information for the ItemFilterManager's Emitter. */
 interface Emissions {
   /** Emitted whenever an item filter has been opened. */
@@ -36,25 +47,59 @@ interface Emissions {
 
   /** Emitted whenever an item filter has changed. */
   "changed": FilterChangedEvent;
+
+  /** Emitted whenever the blocks of the active item filter have been compared. */
+  "analyzed": FilterAnalyzedEvent;
 }
 
+/** The script run by each worker used to parse item filters. */
+const parserWorkerPath = path.join(__dirname, "..", "parsers", "worker.js");
+
+/**
+ * The number of milliseconds a document must go unchanged before the blocks of
+ * its item filter are compared, so that no analysis is started while typing.
+ */
+const analysisDelay = 500;
+
 /**
  * Creates and manages item filters opened within the Visual Studio Code
  * workspace.
+ *
+ * Item filters are parsed in the background, with a filter only becoming
+ * active once its parse has completed. Any parse superseded by a newer one
+ * for the same document is cancelled, so that its result is never emitted.
+ *
+ * The blocks of each active filter are then compared with one another, which
+ * is emitted separately, as this takes far longer than the parse itself.
  */
 export class ItemFilterManager implements IDisposable {
   private readonly _activeFilters: Map<string, ItemFilter>;
+  private readonly _pendingFilters: Map<string, ItemFilter>;
+
+  /**
+   * The URIs whose most recent parse failed, leaving an active filter which
+   * predates the latest changes, so their next parse must parse the full text.
+   */
+  private readonly _failedUris: Set<string>;
   private readonly _configManager: ConfigurationManager;
   private readonly _documentRegistry: DocumentRegistry;
   private readonly _emitter: Emitter<Emissions>;
+  private readonly _pool?: FilterParsePool;
   private readonly _subscriptions: CompositeDisposable;
 
   constructor(configManager: ConfigurationManager, documentRegistry: DocumentRegistry) {
     this._configManager = configManager;
     this._documentRegistry = documentRegistry;
     this._activeFilters = new Map();
+    this._pendingFilters = new Map();
+    this._failedUris = new Set();
     this._emitter = new Emitter();
 
+    // Filters are parsed on the extension host itself when workers are unavailable.
+    if (areWorkerThreadsSupported()) {
+      this._pool = new WorkerPool(parserWorkerPath, Math.min(os.cpus().length - 1, 4));
+    }
+
     this._subscriptions = new CompositeDisposable([
       this._documentRegistry.observeFilters(this._openDocument, false, this),
       this._documentRegistry.onDidCloseFilter(this._closeDocument, false, this),
@@ -67,14 +112,69 @@ export class ItemFilterManager implements IDisposable {
   dispose(): void {
     this._subscriptions.dispose();
     this._emitter.dispose();
+
+    for (const [, filter] of this._pendingFilters) {
+      filter.cancel();
+    }
+
+    for (const [, filter] of this._activeFilters) {
+      filter.cancel();
+    }
+
+    if (this._pool) {
+      this._pool.dispose();
+    }
+
     this._activeFilters.clear();
+    this._pendingFilters.clear();
+    this._failedUris.clear();
   }
 
-  /** Returns the item filter for the given URI, if one exists. */
+  /**
+   * Returns the item filter for the most recent version of the document with
+   * the given URI, if one exists. This filter may still be parsing, with its
+   * payload being rejected should it be superseded in the meantime.
+   */
   get(uri: string): ItemFilter | undefined {
+    return this._pendingFilters.get(uri) || this._activeFilters.get(uri);
+  }
+
+  /**
+   * Returns the active item filter for the given URI, if one exists. This is
+   * the most recent filter to have finished parsing, which was last emitted
+   * within an opened or changed event.
+   */
+  getActive(uri: string): ItemFilter | undefined {
     return this._activeFilters.get(uri);
   }
 
+  /**
+   * Returns the result of parsing the given version of the document, waiting
+   * on its parse should it still be pending. Any parse superseded in the
+   * meantime is followed by the parse superseding it.
+   * @param document The document containing the item filter.
+   * @return The result, or undefined if the document has either since changed,
+   * been closed, or failed to parse.
+   */
+  async getPayload(document: vscode.TextDocument): Promise<FilterParseResult | undefined> {
+    const uri = document.uri.toString();
+    let filter = this.get(uri);
+
+    while (filter && filter.version === document.version) {
+      try {
+        return await filter.payload;
+      } catch (e) {
+        // Failed parses have already been reported.
+        if (!isCancellationError(e)) return undefined;
+      }
+
+      const latestFilter = this.get(uri);
+      filter = latestFilter !== filter ? latestFilter : undefined;
+    }
+
+    return undefined;
+  }
+
   /**
    * Invoke the given callback whenever an item filter is opened within the workspace.
    * @return A disposable on which `.dispose()` can be called to unsubscribe.
@@ -114,12 +214,20 @@ export class ItemFilterManager implements IDisposable {
     return this._emitter.on("changed", e, preempt, thisArg);
   }
 
+  /**
+   * Invoke the given callback whenever the blocks of an active item filter
+   * have been compared with one another.
+   * @return A disposable on which `.dispose()` can be called to unsubscribe.
+   */
+  onDidAnalyzeFilter: Event<Emissions["analyzed"]> = (e, preempt, thisArg) => {
+    return this._emitter.on("analyzed", e, preempt, thisArg);
+  }
+
   /** Opens an item filter with the contents of the given document. */
   private _openDocument(document: vscode.TextDocument): void {
     const uri = document.uri.toString();
-    const filter = new ItemFilter(this._configManager.values, document.getText());
-    this._activeFilters.set(uri, filter);
-    this._emitter.emit("opened", { uri, filter });
+    this._parse(uri, new ItemFilter(this._configManager.values, document.version,
+      document.getText(), this._pool));
   }
 
   /** Closes the item filter associated with the given text document. */
@@ -129,7 +237,19 @@ export class ItemFilterManager implements IDisposable {
 
   /** Closes the item filter associated with the given identifier.  */
   private _closeUri(uri: string): void {
-    this._activeFilters.delete(uri);
+    const pendingFilter = this._pendingFilters.get(uri);
+    if (pendingFilter) {
+      pendingFilter.cancel();
+      this._pendingFilters.delete(uri);
+    }
+
+    const activeFilter = this._activeFilters.get(uri);
+    if (activeFilter) {
+      activeFilter.cancel();
+      this._activeFilters.delete(uri);
+    }
+
+    this._failedUris.delete(uri);
     this._emitter.emit("closed", { uri });
   }
 
@@ -139,21 +259,115 @@ export class ItemFilterManager implements IDisposable {
       return;
     }
 
+    // The changes are relative to the most recent version of the document,
+    // which is still being parsed if there's a pending filter.
     const uri = event.document.uri.toString();
-    const filter = new ItemFilter(this._configManager.values, event.document.getText());
-    this._activeFilters.set(uri, filter);
-    this._emitter.emit("changed", { uri, filter });
+    const previousFilter = this._failedUris.delete(uri) ? undefined :
+      this._pendingFilters.get(uri) || this._activeFilters.get(uri);
+    const filter = new ItemFilter(this._configManager.values, event.document.version,
+      event.document.getText(), this._pool,
+      previousFilter ? { filter: previousFilter, changes: event.contentChanges } : undefined);
+    this._parse(uri, filter, analysisDelay);
   }
 
   /** Performs any work necessary whenever a configuration value has changed. */
   private _updateConfig(config: ConfigurationValues): void {
-    for (const [uri] of this._activeFilters) {
+    const uris = new Set([...this._activeFilters.keys(), ...this._pendingFilters.keys()]);
+
+    for (const uri of uris) {
       const document = this._documentRegistry.getFilter(uri);
       if (document) {
-        const filter = new ItemFilter(config, document.getText());
-        this._activeFilters.set(uri, filter);
-        this._emitter.emit("changed", { uri, filter });
+        this._parse(uri, new ItemFilter(config, document.version, document.getText(),
+          this._pool));
+      }
+    }
+  }
+
+  /**
+   * Makes the filter the pending filter for the URI, cancelling the one it
+   * supersedes. The filter becomes active once parsed, emitting either an
+   * opened or changed event, unless it has been superseded in the meantime.
+   *
+   * A parse which fails is reported to the user, leaving the previous filter
+   * for the URI active until the document changes again.
+   * @param analysisDelay The number of milliseconds to wait before analyzing
+   * the filter once it has become active.
+   */
+  private async _parse(uri: string, filter: ItemFilter, analysisDelay = 0): Promise<void> {
+    const supersededFilter = this._pendingFilters.get(uri);
+    this._pendingFilters.set(uri, filter);
+
+    if (supersededFilter) {
+      supersededFilter.cancel();
+    }
+
+    // The analysis of the active filter is just as outdated.
+    const activeFilter = this._activeFilters.get(uri);
+    if (activeFilter) {
+      activeFilter.cancel();
+    }
+
+    try {
+      await filter.payload;
+    } catch (e) {
+      if (isCancellationError(e)) return;
+
+      if (this._pendingFilters.get(uri) === filter) {
+        this._pendingFilters.delete(uri);
+        this._failedUris.add(uri);
+        vscode.window.showErrorMessage("Unable to parse the item filter: " +
+          (e instanceof Error ? e.message : String(e)));
       }
+
+      return;
     }
+
+    if (this._pendingFilters.get(uri) !== filter) {
+      return;
+    }
+
+    const opened = !this._activeFilters.has(uri);
+    this._pendingFilters.delete(uri);
+    this._activeFilters.set(uri, filter);
+
+    if (opened) {
+      this._emitter.emit("opened", { uri, filter });
+    } else {
+      this._emitter.emit("changed", { uri, filter });
+    }
+
+    await this._analyze(uri, filter, analysisDelay);
+  }
+
+  /**
+   * Analyzes the active filter for the URI once the delay has passed, emitting
+   * an analyzed event unless the filter has been superseded in the meantime.
+   */
+  private async _analyze(uri: string, filter: ItemFilter, delay: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (!this._isCurrent(uri, filter)) return;
+
+    let diagnostics: Diagnostic[];
+    try {
+      diagnostics = await filter.analyze();
+    } catch (e) {
+      if (isCancellationError(e)) return;
+
+      if (this._isCurrent(uri, filter)) {
+        vscode.window.showErrorMessage("Unable to analyze the item filter: " +
+          (e instanceof Error ? e.message : String(e)));
+      }
+
+      return;
+    }
+
+    if (this._isCurrent(uri, filter)) {
+      this._emitter.emit("analyzed", { uri, filter, diagnostics });
+    }
+  }
+
+  /** Returns whether the filter is the active filter for the URI, with no newer parse pending. */
+  private _isCurrent(uri: string, filter: ItemFilter): boolean {
+    return this._activeFilters.get(uri) === filter && !this._pendingFilters.has(uri);
   }
 }
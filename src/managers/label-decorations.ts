@@ -0,0 +1,205 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import { CompositeDisposable, IDisposable } from "../kits/events";
+import { VisibleEditorRegistry } from "../registries/visible-editors";
+import { position2CodePosition } from "../converters";
+import { color2Css, getItemLabel, ItemLabel, labelFontSizes } from "../items";
+import { BlockNode, FilterNode, isBlockNode, isRuleNode } from "../parsers-nextgen";
+import { ItemFilterManager, FilterChangedEvent, FilterOpenedEvent } from "./item-filters";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+
+/** The font sizes of the previews relative to that of the editor, at each end of the range. */
+const previewScale = { min: 0.6, max: 1 };
+
+/**
+ * Creates and manages the label previews for each visible editor of the Visual
+ * Studio Code window, which follow the first line of each block and show the
+ * label of an item caught by that block.
+ *
+ * Finding the item caught by a block takes a while, so the label of each block
+ * is kept for the next version of its document, where it is reused by every
+ * block with the same rules.
+ */
+export class LabelDecorationManager implements IDisposable {
+  private readonly _cache: Map<string, vscode.DecorationOptions[]>;
+  private readonly _labels: Map<string, Map<string, ItemLabel>>;
+  private readonly _decorationType: vscode.TextEditorDecorationType;
+  private readonly _editorRegistry: VisibleEditorRegistry;
+  private readonly _filterManager: ItemFilterManager;
+  private readonly _subscriptions: CompositeDisposable;
+
+  constructor(editorRegistry: VisibleEditorRegistry, filterManager: ItemFilterManager) {
+    this._cache = new Map();
+    this._labels = new Map();
+    this._editorRegistry = editorRegistry;
+    this._filterManager = filterManager;
+
+    this._decorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        margin: "0 0 0 2em"
+      }
+    });
+
+    this._subscriptions = new CompositeDisposable([
+      editorRegistry.observeFilterEditors(this._open, false, this),
+      editorRegistry.onDidCloseFilterEditor(this._close, false, this),
+      filterManager.onDidOpenFilter(this._update, false, this),
+      filterManager.onDidChangeFilter(this._update, false, this),
+      filterManager.onDidCloseFilter(event => this._labels.delete(event.uri))
+    ]);
+  }
+
+  /** Disposes of this manager and all of its subscriptions. */
+  dispose(): void {
+    this._subscriptions.dispose();
+    this._decorationType.dispose();
+    this._cache.clear();
+    this._labels.clear();
+  }
+
+  /**
+   * Registers the given editor as being visible, performing any work necessary
+   * to either create or restore any label decorations specific to that editor's
+   * document.
+   */
+  private async _open(editor: vscode.TextEditor): Promise<void> {
+    const uri = editor.document.uri.toString();
+
+    const existingDecorations = this._cache.get(uri);
+    if (existingDecorations) {
+      editor.setDecorations(this._decorationType, existingDecorations);
+      return;
+    }
+
+    const filter = this._filterManager.getActive(uri);
+    // The filter may still be parsing, in which case the decorations are
+    // added once it has been opened.
+    if (filter) {
+      const payload = await filter.payload;
+      const decorations = this._createDecorations(uri, payload.root);
+      editor.setDecorations(this._decorationType, decorations);
+      this._cache.set(uri, decorations);
+    }
+  }
+
+  /** Closes a previously visible editor. */
+  private _close(closedEditor: vscode.TextEditor): void {
+    const closedEditorUri = closedEditor.document.uri.toString();
+
+    let sharedDocument = false;
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+
+      if (closedEditorUri === editorUri && editor !== closedEditor) {
+        sharedDocument = true;
+      }
+    }
+
+    if (!sharedDocument) {
+      this._cache.delete(closedEditorUri);
+    }
+  }
+
+  /** Updates the label decorations for each editor containing the given document. */
+  private async _update(event: FilterOpenedEvent | FilterChangedEvent): Promise<void> {
+    const payload = await event.filter.payload;
+
+    // This document may have since been closed.
+    if (this._filterManager.get(event.uri) == null) {
+      return;
+    }
+
+    const decorations = this._createDecorations(event.uri, payload.root);
+
+    this._cache.set(event.uri, decorations);
+
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+      if (editorUri === event.uri) {
+        editor.setDecorations(this._decorationType, decorations);
+      }
+    }
+  }
+
+  /** Creates VSCode editor decorations previewing the label of each block. */
+  private _createDecorations(uri: string, root: FilterNode): vscode.DecorationOptions[] {
+    const result: vscode.DecorationOptions[] = [];
+    const previousLabels = this._labels.get(uri);
+    const labels = new Map<string, ItemLabel>();
+
+    for (const node of root.children) {
+      if (!isBlockNode(node)) continue;
+
+      const key = getBlockKey(node);
+      let label = labels.get(key) || (previousLabels && previousLabels.get(key));
+      if (!label) label = getItemLabel(node, itemData.classesToBases);
+      labels.set(key, label);
+
+      const scale = previewScale.min + (previewScale.max - previewScale.min) *
+        (label.fontSize - labelFontSizes.min) / (labelFontSizes.max - labelFontSizes.min);
+
+      // The attachment has no option for most of these styles, which are
+      // instead appended onto its text decoration.
+      const css = [`font-size: ${scale.toFixed(2)}em`, "padding: 0 0.5em"];
+      if (node.keyword.text === "Hide") css.push("opacity: 0.5");
+
+      const position = position2CodePosition(getFirstLineEnd(node));
+      result.push({
+        range: new vscode.Range(position, position),
+        renderOptions: {
+          after: {
+            contentText: label.text,
+            color: color2Css(label.textColor),
+            backgroundColor: color2Css(label.backgroundColor),
+            border: label.borderColor ? `1px solid ${color2Css(label.borderColor)}` :
+              "1px solid transparent",
+            textDecoration: `none; ${css.join("; ")}`
+          }
+        }
+      });
+    }
+
+    this._labels.set(uri, labels);
+    return result;
+  }
+}
+
+/**
+ * Returns a key identifying the rules of the block, which is the same for
+ * blocks with the same rules regardless of their position within the filter.
+ */
+function getBlockKey(block: BlockNode): string {
+  const lines = [block.keyword.text];
+
+  for (const child of block.children) {
+    if (!isRuleNode(child)) continue;
+
+    const tokens = [child.keyword.text];
+    if (child.operator) tokens.push(child.operator.text);
+    for (const value of child.values) tokens.push(value.text);
+    lines.push(tokens.join(" "));
+  }
+
+  return lines.join("\n");
+}
+
+/** Returns the end of the line containing the keyword of the block. */
+function getFirstLineEnd(block: BlockNode): types.Position {
+  if (block.comment) {
+    return block.comment.range.end;
+  } else if (block.trailingText) {
+    return block.trailingText.range.end;
+  } else {
+    return block.keyword.range.end;
+  }
+}
@@ -0,0 +1,194 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot, imageRoot } from "../helpers";
+import { getMinimapIconImage } from "../items";
+import { CompositeDisposable, IDisposable } from "../kits/events";
+import { VisibleEditorRegistry } from "../registries/visible-editors";
+import { range2CodeRange } from "../converters";
+import { FilterNode, isBlockNode, isRuleNode, RuleNode } from "../parsers-nextgen";
+import { ItemFilterManager, FilterChangedEvent, FilterOpenedEvent } from "./item-filters";
+
+const filterData = <types.FilterData>require(path.join(dataOutputRoot, "filter.json"));
+
+/** The width in pixels of the icon shown when hovering over a `MinimapIcon` rule. */
+const hoverIconWidth = 96;
+
+/** The decorations for a single document, keyed by the image of their minimap icon. */
+type IconDecorations = Map<string, vscode.DecorationOptions[]>;
+
+/**
+ * Creates and manages minimap icon decorations for each visible editor of the
+ * Visual Studio Code window, which draw the icon of each `MinimapIcon` rule
+ * within the gutter.
+ *
+ * The icon drawn in the gutter can only be set for an entire decoration type,
+ * so a type is created for each icon as it's first used, then disposed of
+ * once no visible document uses that icon.
+ */
+export class MinimapIconDecorationManager implements IDisposable {
+  private readonly _cache: Map<string, IconDecorations>;
+  private readonly _decorationTypes: Map<string, vscode.TextEditorDecorationType>;
+  private readonly _editorRegistry: VisibleEditorRegistry;
+  private readonly _filterManager: ItemFilterManager;
+  private readonly _subscriptions: CompositeDisposable;
+
+  constructor(editorRegistry: VisibleEditorRegistry, filterManager: ItemFilterManager) {
+    this._cache = new Map();
+    this._decorationTypes = new Map();
+    this._editorRegistry = editorRegistry;
+    this._filterManager = filterManager;
+
+    this._subscriptions = new CompositeDisposable([
+      editorRegistry.observeFilterEditors(this._open, false, this),
+      editorRegistry.onDidCloseFilterEditor(this._close, false, this),
+      filterManager.onDidOpenFilter(this._update, false, this),
+      filterManager.onDidChangeFilter(this._update, false, this)
+    ]);
+  }
+
+  /** Disposes of this manager and all of its subscriptions. */
+  dispose(): void {
+    this._subscriptions.dispose();
+    this._cache.clear();
+
+    for (const decorationType of this._decorationTypes.values()) {
+      decorationType.dispose();
+    }
+    this._decorationTypes.clear();
+  }
+
+  /**
+   * Registers the given editor as being visible, performing any work necessary
+   * to either create or restore any minimap icon decorations specific to that
+   * editor's document.
+   */
+  private async _open(editor: vscode.TextEditor): Promise<void> {
+    const uri = editor.document.uri.toString();
+
+    const existingDecorations = this._cache.get(uri);
+    if (existingDecorations) {
+      this._setDecorations(editor, existingDecorations);
+      return;
+    }
+
+    const filter = this._filterManager.getActive(uri);
+    // The filter may still be parsing, in which case the decorations are
+    // added once it has been opened.
+    if (filter) {
+      const payload = await filter.payload;
+      const decorations = this._createDecorations(payload.root);
+      this._setDecorations(editor, decorations);
+      this._cache.set(uri, decorations);
+    }
+  }
+
+  /** Closes a previously visible editor. */
+  private _close(closedEditor: vscode.TextEditor): void {
+    const closedEditorUri = closedEditor.document.uri.toString();
+
+    let sharedDocument = false;
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+
+      if (closedEditorUri === editorUri && editor !== closedEditor) {
+        sharedDocument = true;
+      }
+    }
+
+    if (!sharedDocument) {
+      this._cache.delete(closedEditorUri);
+      this._disposeUnusedTypes();
+    }
+  }
+
+  /** Updates the minimap icon decorations for each editor containing the given document. */
+  private async _update(event: FilterOpenedEvent | FilterChangedEvent): Promise<void> {
+    const payload = await event.filter.payload;
+    const decorations = this._createDecorations(payload.root);
+
+    // This document may have since been closed.
+    if (this._filterManager.get(event.uri) == null) {
+      return;
+    }
+
+    this._cache.set(event.uri, decorations);
+
+    for (const editor of this._editorRegistry.editors) {
+      const editorUri = editor.document.uri.toString();
+      if (editorUri === event.uri) {
+        this._setDecorations(editor, decorations);
+      }
+    }
+
+    this._disposeUnusedTypes();
+  }
+
+  /** Sets the decorations of each type, clearing those of any icon no longer used. */
+  private _setDecorations(editor: vscode.TextEditor, decorations: IconDecorations): void {
+    for (const [key, decorationType] of this._decorationTypes) {
+      editor.setDecorations(decorationType, decorations.get(key) || []);
+    }
+  }
+
+  /** Disposes of the decoration type of each icon no longer used by any cached document. */
+  private _disposeUnusedTypes(): void {
+    const usedKeys = new Set<string>();
+    for (const decorations of this._cache.values()) {
+      for (const key of decorations.keys()) {
+        usedKeys.add(key);
+      }
+    }
+
+    for (const [key, decorationType] of this._decorationTypes) {
+      if (!usedKeys.has(key)) {
+        decorationType.dispose();
+        this._decorationTypes.delete(key);
+      }
+    }
+  }
+
+  /** Creates VSCode editor decorations for each valid `MinimapIcon` rule of the filter. */
+  private _createDecorations(root: FilterNode): IconDecorations {
+    const result: IconDecorations = new Map();
+
+    const addDecoration = (rule: RuleNode) => {
+      const key = getMinimapIconImage(rule, filterData);
+      if (!key) return;
+
+      const imageUri = vscode.Uri.file(path.join(imageRoot, key));
+      if (!this._decorationTypes.has(key)) {
+        this._decorationTypes.set(key, vscode.window.createTextEditorDecorationType({
+          gutterIconPath: imageUri,
+          gutterIconSize: "contain"
+        }));
+      }
+
+      const hoverMessage = new vscode.MarkdownString("![Minimap Icon Preview]" +
+        `(${imageUri.toString()}|width=${hoverIconWidth})`);
+
+      const decorations = result.get(key) || [];
+      decorations.push({ range: range2CodeRange(rule.range), hoverMessage });
+      result.set(key, decorations);
+    };
+
+    for (const node of root.children) {
+      if (isBlockNode(node)) {
+        for (const child of node.children) {
+          if (isRuleNode(child)) addDecoration(child);
+        }
+      } else if (isRuleNode(node)) {
+        addDecoration(node);
+      }
+    }
+
+    return result;
+  }
+}
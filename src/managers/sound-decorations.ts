@@ -10,7 +10,7 @@ import * as types from "../types";
 import { CompositeDisposable, IDisposable } from "../kits/events";
 import { VisibleEditorRegistry } from "../registries/visible-editors";
 import { range2CodeRange } from "../converters";
-import { ItemFilterManager, FilterChangedEvent } from "./item-filters";
+import { ItemFilterManager, FilterChangedEvent, FilterOpenedEvent } from "./item-filters";
 
 /**
  * Creates and manages sound decorations for each visible editor of the Visual
@@ -37,6 +37,7 @@ export class SoundDecorationManager implements IDisposable {
     this._subscriptions = new CompositeDisposable([
       editorRegistry.observeFilterEditors(this._open, false, this),
       editorRegistry.onDidCloseFilterEditor(this._close, false, this),
+      filterManager.onDidOpenFilter(this._update, false, this),
       filterManager.onDidChangeFilter(this._update, false, this)
     ]);
   }
@@ -61,9 +62,9 @@ export class SoundDecorationManager implements IDisposable {
       return;
     }
 
-    const filter = this._filterManager.get(uri);
-    // With how we order our events, this should always be true. If it's not,
-    // then the decorations will simply be missing until an edit.
+    const filter = this._filterManager.getActive(uri);
+    // The filter may still be parsing, in which case the decorations are
+    // added once it has been opened.
     if (filter) {
       const payload = await filter.payload;
       const decorations = this._createDecorations(payload.soundInformation);
@@ -91,7 +92,7 @@ export class SoundDecorationManager implements IDisposable {
   }
 
   /** Updates the sound decorations for each editor containing the given document. */
-  private async _update(event: FilterChangedEvent): Promise<void> {
+  private async _update(event: FilterOpenedEvent | FilterChangedEvent): Promise<void> {
     const payload = await event.filter.payload;
     const decorations = this._createDecorations(payload.soundInformation);
 
@@ -0,0 +1,224 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import {
+  BlockNode, CommentNode, FilterNode, KeywordNode, Node, NodeType, RuleNode, TextNode, ValueNode
+} from "./nodes";
+import { TokenParser } from "./tokens";
+
+/** The keywords beginning a new block within an item filter. */
+export const blockKeywords = ["Show", "Hide"];
+
+/**
+ * Parses the given text into a syntax tree.
+ *
+ * The parse is purely syntactic, with no validation being performed on the
+ * keywords or values found within the text. Each line is parsed independently,
+ * with the block keywords determining how those lines are grouped together.
+ * @param text The full text of an item filter.
+ * @return The root node of the syntax tree.
+ */
+export function parseFilter(text: string): FilterNode {
+  return parseFilterLines(text, 0);
+}
+
+/**
+ * Parses the given lines of text into a syntax tree.
+ *
+ * Each block keyword resets the state of the parse, meaning the resulting
+ * nodes are identical to those of a full parse whenever both the start and end
+ * lines either begin a block or fall on either end of the text.
+ * @param text The full text of an item filter.
+ * @param startLine The zero-based line at which to begin parsing.
+ * @param endLine The zero-based line at which to stop parsing, exclusive. The
+ * entirety of the remaining text is parsed when omitted.
+ * @return A filter node containing only the nodes for the parsed lines.
+ */
+export function parseFilterLines(text: string, startLine: number, endLine?: number):
+  FilterNode {
+
+  const startPosition = { line: startLine, character: 0 };
+  const parser = new TokenParser(text, startLine === 0 ? undefined : startPosition);
+  const root: FilterNode = {
+    type: NodeType.Filter,
+    range: {
+      start: { ...startPosition },
+      end: { ...startPosition }
+    },
+    children: []
+  };
+
+  let currentBlock: BlockNode | undefined;
+
+  // Comments are only considered to be part of a block when followed by
+  // another line of that block.
+  let pendingComments: CommentNode[] = [];
+
+  while (!parser.isEndOfFile() && (endLine === undefined || parser.position.line < endLine)) {
+    consumeWhitespace(parser);
+
+    if (parser.isComment()) {
+      pendingComments.push(parser.consumeComment());
+    } else if (parser.isKeyword()) {
+      const keyword = parser.consumeKeyword();
+
+      if (blockKeywords.includes(keyword.text)) {
+        root.children.push(...pendingComments);
+        pendingComments = [];
+
+        currentBlock = parseBlock(parser, keyword);
+        root.children.push(currentBlock);
+      } else {
+        const rule = parseRule(parser, keyword);
+        appendLine(root, currentBlock, pendingComments, rule);
+        pendingComments = [];
+      }
+    } else if (!parser.isEndOfLine()) {
+      const unreadableText = parser.consumeLine();
+      appendLine(root, currentBlock, pendingComments, unreadableText);
+      pendingComments = [];
+    }
+
+    // Whatever remains on the line cannot be part of the current node.
+    if (!parser.isEndOfLine()) {
+      parser.consumeLine();
+    }
+
+    if (parser.isLineBreak()) {
+      parser.consumeLineBreak();
+    }
+  }
+
+  root.children.push(...pendingComments);
+  root.range.end = parser.position;
+
+  return root;
+}
+
+/** Appends a line to the current block, or to the filter if there is no block. */
+function appendLine(root: FilterNode, block: BlockNode | undefined,
+  pendingComments: CommentNode[], node: RuleNode | TextNode): void {
+
+  if (block) {
+    block.children.push(...pendingComments, node);
+    block.range.end = { ...node.range.end };
+  } else {
+    root.children.push(...pendingComments, node);
+  }
+}
+
+/** Parses the remainder of a line beginning with a block keyword. */
+function parseBlock(parser: TokenParser, keyword: KeywordNode): BlockNode {
+  const block: BlockNode = {
+    type: NodeType.Block,
+    range: {
+      start: { ...keyword.range.start },
+      end: { ...keyword.range.end }
+    },
+    keyword,
+    children: []
+  };
+
+  consumeWhitespace(parser);
+
+  if (!parser.isEndOfLine() && !parser.isComment()) {
+    block.trailingText = parser.consumeText();
+    consumeWhitespace(parser);
+  }
+
+  if (parser.isComment()) {
+    block.comment = parser.consumeComment();
+  }
+
+  const lastNode = getLastNode(keyword, block.trailingText, block.comment);
+  block.range.end = { ...lastNode.range.end };
+  return block;
+}
+
+/** Parses the remainder of a line beginning with a rule keyword. */
+function parseRule(parser: TokenParser, keyword: KeywordNode): RuleNode {
+  const rule: RuleNode = {
+    type: NodeType.Rule,
+    range: {
+      start: { ...keyword.range.start },
+      end: { ...keyword.range.end }
+    },
+    keyword,
+    values: []
+  };
+
+  consumeWhitespace(parser);
+
+  if (parser.isOperator()) {
+    rule.operator = parser.consumeOperator();
+  }
+
+  while (true) {
+    consumeWhitespace(parser);
+
+    if (parser.isEndOfLine()) {
+      break;
+    } else if (parser.isComment()) {
+      rule.comment = parser.consumeComment();
+      break;
+    }
+
+    const value = parseValue(parser);
+    if (value) {
+      rule.values.push(value);
+      continue;
+    }
+
+    rule.trailingText = parser.consumeText();
+    consumeWhitespace(parser);
+
+    if (parser.isComment()) {
+      rule.comment = parser.consumeComment();
+    }
+
+    break;
+  }
+
+  const lastValue = rule.values.length > 0 ? rule.values[rule.values.length - 1] : undefined;
+  const lastNode = getLastNode(keyword, rule.operator, lastValue, rule.trailingText,
+    rule.comment);
+  rule.range.end = { ...lastNode.range.end };
+
+  return rule;
+}
+
+/** Parses the value under the current position, if there is one. */
+function parseValue(parser: TokenParser): ValueNode | undefined {
+  if (parser.isBoolean()) {
+    return parser.consumeBoolean();
+  } else if (parser.isNumber()) {
+    return parser.consumeNumber();
+  } else if (parser.isString()) {
+    return parser.consumeString();
+  } else if (parser.isWord()) {
+    return parser.consumeWord();
+  } else {
+    return undefined;
+  }
+}
+
+/** Consumes any whitespace under the current position. */
+function consumeWhitespace(parser: TokenParser): void {
+  if (parser.isSingleLineWhitespace()) {
+    parser.consumeSingleLineWhitespace();
+  }
+}
+
+/** Returns the last of the given nodes to have been defined. */
+function getLastNode(first: Node, ...rest: Array<Node | undefined>): Node {
+  let result = first;
+
+  for (const node of rest) {
+    if (node) result = node;
+  }
+
+  return result;
+}
@@ -0,0 +1,91 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { CommentNode, FilterNode, isBlockNode, isCommentNode } from "./nodes";
+import { getFilterOutline, isFilterSection, OutlineNode } from "./outline";
+
+/** The source of a folding range. */
+export const enum FoldingRangeType {
+  Block = "Block",
+  Section = "Section",
+
+  /** A region delimited by `#region` and `#endregion` comments. */
+  Region = "Region"
+}
+
+/** A range of lines able to be folded, leaving only the first line visible. */
+export interface FoldingRange {
+  type: FoldingRangeType;
+
+  /** The zero-based line on which the range starts. */
+  startLine: number;
+
+  /** The zero-based line on which the range ends. */
+  endLine: number;
+}
+
+const regionStartRegex = /^region\b/;
+const regionEndRegex = /^endregion\b/;
+
+/**
+ * Returns the ranges able to be folded within the item filter, being each
+ * block, each section introduced by a header comment, and each region.
+ * @param root The root node of the syntax tree for the item filter.
+ * @return The folding ranges, each of which spans at least two lines.
+ */
+export function getFoldingRanges(root: FilterNode): FoldingRange[] {
+  const result: FoldingRange[] = [];
+
+  const addRange = (type: FoldingRangeType, startLine: number, endLine: number) => {
+    if (endLine > startLine) {
+      result.push({ type, startLine, endLine });
+    }
+  };
+
+  const addOutlineRanges = (nodes: OutlineNode[]): void => {
+    for (const node of nodes) {
+      if (isFilterSection(node)) {
+        addRange(FoldingRangeType.Section, node.range.start.line, node.range.end.line);
+        addOutlineRanges(node.children);
+      } else {
+        addRange(FoldingRangeType.Block, node.range.start.line, node.range.end.line);
+      }
+    }
+  };
+
+  addOutlineRanges(getFilterOutline(root));
+
+  // Regions may start and end within blocks, as comments preceding a rule
+  // are part of the block containing that rule.
+  const regionStarts: number[] = [];
+  for (const comment of getComments(root)) {
+    if (regionStartRegex.test(comment.value)) {
+      regionStarts.push(comment.range.start.line);
+    } else if (regionEndRegex.test(comment.value)) {
+      const startLine = regionStarts.pop();
+      if (startLine !== undefined) {
+        addRange(FoldingRangeType.Region, startLine, comment.range.start.line);
+      }
+    }
+  }
+
+  return result;
+}
+
+/** Returns every comment occupying a line of its own, in the order they appear. */
+function getComments(root: FilterNode): CommentNode[] {
+  const result: CommentNode[] = [];
+
+  for (const node of root.children) {
+    if (isCommentNode(node)) {
+      result.push(node);
+    } else if (isBlockNode(node)) {
+      result.push(...node.children.filter(isCommentNode));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,223 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Range, TextEdit } from "../types";
+import { parseFilter } from "./filter";
+import {
+  BlockNode, isBlockNode, isCommentNode, isRuleNode, NodeType, RuleNode, ValueNode
+} from "./nodes";
+import { isValidWordCharacter } from "./tokens";
+
+/** User-provided options for the formatting of an item filter. */
+export interface FormattingOptions {
+  /** The text used to indent each line within a block, such as four spaces. */
+  indent: string;
+
+  /**
+   * Whether the values of a rule should be surrounded by quotation marks,
+   * keyed by the keyword of that rule. Rules without an entry keep the
+   * quotation marks they already have.
+   */
+  valueQuotes: { [keyword: string]: boolean | undefined };
+}
+
+const lineBreakRegex = /\r?\n/;
+const blankLineRegex = /^\s*$/;
+const numberRegex = /^[0-9]+$/;
+
+/**
+ * Formats an item filter, indenting each line within a block, separating the
+ * parts of each rule by a single space, quoting values as configured, and
+ * separating each block from the previous block by a single blank line.
+ *
+ * Formatting never changes the meaning of the filter. Values are only ever
+ * unquoted when they would be read as the same word without the quotation
+ * marks, while lines that couldn't be parsed and lines falling outside of a
+ * block retain their existing text. Comments directly preceding a block are
+ * kept attached to it, as they generally describe that block.
+ * @param text The text of the item filter.
+ * @param options The options to use during formatting.
+ * @param range The range to format, with the entire filter being formatted if omitted.
+ * @return The edits formatting the filter, ordered by their position.
+ */
+export function formatFilter(text: string, options: FormattingOptions, range?: Range):
+  TextEdit[] {
+
+  const lineBreakMatch = lineBreakRegex.exec(text);
+  const eol = lineBreakMatch ? lineBreakMatch[0] : "\n";
+  const lines = text.split(lineBreakRegex);
+
+  // The empty line following a final line break isn't subject to formatting,
+  // as it only exists due to that line break.
+  const lastLine = lines.length > 1 && lines[lines.length - 1] === "" ?
+    lines.length - 2 : lines.length - 1;
+
+  const formattedLines = new Map<number, string>();
+  const blockLines = new Set<number>();
+  const blockChildLines = new Set<number>();
+  const commentLines = new Set<number>();
+
+  for (const node of parseFilter(text).children) {
+    const line = node.range.start.line;
+
+    if (isBlockNode(node)) {
+      blockLines.add(line);
+      formattedLines.set(line, formatBlockLine(node));
+
+      for (const child of node.children) {
+        const childLine = child.range.start.line;
+        blockChildLines.add(childLine);
+
+        if (isRuleNode(child)) {
+          formattedLines.set(childLine, options.indent + formatRule(child, lines, options));
+        } else {
+          formattedLines.set(childLine, options.indent + child.text.trim());
+        }
+      }
+    } else if (isCommentNode(node)) {
+      commentLines.add(line);
+      formattedLines.set(line, lines[line].trimRight());
+    }
+  }
+
+  const edits: TextEdit[] = [];
+
+  const formatGap = (previousLine: number, nextLine: number): void => {
+    const blankLines = lines.slice(previousLine + 1, nextLine);
+    let expectedCount: number;
+
+    if (previousLine === -1 || nextLine > lastLine) {
+      expectedCount = 0;
+    } else if (blockChildLines.has(nextLine)) {
+      expectedCount = 0;
+    } else if (blankLines.length === 0) {
+      expectedCount = blockLines.has(nextLine) && !commentLines.has(previousLine) ? 1 : 0;
+    } else {
+      expectedCount = 1;
+    }
+
+    if (blankLines.length === expectedCount && blankLines.every(l => l.length === 0)) {
+      return;
+    }
+
+    if (previousLine === -1) {
+      edits.push(createEdit(0, 0, nextLine, 0, ""));
+    } else if (nextLine > lastLine) {
+      edits.push(createEdit(previousLine, lines[previousLine].length, lastLine,
+        lines[lastLine].length, ""));
+    } else {
+      edits.push(createEdit(previousLine, lines[previousLine].length, nextLine, 0,
+        eol.repeat(expectedCount + 1)));
+    }
+  };
+
+  let previousContentLine = -1;
+  for (let line = 0; line <= lastLine; line++) {
+    if (blankLineRegex.test(lines[line])) continue;
+
+    formatGap(previousContentLine, line);
+    previousContentLine = line;
+
+    const formattedLine = formattedLines.get(line);
+    if (formattedLine !== undefined && formattedLine !== lines[line]) {
+      edits.push(createEdit(line, 0, line, lines[line].length, formattedLine));
+    }
+  }
+
+  if (previousContentLine !== -1) {
+    formatGap(previousContentLine, lastLine + 1);
+  }
+
+  return range ? edits.filter(e => e.range.end.line >= range.start.line &&
+    e.range.start.line <= range.end.line) : edits;
+}
+
+function formatBlockLine(block: BlockNode): string {
+  let result = block.keyword.text;
+
+  if (block.trailingText) {
+    result += ` ${block.trailingText.text.trim()}`;
+  }
+
+  if (block.comment) {
+    result += ` ${block.comment.text.trimRight()}`;
+  }
+
+  return result;
+}
+
+function formatRule(rule: RuleNode, lines: string[], options: FormattingOptions): string {
+  // Text that couldn't be read could depend on the spacing of the line, so
+  // we leave such lines as they are, other than their indentation.
+  if (rule.trailingText) {
+    return lines[rule.range.start.line].slice(rule.keyword.range.start.character).trimRight();
+  }
+
+  const parts = [rule.keyword.text];
+
+  if (rule.operator) {
+    parts.push(rule.operator.text);
+  }
+
+  const quotes = options.valueQuotes[rule.keyword.text];
+  for (const value of rule.values) {
+    parts.push(formatValue(value, quotes));
+  }
+
+  if (rule.comment) {
+    parts.push(rule.comment.text.trimRight());
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Returns the text of the value, adding or removing quotation marks as
+ * requested, provided the value would still be read as the same type.
+ */
+function formatValue(value: ValueNode, quotes: boolean | undefined): string {
+  if (quotes === undefined) {
+    return value.text;
+  }
+
+  switch (value.type) {
+    case NodeType.Boolean:
+      return quotes ? `"${value.value ? "True" : "False"}"` : value.value ? "True" : "False";
+    case NodeType.Word:
+      return quotes ? `"${value.value}"` : value.text;
+    case NodeType.String:
+      return quotes || !isUnquotable(value.value) ? value.text : value.value;
+    default:
+      return value.text;
+  }
+}
+
+/** Returns whether the string would be read as a word were it not quoted. */
+export function isUnquotable(text: string): boolean {
+  if (text.length === 0 || numberRegex.test(text)) {
+    return false;
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    if (!isValidWordCharacter(text.charCodeAt(i))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function createEdit(startLine: number, startCharacter: number, endLine: number,
+  endCharacter: number, newText: string): TextEdit {
+
+  return {
+    range: {
+      start: { line: startLine, character: startCharacter },
+      end: { line: endLine, character: endCharacter }
+    },
+    newText
+  };
+}
@@ -0,0 +1,285 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { assertUnreachable } from "../helpers";
+import { Position, Range } from "../types";
+import { parseFilterLines } from "./filter";
+import { BlockNode, FilterNode, isBlockNode, Node, NodeType, RuleNode } from "./nodes";
+
+/** A change to the text of an item filter, such as one from `TextDocumentChangeEvent`. */
+export interface TextChange {
+  /** The range of the replaced text, relative to the text prior to the change. */
+  range: Range;
+
+  /** The text replacing the range. */
+  text: string;
+}
+
+/** The result of incrementally reparsing an item filter. */
+export interface FilterReparseResult {
+  /** The root node of the syntax tree for the entire item filter. */
+  root: FilterNode;
+
+  /** A filter node containing only those nodes which were reparsed. */
+  reparsed: FilterNode;
+
+  /** The first reparsed line, which is the same line within both versions of the text. */
+  startLine: number;
+
+  /** The line ending the reparsed lines within the previous text, exclusive. */
+  previousEndLine: number;
+
+  /** The number of lines added by the changes, which is negative for removals. */
+  lineDelta: number;
+}
+
+/** A result produced for a node, such as a diagnostic, which may have related ranges. */
+interface NodeResult {
+  range: Range;
+
+  /** Other ranges related to the result, which fall within the same node. */
+  relatedInformation?: Array<{ range: Range }>;
+}
+
+/** The lines affected by a set of changes. */
+interface DirtyLines {
+  /** The first affected line, which is the same within both versions of the text. */
+  start: number;
+
+  /** The line ending the affected lines within the previous text, exclusive. */
+  previousEnd: number;
+
+  /** The line ending the affected lines within the current text, exclusive. */
+  end: number;
+}
+
+/**
+ * Reparses only the blocks affected by the given changes, reusing the nodes
+ * of the previous syntax tree for everything else.
+ *
+ * The resulting syntax tree is identical to the one produced by a full parse
+ * of the current text.
+ * @param previous The root node of the syntax tree for the previous text.
+ * @param text The full text of the item filter, with each change applied.
+ * @param changes The changes made to the previous text, in the order they were applied.
+ * @return The result of the reparse.
+ */
+export function reparseFilter(previous: FilterNode, text: string,
+  changes: ReadonlyArray<TextChange>): FilterReparseResult {
+
+  const dirtyLines = getDirtyLines(changes);
+  if (!dirtyLines) {
+    return {
+      root: previous,
+      reparsed: parseFilterLines(text, 0, 0),
+      startLine: 0,
+      previousEndLine: 0,
+      lineDelta: 0
+    };
+  }
+
+  const children = previous.children;
+  const lineDelta = dirtyLines.end - dirtyLines.previousEnd;
+
+  // A block keyword resets the state of the parse, so the affected lines are
+  // expanded outwards to the nearest unaffected block keywords. The keyword
+  // beginning the preceding block is included, as a change to the keyword
+  // following it could merge the two blocks together.
+  let startIndex = 0;
+  for (let i = children.length - 1; i >= 0; i--) {
+    const child = children[i];
+
+    if (isBlockNode(child) && child.range.start.line < dirtyLines.start) {
+      startIndex = i;
+      break;
+    }
+  }
+
+  let endIndex = children.length;
+  for (let i = startIndex; i < children.length; i++) {
+    const child = children[i];
+
+    if (isBlockNode(child) && child.range.start.line >= dirtyLines.previousEnd) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  const startLine = startIndex === 0 ? 0 : children[startIndex].range.start.line;
+  const reachesEnd = endIndex === children.length;
+  const previousEndLine = reachesEnd ? previous.range.end.line + 1 :
+    children[endIndex].range.start.line;
+
+  const reparsed = parseFilterLines(text, startLine,
+    reachesEnd ? undefined : previousEndLine + lineDelta);
+
+  let followingChildren = children.slice(endIndex);
+  if (lineDelta !== 0) {
+    followingChildren = followingChildren.map(c => shiftNode(c, lineDelta));
+  }
+
+  const root: FilterNode = {
+    type: NodeType.Filter,
+    range: {
+      start: { line: 0, character: 0 },
+      end: reachesEnd ? { ...reparsed.range.end } : shiftPosition(previous.range.end, lineDelta)
+    },
+    children: [
+      ...children.slice(0, startIndex),
+      ...reparsed.children,
+      ...followingChildren
+    ]
+  };
+
+  return { root, reparsed, startLine, previousEndLine, lineDelta };
+}
+
+/**
+ * Splices the results produced for the reparsed nodes into the results of the
+ * previous parse, such as its diagnostics.
+ *
+ * Each result is expected to fall within the lines of the node that produced
+ * it, along with any of its related ranges, with the results being ordered by
+ * those nodes.
+ * @param previous The results produced for the previous syntax tree.
+ * @param reparsed The results produced for the reparsed nodes.
+ * @param reparse The result of the reparse.
+ * @return The results for the current syntax tree.
+ */
+export function spliceResults<T extends NodeResult>(previous: T[], reparsed: T[],
+  reparse: FilterReparseResult): T[] {
+
+  const preceding = previous.filter(r => r.range.start.line < reparse.startLine);
+  const following = previous.filter(r => r.range.start.line >= reparse.previousEndLine);
+
+  return [
+    ...preceding,
+    ...reparsed,
+    ...(reparse.lineDelta === 0 ? following :
+      following.map(r => shiftResult(r, reparse.lineDelta)))
+  ];
+}
+
+/**
+ * Determines the lines affected by each change. Later changes are relative to
+ * the text resulting from the earlier ones, so the affected lines are tracked
+ * within both versions of the text as each change is applied.
+ */
+function getDirtyLines(changes: ReadonlyArray<TextChange>): DirtyLines | undefined {
+  let result: DirtyLines | undefined;
+
+  for (const change of changes) {
+    const changeStart = change.range.start.line;
+    const changeEnd = change.range.end.line + 1;
+    const lineDelta = countLineBreaks(change.text) - (changeEnd - changeStart - 1);
+
+    if (result) {
+      // Lines preceding the affected lines are unchanged, while lines
+      // following them have been offset by the earlier changes.
+      const offset = result.end - result.previousEnd;
+      const previousEnd = changeEnd > result.end ? changeEnd - offset : result.previousEnd;
+
+      result = {
+        start: Math.min(result.start, changeStart),
+        previousEnd,
+        end: Math.max(result.end, changeEnd)
+      };
+    } else {
+      result = { start: changeStart, previousEnd: changeEnd, end: changeEnd };
+    }
+
+    result.end += lineDelta;
+  }
+
+  return result;
+}
+
+function countLineBreaks(text: string): number {
+  let count = 0;
+  let index = text.indexOf("\n");
+
+  while (index !== -1) {
+    count++;
+    index = text.indexOf("\n", index + 1);
+  }
+
+  return count;
+}
+
+function shiftPosition(position: Position, lineDelta: number): Position {
+  return { line: position.line + lineDelta, character: position.character };
+}
+
+function shiftRange(range: Range, lineDelta: number): Range {
+  return {
+    start: shiftPosition(range.start, lineDelta),
+    end: shiftPosition(range.end, lineDelta)
+  };
+}
+
+/** Returns a copy of the result and its related ranges, moved by the given number of lines. */
+function shiftResult<T extends NodeResult>(result: T, lineDelta: number): T {
+  const shifted = { ...result, range: shiftRange(result.range, lineDelta) };
+
+  if (result.relatedInformation) {
+    shifted.relatedInformation = result.relatedInformation.map(i =>
+      ({ ...i, range: shiftRange(i.range, lineDelta) }));
+  }
+
+  return shifted;
+}
+
+/** Returns a copy of the node moved by the given number of lines. */
+function shiftNode(node: FilterNode["children"][number], lineDelta: number):
+  FilterNode["children"][number] {
+
+  switch (node.type) {
+    case NodeType.Block:
+      return shiftBlock(node, lineDelta);
+    case NodeType.Rule:
+      return shiftRule(node, lineDelta);
+    case NodeType.Comment:
+    case NodeType.Text:
+      return shiftToken(node, lineDelta);
+    default:
+      return assertUnreachable(node);
+  }
+}
+
+function shiftBlock(block: BlockNode, lineDelta: number): BlockNode {
+  const result: BlockNode = {
+    ...block,
+    range: shiftRange(block.range, lineDelta),
+    keyword: shiftToken(block.keyword, lineDelta),
+    children: block.children.map(c => c.type === NodeType.Rule ?
+      shiftRule(c, lineDelta) : shiftToken(c, lineDelta))
+  };
+
+  if (block.trailingText) result.trailingText = shiftToken(block.trailingText, lineDelta);
+  if (block.comment) result.comment = shiftToken(block.comment, lineDelta);
+
+  return result;
+}
+
+function shiftRule(rule: RuleNode, lineDelta: number): RuleNode {
+  const result: RuleNode = {
+    ...rule,
+    range: shiftRange(rule.range, lineDelta),
+    keyword: shiftToken(rule.keyword, lineDelta),
+    values: rule.values.map(v => shiftToken(v, lineDelta))
+  };
+
+  if (rule.operator) result.operator = shiftToken(rule.operator, lineDelta);
+  if (rule.trailingText) result.trailingText = shiftToken(rule.trailingText, lineDelta);
+  if (rule.comment) result.comment = shiftToken(rule.comment, lineDelta);
+
+  return result;
+}
+
+/** Returns a copy of a node without any child nodes, moved by the given number of lines. */
+function shiftToken<T extends Node>(node: T, lineDelta: number): T {
+  return Object.assign({}, node, { range: shiftRange(node.range, lineDelta) });
+}
@@ -5,5 +5,17 @@
  * ===========================================================================*/
 
 export * from "./character-codes";
+export * from "./filter";
+export * from "./folding";
+export * from "./formatting";
+export * from "./incremental";
+export * from "./inputs";
+export * from "./nodes";
+export * from "./outline";
+export * from "./quick-fixes";
+export * from "./rename";
+export * from "./semantic-tokens";
+export * from "./signatures";
+export * from "./suggestions";
 export * from "./tokens";
-export * from "./tokens";
+export * from "./validation";
@@ -44,6 +44,8 @@ export type Value = IntegerValue | WordValue | ComprisedWordValue;
 
 /** A parameter for an item filter rule. */
 export interface Parameter {
+  /** The name of this parameter, as shown in signature help. */
+  name: string;
   /** A description of this parameter. */
   description: string;
   /** Whether this is a reoccurring parameter for this rule. */
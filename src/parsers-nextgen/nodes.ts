@@ -0,0 +1,184 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { FilterOperator, Range } from "../types";
+
+/** The type of a node within the syntax tree of an item filter. */
+export const enum NodeType {
+  Filter = "Filter",
+  Block = "Block",
+  Rule = "Rule",
+  Keyword = "Keyword",
+  Operator = "Operator",
+  Number = "Number",
+  Boolean = "Boolean",
+  Word = "Word",
+  String = "String",
+  Comment = "Comment",
+  Text = "Text",
+  Whitespace = "Whitespace",
+  LineBreak = "LineBreak"
+}
+
+/** The properties shared by every node within the syntax tree. */
+export interface Node {
+  /** The type of this node. */
+  type: NodeType;
+
+  /** The range of the text represented by this node. */
+  range: Range;
+}
+
+/** A node representing a single token of text. */
+export interface TokenNode extends Node {
+  /** The original text of the token, including any quotation marks. */
+  text: string;
+}
+
+/** The keyword at the start of a block or rule, such as `Show` or `BaseType`. */
+export interface KeywordNode extends TokenNode {
+  type: NodeType.Keyword;
+}
+
+/** An operator following the keyword of a rule, such as `>=`. */
+export interface OperatorNode extends TokenNode {
+  type: NodeType.Operator;
+
+  /** The operator represented by the text. */
+  value: FilterOperator;
+}
+
+/** A number value, such as the `75` in `ItemLevel >= 75`. */
+export interface NumberNode extends TokenNode {
+  type: NodeType.Number;
+
+  /** The numerical value of the token. */
+  value: number;
+}
+
+/** A boolean value, either `True` or `False`, optionally surrounded by quotation marks. */
+export interface BooleanNode extends TokenNode {
+  type: NodeType.Boolean;
+
+  /** The boolean value of the token. */
+  value: boolean;
+
+  /** Whether the value was surrounded by quotation marks. */
+  quoted: boolean;
+}
+
+/** A word value not surrounded by quotation marks, such as `Rare`. */
+export interface WordNode extends TokenNode {
+  type: NodeType.Word;
+
+  /** The value of the word. */
+  value: string;
+}
+
+/** A value surrounded by quotation marks, such as `"Chaos Orb"`. */
+export interface StringNode extends TokenNode {
+  type: NodeType.String;
+
+  /** The value of the string, with the quotation marks removed. */
+  value: string;
+}
+
+/** A comment, which consumes the remainder of the line. */
+export interface CommentNode extends TokenNode {
+  type: NodeType.Comment;
+
+  /** The text of the comment, with the leading hash and surrounding whitespace removed. */
+  value: string;
+}
+
+/** Text that could not be interpreted as any other node. */
+export interface TextNode extends TokenNode {
+  type: NodeType.Text;
+}
+
+/** A run of whitespace on a single line. */
+export interface WhitespaceNode extends TokenNode {
+  type: NodeType.Whitespace;
+}
+
+/** A line break, being either LF or CRLF. */
+export interface LineBreakNode extends TokenNode {
+  type: NodeType.LineBreak;
+}
+
+/** A value for a rule. */
+export type ValueNode = NumberNode | BooleanNode | WordNode | StringNode;
+
+/** A rule within a block, such as `BaseType "Chaos Orb"`. */
+export interface RuleNode extends Node {
+  type: NodeType.Rule;
+
+  /** The keyword of the rule. */
+  keyword: KeywordNode;
+
+  /** The operator following the keyword, if any. */
+  operator?: OperatorNode;
+
+  /** Each value provided to the rule, in order of appearance. */
+  values: ValueNode[];
+
+  /** Text following the values that could not be interpreted as a value. */
+  trailingText?: TextNode;
+
+  /** The comment concluding the line, if any. */
+  comment?: CommentNode;
+}
+
+/** A block, such as `Show`, along with each line up to the next block. */
+export interface BlockNode extends Node {
+  type: NodeType.Block;
+
+  /** The keyword of the block. */
+  keyword: KeywordNode;
+
+  /** Any text following the keyword on the same line. */
+  trailingText?: TextNode;
+
+  /** The comment concluding the keyword's line, if any. */
+  comment?: CommentNode;
+
+  /** The rules, comments, and unreadable lines contained within the block. */
+  children: Array<RuleNode | CommentNode | TextNode>;
+}
+
+/**
+ * The root of the syntax tree for an item filter.
+ *
+ * Comments following the final rule of a block are considered part of the
+ * filter itself, as they generally describe the next block or section.
+ */
+export interface FilterNode extends Node {
+  type: NodeType.Filter;
+
+  /** The blocks within the filter, along with any lines falling outside of a block. */
+  children: Array<BlockNode | RuleNode | CommentNode | TextNode>;
+}
+
+/** Determines whether the given node is a block node. */
+export function isBlockNode(node: Node): node is BlockNode {
+  return node.type === NodeType.Block;
+}
+
+/** Determines whether the given node is a rule node. */
+export function isRuleNode(node: Node): node is RuleNode {
+  return node.type === NodeType.Rule;
+}
+
+/** Determines whether the given node is a comment node. */
+export function isCommentNode(node: Node): node is CommentNode {
+  return node.type === NodeType.Comment;
+}
+
+/** Determines whether the given node is a value node. */
+export function isValueNode(node: Node): node is ValueNode {
+  return node.type === NodeType.Number || node.type === NodeType.Boolean ||
+    node.type === NodeType.Word || node.type === NodeType.String;
+}
@@ -0,0 +1,220 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Range } from "../types";
+import {
+  BlockNode, CommentNode, FilterNode, isBlockNode, isCommentNode, isRuleNode, NodeType
+} from "./nodes";
+
+/**
+ * A section of an item filter, introduced by a header comment such as the
+ * following, where the line of equal signs may instead be one of hyphens.
+ *
+ * ```
+ * #===========================
+ * # Currency
+ * #===========================
+ * ```
+ */
+export interface FilterSection {
+  /** The title of the section, taken from its header comment. */
+  name: string;
+
+  /**
+   * The level of the header, being 1 for those using equal signs and 2 for
+   * those using hyphens. Sections may only contain those with a higher level.
+   */
+  level: number;
+
+  /** The range of the header comments. */
+  headerRange: Range;
+
+  /** The range from the start of the header to the end of the last node within the section. */
+  range: Range;
+
+  /** The sections and blocks within this section, in the order they appear. */
+  children: OutlineNode[];
+}
+
+/** An entry within the outline of an item filter. */
+export type OutlineNode = FilterSection | BlockNode;
+
+/** The header of a section, prior to determining which nodes it contains. */
+interface SectionHeader {
+  name: string;
+  level: number;
+  range: Range;
+
+  /** The number of top-level nodes making up the header. */
+  length: number;
+}
+
+const rulerRegex = /^([=-])\1{2,}$/;
+const inlineHeaderRegex = /^([=-])\1{2,}\s*(.+?)\s*\1{3,}$/;
+const maxBlockNameLength = 60;
+
+/** Determines whether the given outline node is a section. */
+export function isFilterSection(node: OutlineNode): node is FilterSection {
+  return (<BlockNode>node).type !== NodeType.Block;
+}
+
+/**
+ * Returns the outline of the item filter, which nests each block within the
+ * section containing it.
+ * @param root The root node of the syntax tree for the item filter.
+ * @return The sections and blocks outside of any section, in the order they appear.
+ */
+export function getFilterOutline(root: FilterNode): OutlineNode[] {
+  const result: OutlineNode[] = [];
+  const openSections: FilterSection[] = [];
+  const children = root.children;
+
+  const addNode = (node: OutlineNode) => {
+    const parent = openSections[openSections.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      result.push(node);
+    }
+  };
+
+  for (let i = 0; i < children.length; i++) {
+    const node = children[i];
+
+    if (isBlockNode(node)) {
+      addNode(node);
+      continue;
+    } else if (!isCommentNode(node)) {
+      continue;
+    }
+
+    const header = getSectionHeader(children, i);
+    if (!header) continue;
+
+    while (openSections.length > 0 && openSections[openSections.length - 1].level >=
+      header.level) {
+      openSections.pop();
+    }
+
+    const section: FilterSection = {
+      name: header.name,
+      level: header.level,
+      headerRange: header.range,
+      range: header.range,
+      children: []
+    };
+
+    addNode(section);
+    openSections.push(section);
+    i += header.length - 1;
+  }
+
+  // Each section ends with its last descendant, which is only known once
+  // every node has been added.
+  const extend = (nodes: OutlineNode[]): void => {
+    for (const node of nodes) {
+      if (!isFilterSection(node)) continue;
+
+      extend(node.children);
+      const last = node.children[node.children.length - 1];
+      if (last) {
+        node.range = { start: node.range.start, end: last.range.end };
+      }
+    }
+  };
+
+  extend(result);
+  return result;
+}
+
+/**
+ * Returns the name of a block, being its trailing comment when it has one,
+ * otherwise the values of its `Class` and `BaseType` conditions.
+ * @param block The node for the block.
+ * @return The name, which is the keyword of the block when nothing else is available.
+ */
+export function getBlockName(block: BlockNode): string {
+  if (block.comment && block.comment.value.length > 0) {
+    return block.comment.value;
+  }
+
+  const parts: string[] = [];
+  for (const child of block.children) {
+    if (!isRuleNode(child)) continue;
+
+    const keyword = child.keyword.text;
+    if (keyword === "Class" || keyword === "BaseType") {
+      parts.push(child.values.map(v => v.type === NodeType.Number ||
+        v.type === NodeType.Boolean ? v.text : v.value).join(", "));
+    }
+  }
+
+  const name = parts.filter(p => p.length > 0).join(" / ");
+  if (name.length === 0) {
+    return block.keyword.text;
+  }
+
+  return name.length > maxBlockNameLength ? `${name.slice(0, maxBlockNameLength - 1)}…` : name;
+}
+
+/**
+ * Reads the section header beginning with the comment at the given index,
+ * which is either a ruler followed by the title and optionally another ruler,
+ * or a single comment with the title surrounded by equal signs or hyphens.
+ */
+function getSectionHeader(children: FilterNode["children"], index: number):
+  SectionHeader | undefined {
+
+  const first = <CommentNode>children[index];
+  const rulerMatch = rulerRegex.exec(first.value);
+
+  if (!rulerMatch) {
+    const inlineMatch = inlineHeaderRegex.exec(first.value);
+    return inlineMatch ? {
+      name: inlineMatch[2],
+      level: getHeaderLevel(inlineMatch[1]),
+      range: first.range,
+      length: 1
+    } : undefined;
+  }
+
+  // The title is made up of the comments on the lines following the ruler.
+  const titleLines: string[] = [];
+  let last = first;
+  let length = 1;
+
+  for (let i = index + 1; i < children.length; i++) {
+    const node = children[i];
+    if (!isCommentNode(node) || node.range.start.line !== last.range.start.line + 1) {
+      break;
+    }
+
+    last = node;
+    length++;
+
+    if (node.value === first.value || rulerRegex.test(node.value)) {
+      break;
+    }
+
+    titleLines.push(node.value);
+  }
+
+  const name = titleLines.find(l => l.length > 0);
+  if (name === undefined) {
+    return undefined;
+  }
+
+  return {
+    name,
+    level: getHeaderLevel(rulerMatch[1]),
+    range: { start: first.range.start, end: last.range.end },
+    length
+  };
+}
+
+function getHeaderLevel(rulerCharacter: string): number {
+  return rulerCharacter === "=" ? 1 : 2;
+}
@@ -0,0 +1,131 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { DiagnosticCode, Position, Range, TextEdit } from "../types";
+import { FilterNode, isBlockNode, isRuleNode, NodeType, RuleNode } from "./nodes";
+import { FilterValidator, ValidationOptions } from "./validation";
+
+/** An edit fixing the issue identified by a diagnostic. */
+export interface QuickFix {
+  /** A short description of the edit, such as `Remove the operator`. */
+  title: string;
+
+  edit: TextEdit;
+}
+
+/** The maximum number of replacements offered for an unknown keyword or invalid value. */
+const maxSuggestions = 3;
+
+/**
+ * Returns the edits fixing the issue identified by a diagnostic, if it's one
+ * we know how to fix.
+ * @param root The root node of the syntax tree for the item filter, which must
+ * be parsed from its current text, as the edits apply to exactly that text.
+ * @param code The code of the diagnostic.
+ * @param start The start of the range of the diagnostic.
+ * @param validator The validator used to suggest replacements.
+ * @param options The options to use during validation.
+ * @param eol The sequence ending each line of the item filter.
+ * @return The fixes, ordered from the most to the least likely.
+ */
+export function getQuickFixes(root: FilterNode, code: DiagnosticCode, start: Position,
+  validator: FilterValidator, options: ValidationOptions, eol: string): QuickFix[] {
+
+  const rule = findRule(root, start.line);
+  if (!rule) return [];
+
+  const result: QuickFix[] = [];
+  const fix = (title: string, range: Range, newText: string) =>
+    result.push({ title, edit: { range, newText } });
+
+  switch (code) {
+    case DiagnosticCode.DuplicateValue: {
+      const index = findValueIndex(rule, start);
+      if (index < 1) break;
+
+      fix("Remove the duplicate value", {
+        start: rule.values[index - 1].range.end,
+        end: rule.values[index].range.end
+      }, "");
+      break;
+    }
+    case DiagnosticCode.InvalidValue: {
+      const index = findValueIndex(rule, start);
+      if (index < 0) break;
+
+      const value = rule.values[index];
+      const text = value.type === NodeType.Word || value.type === NodeType.String ?
+        value.value : value.text;
+      const suggestions = validator.suggestValues(rule.keyword.text, index, text, options,
+        maxSuggestions);
+
+      // Quoted values stay quoted, even when the suggestion has no whitespace.
+      for (const suggestion of suggestions) {
+        const quoted = value.type === NodeType.String || /\s/.test(suggestion);
+        fix(`Replace with '${suggestion}'`, value.range, quoted ? `"${suggestion}"` : suggestion);
+      }
+      break;
+    }
+    case DiagnosticCode.ValueOutOfRange: {
+      const index = findValueIndex(rule, start);
+      const valueRange = validator.getValueRange(rule.keyword.text, index);
+      if (index < 0 || !valueRange) break;
+
+      const value = rule.values[index];
+      const number = parseInt(value.type === NodeType.String ? value.value : value.text, 10);
+      if (isNaN(number)) break;
+
+      const clamped = Math.min(Math.max(number, valueRange.min), valueRange.max);
+      fix(`Change to ${clamped}`, value.range, String(clamped));
+      break;
+    }
+    case DiagnosticCode.UnknownKeyword:
+      for (const suggestion of validator.suggestKeywords(rule.keyword.text, maxSuggestions)) {
+        fix(`Replace with '${suggestion}'`, rule.keyword.range, suggestion);
+      }
+      break;
+    case DiagnosticCode.IgnoredOperator:
+    case DiagnosticCode.UnexpectedOperator: {
+      if (!rule.operator) break;
+
+      const end = rule.values.length > 0 ? rule.values[0].range.start :
+        rule.operator.range.end;
+      fix("Remove the operator", { start: rule.operator.range.start, end }, "");
+      break;
+    }
+    case DiagnosticCode.RuleOutsideBlock: {
+      const lineStart = { line: rule.range.start.line, character: 0 };
+      fix("Wrap within a new Show block", { start: lineStart, end: lineStart }, `Show${eol}`);
+      break;
+    }
+  }
+
+  return result;
+}
+
+/** Returns the rule on the given line, whether it's within a block or not. */
+function findRule(root: FilterNode, line: number): RuleNode | undefined {
+  for (const node of root.children) {
+    if (node.range.start.line > line) {
+      break;
+    } else if (isRuleNode(node) && node.range.start.line === line) {
+      return node;
+    } else if (isBlockNode(node) && node.range.end.line >= line) {
+      for (const child of node.children) {
+        if (isRuleNode(child) && child.range.start.line === line) {
+          return child;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/** Returns the index of the value of the rule starting at the given position. */
+function findValueIndex(rule: RuleNode, start: Position): number {
+  return rule.values.findIndex(v => v.range.start.character === start.character);
+}
@@ -0,0 +1,104 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Position, Range, TextEdit } from "../types";
+import { isUnquotable } from "./formatting";
+import { FilterNode, isBlockNode, isRuleNode, NodeType, RuleNode, ValueNode } from "./nodes";
+
+/** A value naming an item class, item base, prophecy, or mod, which may be renamed. */
+export interface RenameTarget {
+  /** The keyword of the rule containing the value. */
+  keyword: string;
+
+  /** The text of the value, without any quotation marks. */
+  text: string;
+
+  /** The range of the value, including any quotation marks. */
+  range: Range;
+}
+
+const renameableKeywords = ["Class", "BaseType", "Prophecy", "HasExplicitMod"];
+
+/**
+ * Returns the value at the given position, if it's one which may be renamed.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param position The position of the value, which may be at either end of it.
+ */
+export function getRenameTarget(root: FilterNode, position: Position): RenameTarget | undefined {
+  for (const node of root.children) {
+    if (node.range.start.line > position.line) {
+      break;
+    } else if (node.range.end.line < position.line) {
+      continue;
+    }
+
+    const rules = isBlockNode(node) ? node.children.filter(isRuleNode) :
+      isRuleNode(node) ? [node] : [];
+
+    for (const rule of rules) {
+      if (rule.range.start.line !== position.line ||
+        !renameableKeywords.includes(rule.keyword.text)) {
+        continue;
+      }
+
+      for (const value of rule.values) {
+        const { start, end } = value.range;
+        if (start.character <= position.character && end.character >= position.character) {
+          return { keyword: rule.keyword.text, text: getText(value), range: value.range };
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the edits renaming each occurrence of a value within the item filter.
+ *
+ * Only values identical to the renamed value are changed, as the conditions of
+ * a filter match any item containing a value, rather than being equal to it.
+ * A value such as `Orb` matching part of the renamed `Chaos Orb` continues to
+ * match other items, so renaming it along with `Chaos Orb` would change which
+ * items the filter catches.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param target The value being renamed, from any item filter.
+ * @param newText The new text of the value, without any quotation marks.
+ * @return The edits, ordered by their position.
+ */
+export function getRenameEdits(root: FilterNode, target: RenameTarget, newText: string):
+  TextEdit[] {
+
+  const result: TextEdit[] = [];
+
+  const addRuleEdits = (rule: RuleNode) => {
+    if (rule.keyword.text !== target.keyword) return;
+
+    for (const value of rule.values) {
+      if (getText(value) !== target.text) continue;
+
+      const quoted = value.type === NodeType.String || !isUnquotable(newText);
+      result.push({ range: value.range, newText: quoted ? `"${newText}"` : newText });
+    }
+  };
+
+  for (const node of root.children) {
+    if (isBlockNode(node)) {
+      for (const child of node.children) {
+        if (isRuleNode(child)) addRuleEdits(child);
+      }
+    } else if (isRuleNode(node)) {
+      addRuleEdits(node);
+    }
+  }
+
+  return result;
+}
+
+function getText(value: ValueNode): string {
+  return value.type === NodeType.Word || value.type === NodeType.String ? value.value :
+    value.text;
+}
@@ -0,0 +1,160 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { Diagnostic, DiagnosticSeverity, Range } from "../types";
+import { FilterNode, isBlockNode, isRuleNode, NodeType, RuleNode, ValueNode } from "./nodes";
+import { FilterValidator, ValidationOptions } from "./validation";
+
+/** The type of a semantic token, each of which is either standard or contributed by us. */
+export const enum SemanticTokenType {
+  /** The keyword of a block, such as `Show`. */
+  Keyword = "keyword",
+
+  /** The keyword of a rule, such as `BaseType`. */
+  Rule = "rule",
+
+  Operator = "operator",
+  Number = "number",
+
+  /** A value naming an item, mod, or file, whether or not it's quoted. */
+  String = "string",
+
+  /** A value chosen from a fixed set, such as `Rare` or `True`. */
+  EnumMember = "enumMember",
+
+  /** A component of a color, such as those of a `SetTextColor` rule. */
+  Color = "color",
+
+  /** The identifier of an alert sound, or the path to a custom alert sound. */
+  Sound = "sound"
+}
+
+/** A modifier of a semantic token, each of which is contributed by us. */
+export const enum SemanticTokenModifier {
+  /** The text is invalid, such as an unknown keyword or item base. */
+  Invalid = "invalid",
+
+  /** The text is only valid due to one of the whitelists of the user. */
+  Whitelisted = "whitelisted"
+}
+
+/** Every token type, in the order used by the legend of the provider. */
+export const semanticTokenTypes: SemanticTokenType[] = [
+  SemanticTokenType.Keyword,
+  SemanticTokenType.Rule,
+  SemanticTokenType.Operator,
+  SemanticTokenType.Number,
+  SemanticTokenType.String,
+  SemanticTokenType.EnumMember,
+  SemanticTokenType.Color,
+  SemanticTokenType.Sound
+];
+
+/** Every token modifier, in the order used by the legend of the provider. */
+export const semanticTokenModifiers: SemanticTokenModifier[] = [
+  SemanticTokenModifier.Invalid,
+  SemanticTokenModifier.Whitelisted
+];
+
+/** A single token of text, classified by its meaning within the item filter. */
+export interface SemanticToken {
+  /** The range of the token, which is always on a single line. */
+  range: Range;
+
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+const colorKeywords = ["SetTextColor", "SetBorderColor", "SetBackgroundColor"];
+const soundKeywords = ["PlayAlertSound", "PlayAlertSoundPositional", "CustomAlertSound"];
+const stringKeywords = ["Class", "BaseType", "Prophecy", "HasExplicitMod"];
+
+/**
+ * Classifies each keyword, operator, and value within the item filter.
+ *
+ * Text the validator reports as an error is marked as invalid, which lets it
+ * stand out as it's being typed, rather than once the filter has been parsed
+ * for its diagnostics.
+ * @param root The root node of the syntax tree for the item filter.
+ * @param diagnostics The diagnostics reported by the validator for the syntax tree.
+ * @param validator The validator used to determine which text is whitelisted.
+ * @param options The options used during validation.
+ * @return The tokens, ordered by their position.
+ */
+export function getSemanticTokens(root: FilterNode, diagnostics: ReadonlyArray<Diagnostic>,
+  validator: FilterValidator, options: ValidationOptions): SemanticToken[] {
+
+  const invalidRanges = new Set<string>();
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.severity === DiagnosticSeverity.Error) {
+      invalidRanges.add(getRangeKey(diagnostic.range));
+    }
+  }
+
+  const result: SemanticToken[] = [];
+
+  const addToken = (range: Range, type: SemanticTokenType, whitelisted = false) => {
+    const modifiers: SemanticTokenModifier[] = [];
+    if (invalidRanges.has(getRangeKey(range))) modifiers.push(SemanticTokenModifier.Invalid);
+    if (whitelisted) modifiers.push(SemanticTokenModifier.Whitelisted);
+
+    result.push({ range, type, modifiers });
+  };
+
+  const addRuleTokens = (rule: RuleNode) => {
+    const keyword = rule.keyword.text;
+    addToken(rule.keyword.range, SemanticTokenType.Rule,
+      validator.isWhitelistedKeyword(keyword, options));
+
+    if (rule.operator) {
+      addToken(rule.operator.range, SemanticTokenType.Operator);
+    }
+
+    rule.values.forEach((value, index) => {
+      addToken(value.range, getValueType(keyword, value, index),
+        validator.isWhitelistedValue(keyword, index, value, options));
+    });
+  };
+
+  for (const node of root.children) {
+    if (isBlockNode(node)) {
+      addToken(node.keyword.range, SemanticTokenType.Keyword,
+        validator.isWhitelistedKeyword(node.keyword.text, options));
+
+      for (const child of node.children) {
+        if (isRuleNode(child)) addRuleTokens(child);
+      }
+    } else if (isRuleNode(node)) {
+      addRuleTokens(node);
+    }
+  }
+
+  return result;
+}
+
+function getValueType(keyword: string, value: ValueNode, index: number): SemanticTokenType {
+  if (colorKeywords.includes(keyword)) {
+    return SemanticTokenType.Color;
+  } else if (soundKeywords.includes(keyword) && index === 0) {
+    return SemanticTokenType.Sound;
+  } else if (stringKeywords.includes(keyword)) {
+    return SemanticTokenType.String;
+  }
+
+  switch (value.type) {
+    case NodeType.Number:
+      return SemanticTokenType.Number;
+    case NodeType.String:
+      return SemanticTokenType.String;
+    default:
+      return SemanticTokenType.EnumMember;
+  }
+}
+
+function getRangeKey(range: Range): string {
+  return `${range.start.line}:${range.start.character}:${range.end.line}:` +
+    `${range.end.character}`;
+}
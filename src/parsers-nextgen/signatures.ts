@@ -0,0 +1,89 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { parseFilter } from "./filter";
+import { FilterParseData } from "./inputs";
+import { isRuleNode } from "./nodes";
+import { describeParameter } from "./validation";
+
+/** The signature of a rule, listing each of its positional parameters. */
+export interface RuleSignature {
+  /** The keyword followed by the name of each parameter, such as `PlayEffect color [Temp]`. */
+  label: string;
+
+  /** The first paragraph of the description for the rule. */
+  documentation: string;
+
+  parameters: ParameterSignature[];
+
+  /** The index of the parameter being typed. */
+  activeParameter: number;
+}
+
+export interface ParameterSignature {
+  /** The start and end offsets of the name of the parameter within the signature's label. */
+  label: [number, number];
+
+  /** A description of the parameter and its valid values. */
+  documentation: string;
+}
+
+/**
+ * Returns the signature of the rule being typed on a line, for rules taking
+ * several positional parameters, such as `MinimapIcon` or `SetBorderColor`.
+ *
+ * Only the text preceding the cursor is parsed, with the parameter being typed
+ * being the one following the last complete value.
+ * @param lineText The full text of the line.
+ * @param character The offset of the cursor within the line.
+ * @param parseData The rules supported within item filters.
+ * @return The signature, or undefined if the cursor isn't within the values of such a rule.
+ */
+export function getRuleSignature(lineText: string, character: number,
+  parseData: FilterParseData): RuleSignature | undefined {
+
+  const [rule] = parseFilter(lineText.slice(0, character)).children;
+  if (!rule || !isRuleNode(rule) || rule.comment ||
+    rule.keyword.range.end.character >= character) {
+    return undefined;
+  }
+
+  const ruleData = parseData.rules.find(r => r.keyword === rule.keyword.text);
+  if (!ruleData || ruleData.parameters.length < 2) return undefined;
+
+  let activeParameter = rule.values.length;
+  const lastValue = rule.values[rule.values.length - 1];
+  if (!rule.trailingText && lastValue && lastValue.range.end.character === character) {
+    activeParameter--;
+  }
+
+  const lastParameter = ruleData.parameters[ruleData.parameters.length - 1];
+  if (activeParameter >= ruleData.parameters.length) {
+    if (!lastParameter.repeating) return undefined;
+    activeParameter = ruleData.parameters.length - 1;
+  }
+
+  let label = ruleData.keyword;
+  const parameters: ParameterSignature[] = [];
+
+  for (const parameter of ruleData.parameters) {
+    label += parameter.optional ? " [" : " ";
+    parameters.push({
+      label: [label.length, label.length + parameter.name.length],
+      documentation: describeParameter(parameter)
+    });
+    label += parameter.name;
+    if (parameter.repeating) label += "...";
+    if (parameter.optional) label += "]";
+  }
+
+  return {
+    label,
+    documentation: ruleData.description.split("\n\n")[0],
+    parameters,
+    activeParameter
+  };
+}
@@ -0,0 +1,201 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+/** A candidate similar to the text being matched. */
+export interface FuzzyMatch {
+  candidate: string;
+
+  /** The number of edits needed to turn the text into the candidate, or part of it. */
+  distance: number;
+}
+
+/**
+ * Finds the candidates most similar to a text, such as the known values most
+ * similar to an invalid value.
+ *
+ * Candidates are sorted by their length, as only those with a length close
+ * to that of the text can be similar to it. Each candidate also has a mask of
+ * the characters it contains, with every character of the text missing from a
+ * candidate requiring an edit. This keeps the matching of a text against
+ * thousands of item bases to around a millisecond, as most are skipped outright
+ * and the remainder stop being compared once too many edits are required.
+ */
+export class FuzzyMatcher {
+  private readonly _candidates: string[];
+  private readonly _normalizedCandidates: string[];
+  private readonly _characterMasks: number[];
+
+  /**
+   * Creates a new matcher.
+   * @param candidates The candidates, with any duplicates being ignored.
+   */
+  constructor(candidates: string[]) {
+    const sorted = [...new Set(candidates)].sort((lha, rha) => lha.length - rha.length);
+
+    this._candidates = sorted;
+    this._normalizedCandidates = sorted.map(c => c.toLowerCase());
+    this._characterMasks = this._normalizedCandidates.map(getCharacterMask);
+  }
+
+  /**
+   * Returns the candidates most similar to the text, ignoring case.
+   * @param text The text, such as an invalid value.
+   * @param limit The maximum number of matches.
+   * @param partial Whether the text may match part of a candidate, as is the
+   * case for values such as `BaseType`, in which case it's compared against
+   * the most similar part of each candidate.
+   * @return The matches, ordered from the most to the least similar. Those
+   * requiring edits to more than a third of the text, or more than one edit
+   * beyond the most similar match, are never returned.
+   */
+  match(text: string, limit: number, partial = false): FuzzyMatch[] {
+    const normalizedText = text.toLowerCase();
+    let maxDistance = getMaxDistance(text);
+    const minLength = text.length - maxDistance;
+    let maxLength = partial ? Infinity : text.length + maxDistance;
+    const textBits = [...normalizedText].map(getCharacterBit);
+    const result: FuzzyMatch[] = [];
+
+    for (let i = this._findFirstIndex(minLength); i < this._candidates.length; i++) {
+      const candidate = this._normalizedCandidates[i];
+      if (candidate.length > maxLength) break;
+
+      const mask = this._characterMasks[i];
+      let missingCharacters = 0;
+      for (const bit of textBits) {
+        if ((mask & bit) === 0) missingCharacters++;
+      }
+
+      if (missingCharacters > maxDistance) continue;
+
+      const distance = getEditDistance(normalizedText, candidate, partial, maxDistance);
+      if (distance <= maxDistance) {
+        result.push({ candidate: this._candidates[i], distance });
+
+        maxDistance = Math.min(maxDistance, distance + 1);
+        maxLength = partial ? Infinity : text.length + maxDistance;
+      }
+    }
+
+    return sortMatches(text, result.filter(m => m.distance <= maxDistance)).slice(0, limit);
+  }
+
+  /** Returns the index of the first candidate with at least the given length. */
+  private _findFirstIndex(length: number): number {
+    let low = 0;
+    let high = this._candidates.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this._candidates[middle].length < length) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+}
+
+/**
+ * Returns the candidates most similar to the text, ignoring case.
+ * @param text The text, such as an invalid value.
+ * @param candidates The valid values.
+ * @param limit The maximum number of suggestions.
+ * @param partial Whether the text may match part of a candidate.
+ * @return The suggestions, ordered from the most to the least similar.
+ */
+export function getSuggestions(text: string, candidates: string[], limit: number,
+  partial = false): string[] {
+
+  return new FuzzyMatcher(candidates).match(text, limit, partial).map(m => m.candidate);
+}
+
+/**
+ * Orders the matches from the most to the least similar, preferring those
+ * closest in length to the text when their distances are equal.
+ * @param text The text the candidates were matched against.
+ * @param matches The matches, which may come from several matchers.
+ * @return The sorted matches.
+ */
+export function sortMatches(text: string, matches: FuzzyMatch[]): FuzzyMatch[] {
+  return matches.sort((a, b) => a.distance - b.distance ||
+    Math.abs(a.candidate.length - text.length) - Math.abs(b.candidate.length - text.length));
+}
+
+/**
+ * Returns the Levenshtein distance between the two strings.
+ * @param a The first string.
+ * @param b The second string.
+ * @param partial Whether to instead return the distance between the first
+ * string and the most similar substring of the second.
+ * @param maxDistance The distance beyond which the comparison may stop, in
+ * which case a larger distance is returned.
+ */
+export function getEditDistance(a: string, b: string, partial = false,
+  maxDistance = Infinity): number {
+
+  let previous: number[] = new Array(b.length + 1);
+  let current: number[] = new Array(b.length + 1);
+
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = partial ? 0 : j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    const character = a.charCodeAt(i - 1);
+    let rowMinimum = i;
+    current[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      let distance = previous[j - 1] + (character === b.charCodeAt(j - 1) ? 0 : 1);
+      if (previous[j] + 1 < distance) distance = previous[j] + 1;
+      if (current[j - 1] + 1 < distance) distance = current[j - 1] + 1;
+
+      current[j] = distance;
+      if (distance < rowMinimum) rowMinimum = distance;
+    }
+
+    // The distance can never decrease with the rows that follow.
+    if (rowMinimum > maxDistance) {
+      return rowMinimum;
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  if (!partial) {
+    return previous[b.length];
+  }
+
+  let result = previous[0];
+  for (const distance of previous) {
+    if (distance < result) result = distance;
+  }
+
+  return result;
+}
+
+/** Returns the largest number of edits allowed for a candidate to be considered similar. */
+function getMaxDistance(text: string): number {
+  return Math.max(1, Math.floor(text.length / 3));
+}
+
+/** Returns a mask with a bit set for each of the characters within the text. */
+function getCharacterMask(text: string): number {
+  let result = 0;
+  for (const character of text) {
+    result |= getCharacterBit(character);
+  }
+
+  return result;
+}
+
+/** Returns the bit representing a character, which may be shared by several characters. */
+function getCharacterBit(character: string): number {
+  return 1 << (character.charCodeAt(0) % 31);
+}
@@ -4,46 +4,51 @@
  * license information.
  * ===========================================================================*/
 
-import { CharacterCodes } from "./index";
-import { Position } from "../types";
+import { CharacterCodes } from "./character-codes";
+import {
+  BooleanNode, CommentNode, KeywordNode, LineBreakNode, NodeType, NumberNode, OperatorNode,
+  StringNode, TextNode, WhitespaceNode, WordNode
+} from "./nodes";
+import { FilterOperator, Position, Range } from "../types";
 
 interface ITokenParser {
   isNumber(): boolean;
-  // consumeNumber(): Node;
+  consumeNumber(): NumberNode;
 
   isBoolean(): boolean;
-  // consumeBoolean(): Node;
+  consumeBoolean(): BooleanNode;
 
   isOperator(): boolean;
-  // consumeOperator(): Node;
+  consumeOperator(): OperatorNode;
 
-  // isWord(): boolean;
-  // consumeWord(): Node;
+  isWord(): boolean;
+  consumeWord(): WordNode;
 
-  // isKeyword(): boolean;
-  // consumeKeyword(): Node;
+  isKeyword(): boolean;
+  consumeKeyword(): KeywordNode;
 
-  // isString(): boolean;
-  // consumeString(): Node;
+  isString(): boolean;
+  consumeString(): StringNode;
 
-  // isWordOrString(): boolean;
-  // consumeWordOrString(): Node;
+  isWordOrString(): boolean;
+  consumeWordOrString(): WordNode | StringNode;
 
-  // isComment(): boolean;
-  // consumeComment(): Node;
+  isComment(): boolean;
+  consumeComment(): CommentNode;
 
-  // isSingleLineWhitespace(): boolean;
-  // consumeSingleLineWhitespace(): Node;
+  isSingleLineWhitespace(): boolean;
+  consumeSingleLineWhitespace(): WhitespaceNode;
 
-  // isLineBreak(): boolean;
-  // consumeLineBreak(): Node;
+  isLineBreak(): boolean;
+  consumeLineBreak(): LineBreakNode;
 
-  // isDisallowedWhitespace(): boolean;
-  // consumeDisallowedWhitespace(): Node;
+  isDisallowedWhitespace(): boolean;
+  consumeDisallowedWhitespace(): TextNode;
 
-  // consumeLine(): Node;
+  consumeLine(): TextNode;
 
-  // isEndOfFile(): void;
+  isEndOfLine(): boolean;
+  isEndOfFile(): boolean;
 }
 
 /**
@@ -164,15 +169,42 @@ export function getCharacterIndexForPosition(text: string, position: Position):
     `max index of '${idx - 1}'`);
 }
 
+/**
+ * Returns the operator represented by the given text, if any.
+ * @param text The text of a potential operator.
+ * @return The operator, or undefined if the text isn't an operator.
+ */
+export function getOperator(text: string): FilterOperator | undefined {
+  switch (text) {
+    case "=":
+      return FilterOperator.Equals;
+    case ">":
+      return FilterOperator.GreaterThan;
+    case ">=":
+      return FilterOperator.GreaterThanEquals;
+    case "<":
+      return FilterOperator.LessThan;
+    case "<=":
+      return FilterOperator.LessThanEquals;
+    default:
+      return undefined;
+  }
+}
+
 /**
  * A high-performance, forward-iterating token parser. This class is designed
  * to facilitate the creation of top-down item filter parsers.
+ *
+ * Each `is` method determines whether the token under the current position is
+ * of the given kind without modifying the state of the parser, while each
+ * `consume` method moves the parser beyond that token. Consuming a token of
+ * the wrong kind will throw.
  */
 export class TokenParser implements ITokenParser {
   private readonly _text: string;
   private readonly _startPosition: Position;
   private readonly _currentPosition: Position;
-  private readonly _characterIndex: number;
+  private _characterIndex: number;
 
   constructor(text: string, position?: Position) {
     this._text = text;
@@ -184,6 +216,14 @@ export class TokenParser implements ITokenParser {
     this._characterIndex = position ? getCharacterIndexForPosition(text, position) : 0;
   }
 
+  /** The current position of the parser within the text. */
+  get position(): Position {
+    return {
+      line: this._currentPosition.line,
+      character: this._currentPosition.character
+    };
+  }
+
   /**
    * Determines whether the token under the current position is a number.
    * @return A boolean indicating whether the next token is a number.
@@ -207,6 +247,18 @@ export class TokenParser implements ITokenParser {
     return true;
   }
 
+  /**
+   * Consumes the number under the current position.
+   * @return A node representing the number.
+   */
+  consumeNumber(): NumberNode {
+    this._expect(this.isNumber(), "number");
+    const [endIdx, text] = this._parseToken() as [number, string];
+    const range = this._advance(endIdx);
+
+    return { type: NodeType.Number, range, text, value: parseInt(text, 10) };
+  }
+
   /**
    * Determines whether the token under the current position is a boolean.
    * @return A boolean indicating whether the next token is a boolean.
@@ -226,6 +278,19 @@ export class TokenParser implements ITokenParser {
     }
   }
 
+  /**
+   * Consumes the boolean under the current position.
+   * @return A node representing the boolean.
+   */
+  consumeBoolean(): BooleanNode {
+    this._expect(this.isBoolean(), "boolean");
+    const [endIdx, text] = this._parseToken() as [number, string];
+    const range = this._advance(endIdx);
+    const quoted = text.charCodeAt(0) === CharacterCodes.doubleQuote;
+
+    return { type: NodeType.Boolean, range, text, value: text.includes("True"), quoted };
+  }
+
   /**
    * Determines whether the token under the current position is an operator.
    * @return A boolean indicating whether the next token is an operator.
@@ -255,19 +320,285 @@ export class TokenParser implements ITokenParser {
   }
 
   /**
-   * Determines whether the token under the current position is a word.
+   * Consumes the operator under the current position.
+   * @return A node representing the operator.
+   */
+  consumeOperator(): OperatorNode {
+    this._expect(this.isOperator(), "operator");
+    const [endIdx, text] = this._parseToken() as [number, string];
+    const range = this._advance(endIdx);
+
+    return { type: NodeType.Operator, range, text, value: getOperator(text) as FilterOperator };
+  }
+
+  /**
+   * Determines whether the token under the current position is a word, which
+   * is an unquoted value consisting only of valid word characters.
    * @return A boolean indicating whether the next token is a word.
    */
-  // isWord(): boolean {
-  //   let result = this._parseToken();
+  isWord(): boolean {
+    const result = this._parseToken();
+
+    if (!result) {
+      return false;
+    }
+
+    const [_, token] = result;
+    for (let i = 0; i < token.length; i++) {
+      if (!isValidWordCharacter(token.charCodeAt(i))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Consumes the word under the current position.
+   * @return A node representing the word.
+   */
+  consumeWord(): WordNode {
+    this._expect(this.isWord(), "word");
+    const [endIdx, text] = this._parseToken() as [number, string];
+    const range = this._advance(endIdx);
+
+    return { type: NodeType.Word, range, text, value: text };
+  }
+
+  /**
+   * Determines whether the token under the current position is a keyword,
+   * which consists solely of alphabetical characters.
+   * @return A boolean indicating whether the next token is a keyword.
+   */
+  isKeyword(): boolean {
+    const result = this._parseToken();
+
+    if (!result) {
+      return false;
+    }
+
+    const [_, token] = result;
+    for (let i = 0; i < token.length; i++) {
+      if (!isAlphabetical(token.charCodeAt(i))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Consumes the keyword under the current position.
+   * @return A node representing the keyword.
+   */
+  consumeKeyword(): KeywordNode {
+    this._expect(this.isKeyword(), "keyword");
+    const [endIdx, text] = this._parseToken() as [number, string];
+    const range = this._advance(endIdx);
+
+    return { type: NodeType.Keyword, range, text };
+  }
+
+  /**
+   * Determines whether the token under the current position is a string, which
+   * is a value surrounded by quotation marks on a single line.
+   * @return A boolean indicating whether the next token is a string.
+   */
+  isString(): boolean {
+    return this._parseString() !== undefined;
+  }
+
+  /**
+   * Consumes the string under the current position.
+   * @return A node representing the string.
+   */
+  consumeString(): StringNode {
+    this._expect(this.isString(), "string");
+    const [endIdx, text] = this._parseString() as [number, string];
+    const range = this._advance(endIdx);
+
+    return { type: NodeType.String, range, text, value: text.slice(1, -1) };
+  }
+
+  /**
+   * Determines whether the token under the current position is either a word
+   * or a string.
+   * @return A boolean indicating whether the next token is a word or string.
+   */
+  isWordOrString(): boolean {
+    return this.isString() || this.isWord();
+  }
+
+  /**
+   * Consumes the word or string under the current position.
+   * @return A node representing the word or string.
+   */
+  consumeWordOrString(): WordNode | StringNode {
+    return this.isString() ? this.consumeString() : this.consumeWord();
+  }
+
+  /**
+   * Determines whether a comment begins at the current position.
+   * @return A boolean indicating whether the next token is a comment.
+   */
+  isComment(): boolean {
+    return this._text.charCodeAt(this._characterIndex) === CharacterCodes.hash;
+  }
+
+  /**
+   * Consumes the comment under the current position, which spans the remainder
+   * of the line. Trailing whitespace is consumed, but excluded from the node.
+   * @return A node representing the comment.
+   */
+  consumeComment(): CommentNode {
+    this._expect(this.isComment(), "comment");
+    const node = this.consumeLine();
+
+    return {
+      type: NodeType.Comment,
+      range: node.range,
+      text: node.text,
+      value: node.text.slice(1).trim()
+    };
+  }
+
+  /**
+   * Determines whether the character under the current position is whitespace
+   * capable of separating tokens.
+   * @return A boolean indicating whether the next character is whitespace.
+   */
+  isSingleLineWhitespace(): boolean {
+    return this._characterIndex < this._text.length &&
+      isTokenSeparatingWhitespace(this._text.charCodeAt(this._characterIndex));
+  }
+
+  /**
+   * Consumes all token separating whitespace from the current position.
+   * @return A node representing the whitespace.
+   */
+  consumeSingleLineWhitespace(): WhitespaceNode {
+    this._expect(this.isSingleLineWhitespace(), "whitespace");
+
+    const startIdx = this._characterIndex;
+    let endIdx = startIdx;
+    while (endIdx < this._text.length &&
+      isTokenSeparatingWhitespace(this._text.charCodeAt(endIdx))) {
+
+      endIdx++;
+    }
+
+    const range = this._advance(endIdx);
+    return { type: NodeType.Whitespace, range, text: this._text.slice(startIdx, endIdx) };
+  }
+
+  /**
+   * Determines whether a line break, being either LF or CRLF, is under the
+   * current position.
+   * @return A boolean indicating whether the next token is a line break.
+   */
+  isLineBreak(): boolean {
+    return this._getLineBreakLength(this._characterIndex) > 0;
+  }
+
+  /**
+   * Consumes the line break under the current position, moving the parser to
+   * the start of the next line.
+   * @return A node representing the line break.
+   */
+  consumeLineBreak(): LineBreakNode {
+    this._expect(this.isLineBreak(), "line break");
 
-  //   if (!result) {
-  //     return false;
-  //   }
+    const length = this._getLineBreakLength(this._characterIndex);
+    const text = this._text.substr(this._characterIndex, length);
+    const range = this._advance(this._characterIndex + length);
 
-  //   let [_, token] = result;
-  //   for ()
-  // }
+    this._currentPosition.line++;
+    this._currentPosition.character = 0;
+
+    return { type: NodeType.LineBreak, range, text };
+  }
+
+  /**
+   * Determines whether the character under the current position is whitespace
+   * disallowed by the client.
+   * @return A boolean indicating whether the next character is disallowed whitespace.
+   */
+  isDisallowedWhitespace(): boolean {
+    return this._characterIndex < this._text.length &&
+      isDisallowedWhitespace(this._text.charCodeAt(this._characterIndex));
+  }
+
+  /**
+   * Consumes all disallowed whitespace from the current position.
+   * @return A node representing the disallowed whitespace.
+   */
+  consumeDisallowedWhitespace(): TextNode {
+    this._expect(this.isDisallowedWhitespace(), "disallowed whitespace");
+
+    const startIdx = this._characterIndex;
+    let endIdx = startIdx;
+    while (endIdx < this._text.length && isDisallowedWhitespace(this._text.charCodeAt(endIdx))) {
+      endIdx++;
+    }
+
+    const range = this._advance(endIdx);
+    return { type: NodeType.Text, range, text: this._text.slice(startIdx, endIdx) };
+  }
+
+  /**
+   * Consumes the remainder of the current line, excluding the line break.
+   * Trailing whitespace is consumed, but excluded from the node.
+   * @return A node representing the text.
+   */
+  consumeLine(): TextNode {
+    let endIdx = this._characterIndex;
+    while (endIdx < this._text.length && this._getLineBreakLength(endIdx) === 0) {
+      endIdx++;
+    }
+
+    return this._consumeTrimmed(endIdx);
+  }
+
+  /**
+   * Consumes the text up to either the end of the current line or the start of
+   * a comment, whichever comes first. Trailing whitespace is consumed, but
+   * excluded from the node.
+   * @return A node representing the text.
+   */
+  consumeText(): TextNode {
+    let endIdx = this._characterIndex;
+    while (endIdx < this._text.length && this._getLineBreakLength(endIdx) === 0) {
+      const ch = this._text.charCodeAt(endIdx);
+      const previous = this._text.charCodeAt(endIdx - 1);
+
+      if (ch === CharacterCodes.hash && endIdx > this._characterIndex &&
+        isTokenSeparatingWhitespace(previous)) {
+
+        break;
+      }
+
+      endIdx++;
+    }
+
+    return this._consumeTrimmed(endIdx);
+  }
+
+  /**
+   * Determines whether the parser has reached either the end of the current
+   * line or the end of the text.
+   * @return A boolean indicating whether the current line has been consumed.
+   */
+  isEndOfLine(): boolean {
+    return this.isEndOfFile() || this.isLineBreak();
+  }
+
+  /**
+   * Determines whether the parser has reached the end of the text.
+   * @return A boolean indicating whether the full text has been consumed.
+   */
+  isEndOfFile(): boolean {
+    return this._characterIndex >= this._text.length;
+  }
 
   /**
    * Attempts to parse a string token from the current position in the text
@@ -278,22 +609,116 @@ export class TokenParser implements ITokenParser {
     const startIdx = this._characterIndex;
     let endIdx = startIdx;
 
-    let token = "";
     while (endIdx < this._text.length) {
       const ch = this._text.charCodeAt(endIdx);
 
-      if (isLineBreakingWhitespace(ch) || isTokenSeparatingWhitespace(ch)) {
+      if (isTokenSeparatingWhitespace(ch) || this._getLineBreakLength(endIdx) > 0) {
         break;
       }
 
-      token += String.fromCharCode(ch);
       endIdx++;
     }
 
-    if (token.length === 0) {
+    if (endIdx === startIdx) {
       return undefined;
     }
 
     return [endIdx, this._text.slice(startIdx, endIdx)];
   }
+
+  /**
+   * Attempts to parse a quoted string from the current position in the text
+   * without modifying the state of the parser. The closing quotation mark must
+   * be followed by either whitespace or the end of the line.
+   * @returns A tuple containing the end index and the string text if a string parsed successfully.
+   */
+  private _parseString(): [number, string] | undefined {
+    const startIdx = this._characterIndex;
+
+    if (this._text.charCodeAt(startIdx) !== CharacterCodes.doubleQuote) {
+      return undefined;
+    }
+
+    let endIdx = startIdx + 1;
+    while (endIdx < this._text.length && this._getLineBreakLength(endIdx) === 0) {
+      if (this._text.charCodeAt(endIdx) === CharacterCodes.doubleQuote) {
+        endIdx++;
+
+        if (endIdx === this._text.length || this._getLineBreakLength(endIdx) > 0 ||
+          isTokenSeparatingWhitespace(this._text.charCodeAt(endIdx))) {
+
+          return [endIdx, this._text.slice(startIdx, endIdx)];
+        } else {
+          return undefined;
+        }
+      }
+
+      endIdx++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the length of the line break at the given index within the text.
+   * @return Either 1 for LF, 2 for CRLF, or 0 if there is no line break.
+   */
+  private _getLineBreakLength(index: number): number {
+    const ch = this._text.charCodeAt(index);
+
+    if (isLineBreakingWhitespace(ch)) {
+      return 1;
+    } else if (ch === CharacterCodes.carriageReturn &&
+      isLineBreakingWhitespace(this._text.charCodeAt(index + 1))) {
+
+      return 2;
+    } else {
+      return 0;
+    }
+  }
+
+  /**
+   * Consumes the text up to the given index, returning a node for that text
+   * with the trailing whitespace removed.
+   */
+  private _consumeTrimmed(endIdx: number): TextNode {
+    const startIdx = this._characterIndex;
+    const start = this.position;
+
+    let trimmedEndIdx = endIdx;
+    while (trimmedEndIdx > startIdx &&
+      isTokenSeparatingWhitespace(this._text.charCodeAt(trimmedEndIdx - 1))) {
+
+      trimmedEndIdx--;
+    }
+
+    this._advance(endIdx);
+
+    const range: Range = {
+      start,
+      end: { line: start.line, character: start.character + trimmedEndIdx - startIdx }
+    };
+
+    return { type: NodeType.Text, range, text: this._text.slice(startIdx, trimmedEndIdx) };
+  }
+
+  /**
+   * Moves the parser forward on the current line to the given index.
+   * @return The range spanning the consumed text.
+   */
+  private _advance(endIdx: number): Range {
+    const start = this.position;
+    this._currentPosition.character += endIdx - this._characterIndex;
+    this._characterIndex = endIdx;
+
+    return { start, end: this.position };
+  }
+
+  /** Throws if the parser is not positioned at the expected token. */
+  private _expect(condition: boolean, description: string): void {
+    if (!condition) {
+      throw new Error(`expected a ${description} at line '${this._currentPosition.line}', ` +
+        `character '${this._currentPosition.character}'`);
+    }
+  }
 }
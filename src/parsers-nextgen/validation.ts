@@ -0,0 +1,747 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { assertUnreachable, getOrdinal, stylizedArrayJoin } from "../helpers";
+import { Diagnostic, DiagnosticCode, DiagnosticSeverity, FilterOperator, Range } from "../types";
+import {
+  Block, ComprisedWordValue, FilterParseData, IntegerValue, Parameter, Rule, Value, WordValue
+} from "./inputs";
+import { BlockNode, FilterNode, NodeType, RuleNode, TextNode, ValueNode } from "./nodes";
+import { FuzzyMatch, FuzzyMatcher, getSuggestions, sortMatches } from "./suggestions";
+
+/**
+ * The values for each reference used within the parse data, keyed by the name
+ * of the reference. A `pick` of `${itemBases}` would use the `itemBases` key.
+ */
+export interface ValueReferences {
+  [name: string]: string[] | undefined;
+}
+
+/** User-provided options for the validation of an item filter. */
+export interface ValidationOptions {
+  /** Keywords that are allowed despite being unknown to the parse data. */
+  ruleWhitelist: string[];
+
+  /** Additional values that are allowed for each rule, keyed by the keyword of that rule. */
+  valueWhitelists: { [keyword: string]: string[] | undefined };
+}
+
+/** The number of similar values suggested within the diagnostic for an invalid value. */
+const maxValueSuggestions = 3;
+
+/** An issue with a single value of a rule. */
+interface ValueIssue {
+  message: string;
+  code: DiagnosticCode;
+}
+
+/**
+ * Validates the syntax tree of an item filter against the parse data
+ * describing each of its blocks and rules.
+ *
+ * Supporting a new rule only requires the addition of that rule to the parse
+ * data, as nothing within the validator is specific to any one rule.
+ */
+export class FilterValidator {
+  private readonly _blocks: Map<string, Block>;
+  private readonly _rules: Map<string, Rule>;
+  private readonly _valueLists: Map<WordValue, ValueList>;
+
+  /**
+   * Creates a new validator.
+   * @param data The parse data describing the blocks and rules of an item filter.
+   * @param references The values for each reference used by the parse data.
+   * Word values referencing anything else will accept any value.
+   */
+  constructor(data: FilterParseData, references: ValueReferences) {
+    this._blocks = new Map();
+    this._rules = new Map();
+    this._valueLists = new Map();
+
+    for (const block of data.blocks) {
+      this._blocks.set(block.keyword, block);
+    }
+
+    for (const rule of data.rules) {
+      this._rules.set(rule.keyword, rule);
+
+      for (const parameter of rule.parameters) {
+        const values = Array.isArray(parameter.value) ? parameter.value : [parameter.value];
+
+        for (const value of values) {
+          if (!isWordValue(value)) continue;
+
+          const pickValues = Array.isArray(value.pick) ? value.pick :
+            references[getReferenceName(value.pick)];
+
+          if (pickValues) {
+            this._valueLists.set(value, new ValueList(pickValues, value.caseSensitive));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Validates each node within the given syntax tree.
+   * @param root The root node of the syntax tree for an item filter.
+   * @param options The options to use during validation.
+   * @return The diagnostics for the item filter.
+   */
+  validate(root: FilterNode, options: ValidationOptions): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const node of root.children) {
+      diagnostics.push(...this.validateNode(node, options));
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Validates a node at the top level of a syntax tree.
+   * @param node A child node of the root node for an item filter.
+   * @param options The options to use during validation.
+   * @return The diagnostics for the node.
+   */
+  validateNode(node: FilterNode["children"][number], options: ValidationOptions):
+    Diagnostic[] {
+
+    switch (node.type) {
+      case NodeType.Block:
+        return this.validateBlock(node, options);
+      case NodeType.Rule:
+        const diagnostics = this.validateRule(node, options);
+
+        if (this._rules.has(node.keyword.text)) {
+          diagnostics.push({
+            message: `Block rule ${node.keyword.text} found outside of a Hide or Show block.`,
+            range: node.range,
+            severity: DiagnosticSeverity.Error,
+            code: DiagnosticCode.RuleOutsideBlock
+          });
+        }
+
+        return diagnostics;
+      case NodeType.Text:
+        return [createUnreadableLineDiagnostic(node)];
+      case NodeType.Comment:
+        return [];
+      default:
+        return assertUnreachable(node);
+    }
+  }
+
+  /**
+   * Validates a block, along with each of the rules contained within it.
+   * @param block The node for the block.
+   * @param options The options to use during validation.
+   * @return The diagnostics for the block.
+   */
+  validateBlock(block: BlockNode, options: ValidationOptions): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const blockData = this._blocks.get(block.keyword.text);
+
+    if (blockData && block.trailingText) {
+      diagnostics.push(createTrailingTextDiagnostic(block.trailingText.range,
+        blockData.trailingText));
+    }
+
+    const occurrences = new Map<string, number>();
+
+    for (const node of block.children) {
+      switch (node.type) {
+        case NodeType.Rule:
+          diagnostics.push(...this.validateRule(node, options));
+
+          const ruleData = this._rules.get(node.keyword.text);
+          if (!ruleData) break;
+
+          const previousOccurrences = occurrences.get(ruleData.keyword) || 0;
+          if (ruleData.blockLimit >= 1 && previousOccurrences >= ruleData.blockLimit) {
+            diagnostics.push({
+              message: `${getOrdinal(previousOccurrences + 1)} occurrence of the` +
+                ` ${ruleData.keyword} rule within a block with a limit of` +
+                ` ${ruleData.blockLimit}.`,
+              range: node.keyword.range,
+              severity: DiagnosticSeverity.Warning,
+              code: DiagnosticCode.RuleLimit
+            });
+          }
+
+          occurrences.set(ruleData.keyword, previousOccurrences + 1);
+          break;
+        case NodeType.Text:
+          diagnostics.push(createUnreadableLineDiagnostic(node));
+          break;
+        case NodeType.Comment:
+          break;
+        default:
+          return assertUnreachable(node);
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Validates the operator and values of a rule.
+   * @param rule The node for the rule.
+   * @param options The options to use during validation.
+   * @return The diagnostics for the rule.
+   */
+  validateRule(rule: RuleNode, options: ValidationOptions): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const keyword = rule.keyword.text;
+    const ruleData = this._rules.get(keyword);
+
+    if (!ruleData) {
+      if (!options.ruleWhitelist.includes(keyword)) {
+        diagnostics.push({
+          message: "Unknown filter keyword.",
+          range: rule.keyword.range,
+          severity: DiagnosticSeverity.Error,
+          code: DiagnosticCode.UnknownKeyword
+        });
+      }
+
+      return diagnostics;
+    }
+
+    this._validateOperator(rule, ruleData, diagnostics);
+    const consumedValues = this._validateParameters(rule, ruleData, options, diagnostics);
+
+    // Trailing text is generally the result of an earlier mistake on the line,
+    // so we only report it when the line is otherwise valid.
+    if (diagnostics.length === 0) {
+      const extraValues = rule.values.slice(consumedValues);
+      const start = extraValues.length > 0 ? extraValues[0] : rule.trailingText;
+      const end = rule.trailingText ? rule.trailingText : extraValues[extraValues.length - 1];
+
+      if (start && end) {
+        const range: Range = { start: { ...start.range.start }, end: { ...end.range.end } };
+        diagnostics.push(createTrailingTextDiagnostic(range, ruleData.trailingText));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /** Validates the operator of a rule, if there is one. */
+  private _validateOperator(rule: RuleNode, ruleData: Rule, diagnostics: Diagnostic[]): void {
+    if (!rule.operator) return;
+
+    switch (ruleData.operator) {
+      case "any":
+        if (rule.operator.value !== FilterOperator.Equals && rule.values.length > 1) {
+          diagnostics.push({
+            message: `Invalid operator for a ${ruleData.keyword} rule providing ` +
+              "multiple values. Only the equals operator is allowed in this context, " +
+              "as other operators are error prone.",
+            range: rule.operator.range,
+            severity: DiagnosticSeverity.Error,
+            code: DiagnosticCode.MultipleValueOperator
+          });
+        }
+        break;
+      case "none":
+        diagnostics.push({
+          message: `An operator for a ${ruleData.keyword} rule will result in an error in-game.`,
+          range: rule.operator.range,
+          severity: DiagnosticSeverity.Error,
+          code: DiagnosticCode.UnexpectedOperator
+        });
+        break;
+      case "ignored":
+        diagnostics.push({
+          message: "This operator is ignored by the client.",
+          range: rule.operator.range,
+          severity: DiagnosticSeverity.Hint,
+          code: DiagnosticCode.IgnoredOperator
+        });
+        break;
+      default:
+        assertUnreachable(ruleData.operator);
+    }
+  }
+
+  /**
+   * Validates the values of a rule against each of its parameters.
+   * @return The number of values consumed by the parameters.
+   */
+  private _validateParameters(rule: RuleNode, ruleData: Rule, options: ValidationOptions,
+    diagnostics: Diagnostic[]): number {
+
+    let index = 0;
+
+    for (const parameter of ruleData.parameters) {
+      const values = parameter.repeating ? rule.values.slice(index) :
+        rule.values.slice(index, index + 1);
+
+      if (values.length === 0) {
+        if (parameter.optional) continue;
+
+        diagnostics.push({
+          message: `Missing value for a ${ruleData.keyword} rule.` +
+            ` ${describeParameter(parameter)}`,
+          range: rule.range,
+          severity: DiagnosticSeverity.Error,
+          code: DiagnosticCode.MissingValue
+        });
+        break;
+      }
+
+      const previousValues: string[] = [];
+
+      for (const value of values) {
+        index++;
+        const text = getValueText(value);
+
+        if (previousValues.includes(text)) {
+          diagnostics.push({
+            message: `Duplicate value detected within a ${ruleData.keyword} rule.`,
+            range: value.range,
+            severity: DiagnosticSeverity.Hint,
+            code: DiagnosticCode.DuplicateValue
+          });
+          continue;
+        }
+
+        previousValues.push(text);
+
+        const issue = this._validateValue(ruleData.keyword, parameter, value, options);
+        if (issue) {
+          diagnostics.push({ ...issue, range: value.range, severity: DiagnosticSeverity.Error });
+        }
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Returns the known keywords most similar to the given unknown keyword.
+   * @param text The text of the unknown keyword.
+   * @param limit The maximum number of suggestions.
+   * @return The suggestions, ordered from the most to the least similar.
+   */
+  suggestKeywords(text: string, limit: number): string[] {
+    return getSuggestions(text, [...this._rules.keys(), ...this._blocks.keys()], limit);
+  }
+
+  /**
+   * Returns the valid values most similar to the given invalid value.
+   * @param keyword The keyword of the rule containing the value.
+   * @param index The index of the value within the rule.
+   * @param text The text of the value, without any quotation marks.
+   * @param options The options used during validation.
+   * @param limit The maximum number of suggestions.
+   * @return The suggestions, ordered from the most to the least similar.
+   */
+  suggestValues(keyword: string, index: number, text: string, options: ValidationOptions,
+    limit: number): string[] {
+
+    const matches: FuzzyMatch[] = [];
+    let hasValueList = false;
+    let partial = false;
+
+    for (const value of this._getParameterValues(keyword, index)) {
+      const valueList = isWordValue(value) ? this._valueLists.get(value) : undefined;
+      if (!valueList || !isWordValue(value)) continue;
+
+      matches.push(...valueList.suggest(text, limit, value.partial));
+      hasValueList = true;
+      partial = partial || value.partial;
+    }
+
+    const whitelist = options.valueWhitelists[keyword];
+    if (hasValueList && whitelist) {
+      matches.push(...new FuzzyMatcher(whitelist).match(text, limit, partial));
+    }
+
+    const result: string[] = [];
+    for (const match of sortMatches(text, matches)) {
+      if (!result.includes(match.candidate)) result.push(match.candidate);
+    }
+
+    return result.slice(0, limit);
+  }
+
+  /**
+   * Returns whether the keyword is only accepted due to the rule whitelist,
+   * being unknown to the parse data.
+   * @param keyword The keyword of a block or rule.
+   * @param options The options used during validation.
+   */
+  isWhitelistedKeyword(keyword: string, options: ValidationOptions): boolean {
+    return !this._rules.has(keyword) && !this._blocks.has(keyword) &&
+      options.ruleWhitelist.includes(keyword);
+  }
+
+  /**
+   * Returns whether the value is only accepted due to the value whitelist for
+   * its rule, rather than being one of the values known to the parse data.
+   * @param keyword The keyword of the rule containing the value.
+   * @param index The index of the value within the rule.
+   * @param node The node for the value.
+   * @param options The options used during validation.
+   */
+  isWhitelistedValue(keyword: string, index: number, node: ValueNode,
+    options: ValidationOptions): boolean {
+
+    const whitelist = options.valueWhitelists[keyword];
+    if (!whitelist) return false;
+
+    const text = getValueText(node);
+    for (const value of this._getParameterValues(keyword, index)) {
+      const valueList = isWordValue(value) ? this._valueLists.get(value) : undefined;
+      if (!valueList || !isWordValue(value)) continue;
+
+      if (!valueList.includes(text, value.partial) && isWhitelisted(text, value, whitelist)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Returns the valid range for a number value of a rule, if the value is a number.
+   * @param keyword The keyword of the rule containing the value.
+   * @param index The index of the value within the rule.
+   */
+  getValueRange(keyword: string, index: number): IntegerValue["range"] | undefined {
+    const value = this._getParameterValues(keyword, index).find(isIntegerValue);
+    return value ? value.range : undefined;
+  }
+
+  /** Returns the possible types for the value at the given index of a rule. */
+  private _getParameterValues(keyword: string, index: number): Value[] {
+    const ruleData = this._rules.get(keyword);
+    if (!ruleData) return [];
+
+    let parameterIndex = 0;
+    for (const parameter of ruleData.parameters) {
+      if (parameter.repeating || parameterIndex === index) {
+        return Array.isArray(parameter.value) ? parameter.value : [parameter.value];
+      }
+
+      parameterIndex++;
+    }
+
+    return [];
+  }
+
+  /**
+   * Validates a single value against the given parameter.
+   * @return The issue with the value, if there is one.
+   */
+  private _validateValue(keyword: string, parameter: Parameter, node: ValueNode,
+    options: ValidationOptions): ValueIssue | undefined {
+
+    const values = Array.isArray(parameter.value) ? parameter.value : [parameter.value];
+    let issue: ValueIssue | undefined;
+
+    for (const value of values) {
+      issue = this._checkValue(keyword, parameter, value, node, options);
+      if (!issue) return undefined;
+    }
+
+    if (values.length > 1) {
+      issue = {
+        message: `Invalid value for a ${keyword} rule. ${describeParameter(parameter)}`,
+        code: DiagnosticCode.InvalidValue
+      };
+    }
+
+    return issue;
+  }
+
+  /**
+   * Checks whether the node contains a valid value of the given type.
+   * @return The issue with the value, if there is one.
+   */
+  private _checkValue(keyword: string, parameter: Parameter, value: Value, node: ValueNode,
+    options: ValidationOptions): ValueIssue | undefined {
+
+    const quoted = node.type === NodeType.String ||
+      (node.type === NodeType.Boolean && node.quoted);
+
+    if (quoted && value.quotes === "never") {
+      return {
+        message: `Invalid value for a ${keyword} rule. The value must not be surrounded` +
+          " by quotation marks.",
+        code: DiagnosticCode.InvalidQuotes
+      };
+    } else if (!quoted && value.quotes === "required") {
+      return {
+        message: `Invalid value for a ${keyword} rule. The value must be surrounded` +
+          " by quotation marks.",
+        code: DiagnosticCode.InvalidQuotes
+      };
+    }
+
+    const text = getValueText(node);
+
+    if (isIntegerValue(value)) {
+      const { min, max } = value.range;
+      const number = /^[0-9]+$/.test(text) ? parseInt(text, 10) : NaN;
+
+      if (isNaN(number) || number < min || number > max) {
+        return {
+          message: `Invalid value for a ${keyword} rule. Valid values are between` +
+            ` ${min} and ${max}.`,
+          code: isNaN(number) ? DiagnosticCode.InvalidValue : DiagnosticCode.ValueOutOfRange
+        };
+      }
+    } else if (isWordValue(value)) {
+      const valueList = this._valueLists.get(value);
+
+      if (valueList && !valueList.includes(text, value.partial) &&
+        !isWhitelisted(text, value, options.valueWhitelists[keyword])) {
+
+        if (Array.isArray(value.pick)) {
+          return {
+            message: `Invalid value for a ${keyword} rule. Valid values are` +
+              ` ${stylizedArrayJoin(value.pick, true)}.`,
+            code: DiagnosticCode.InvalidValue
+          };
+        }
+
+        const suggestions = valueList.suggest(text, maxValueSuggestions, value.partial);
+        let message = `Invalid value for a ${keyword} rule. ${describeParameter(parameter)}`;
+        if (suggestions.length > 0) {
+          const quotedSuggestions = suggestions.map(s => `"${s.candidate}"`);
+          message += `\nDid you mean ${stylizedArrayJoin(quotedSuggestions, true)}?`;
+        }
+
+        return { message, code: DiagnosticCode.InvalidValue };
+      }
+    } else if (isComprisedWordValue(value)) {
+      const composition = value.caseSensitive ? value.composition :
+        value.composition.map(c => c.toLowerCase());
+      const characters = value.caseSensitive ? text : text.toLowerCase();
+
+      if (characters.length === 0 || [...characters].some(c => !composition.includes(c))) {
+        return {
+          message: `Invalid value for a ${keyword} rule. Expected a word consisting of the` +
+            ` ${stylizedArrayJoin(value.composition)} characters.`,
+          code: DiagnosticCode.InvalidValue
+        };
+      }
+    } else {
+      return assertUnreachable(value);
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * A list of values for a word, which allows for fast lookups of both exact
+ * and partial matches.
+ *
+ * Partial matches are the hot path for the validator, with references such as
+ * item bases containing thousands of values. Values are sorted by length,
+ * allowing us to skip directly to the values long enough to contain the match.
+ *
+ * Suggestions are only ever needed for invalid values, so the matcher used to
+ * find them is created upon the first invalid value, rather than for every
+ * list up front. Finding them is bounded in the same way, only comparing the
+ * values whose length is close enough to that of the invalid value.
+ */
+class ValueList {
+  private readonly _originalValues: string[];
+  private _matcher?: FuzzyMatcher;
+
+  private readonly _caseSensitive: boolean;
+  private readonly _values: Set<string>;
+  private readonly _sortedValues: string[];
+  private readonly _lengthIndices: number[];
+
+  constructor(values: string[], caseSensitive: boolean) {
+    this._originalValues = values;
+    this._caseSensitive = caseSensitive;
+
+    const normalizedValues = caseSensitive ? values.slice() :
+      values.map(v => v.toLowerCase());
+
+    this._values = new Set(normalizedValues);
+    this._sortedValues = normalizedValues.sort((lha, rha) => lha.length - rha.length);
+    this._lengthIndices = [];
+
+    const maxLength = this._sortedValues.length > 0 ?
+      this._sortedValues[this._sortedValues.length - 1].length : -1;
+
+    let index = 0;
+    for (let length = 0; length <= maxLength; length++) {
+      while (this._sortedValues[index].length < length) index++;
+      this._lengthIndices.push(index);
+    }
+  }
+
+  /**
+   * Determines whether the value is contained within the list.
+   * @param value The value to look for.
+   * @param partial Whether the value may be a substring of a value within the list.
+   */
+  includes(value: string, partial: boolean): boolean {
+    const normalizedValue = this._caseSensitive ? value : value.toLowerCase();
+
+    if (this._values.has(normalizedValue)) {
+      return true;
+    } else if (!partial) {
+      return false;
+    }
+
+    const startIndex = normalizedValue.length < this._lengthIndices.length ?
+      this._lengthIndices[normalizedValue.length] : this._sortedValues.length;
+
+    for (let i = startIndex; i < this._sortedValues.length; i++) {
+      if (this._sortedValues[i].includes(normalizedValue)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Returns the values most similar to the given value, ignoring case.
+   * @param value The value, which isn't contained within the list.
+   * @param limit The maximum number of suggestions.
+   * @param partial Whether the value may be a substring of a value within the list.
+   */
+  suggest(value: string, limit: number, partial: boolean): FuzzyMatch[] {
+    if (!this._matcher) {
+      this._matcher = new FuzzyMatcher(this._originalValues);
+    }
+
+    return this._matcher.match(value, limit, partial);
+  }
+}
+
+/** Returns the value of the node as it would be written without quotation marks. */
+function getValueText(node: ValueNode): string {
+  switch (node.type) {
+    case NodeType.Number:
+      return node.text;
+    case NodeType.Boolean:
+      return node.quoted ? node.text.slice(1, -1) : node.text;
+    case NodeType.Word:
+    case NodeType.String:
+      return node.value;
+    default:
+      return assertUnreachable(node);
+  }
+}
+
+/** Returns the name of the reference from a pick, such as `itemBases` from `${itemBases}`. */
+function getReferenceName(pick: string): string {
+  const match = /^\$\{(.*)\}$/.exec(pick);
+  return match ? match[1] : pick;
+}
+
+/** Determines whether the value was whitelisted by the user. */
+function isWhitelisted(text: string, value: WordValue, whitelist: string[] | undefined):
+  boolean {
+
+  if (!whitelist) return false;
+
+  const normalizedText = value.caseSensitive ? text : text.toLowerCase();
+  for (const entry of whitelist) {
+    const normalizedEntry = value.caseSensitive ? entry : entry.toLowerCase();
+
+    if (value.partial ? normalizedEntry.includes(normalizedText) :
+      normalizedEntry === normalizedText) {
+
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Returns the first paragraph of the description for a parameter, with the
+ * `${value}` placeholder replaced by a description of its valid values.
+ */
+export function describeParameter(parameter: Parameter): string {
+  const values = Array.isArray(parameter.value) ? parameter.value : [parameter.value];
+  const valueText = values.map(describeValue).join(" or ");
+
+  return parameter.description.split("\n\n")[0]
+    .replace(/\$\{value\}/g, valueText)
+    .replace(/`/g, "");
+}
+
+/** Returns a short description of the valid values for a value. */
+function describeValue(value: Value): string {
+  if (isIntegerValue(value)) {
+    return `${value.range.min} to ${value.range.max}`;
+  } else if (isWordValue(value)) {
+    return Array.isArray(value.pick) ? stylizedArrayJoin(value.pick, true) :
+      "one of the known values";
+  } else if (isComprisedWordValue(value)) {
+    return `a word consisting of the ${stylizedArrayJoin(value.composition)} characters`;
+  } else {
+    return assertUnreachable(value);
+  }
+}
+
+/** Creates a diagnostic for text following the values of a block or rule. */
+function createTrailingTextDiagnostic(range: Range,
+  trailingText: "skip" | "comment" | "error"): Diagnostic {
+
+  switch (trailingText) {
+    case "error":
+      return {
+        message: "This trailing text will be considered an error by Path of Exile.",
+        range,
+        severity: DiagnosticSeverity.Error,
+        code: DiagnosticCode.TrailingText
+      };
+    case "skip":
+      return {
+        message: "This trailing text will be ignored by Path of Exile.\n" +
+          "Did you mean to comment it?",
+        range,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.TrailingText
+      };
+    case "comment":
+      return {
+        message: "This trailing text will be ignored by Path of Exile.",
+        range,
+        severity: DiagnosticSeverity.Information,
+        code: DiagnosticCode.TrailingText
+      };
+    default:
+      return assertUnreachable(trailingText);
+  }
+}
+
+/** Creates a diagnostic for a line that could not be read. */
+function createUnreadableLineDiagnostic(node: TextNode): Diagnostic {
+  return {
+    message: "Unreadable keyword, likely due to a stray character.",
+    range: node.range,
+    severity: DiagnosticSeverity.Error,
+    code: DiagnosticCode.UnreadableLine
+  };
+}
+
+function isIntegerValue(value: Value): value is IntegerValue {
+  return (<IntegerValue>value).range !== undefined;
+}
+
+function isWordValue(value: Value): value is WordValue {
+  return (<WordValue>value).pick !== undefined;
+}
+
+function isComprisedWordValue(value: Value): value is ComprisedWordValue {
+  return (<ComprisedWordValue>value).composition !== undefined;
+}
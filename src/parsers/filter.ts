@@ -0,0 +1,168 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import { findContradictions, findShadowedBlocks, getContradictionDiagnostic } from "../items";
+import { getColorInformation, getSoundInformation } from "./information";
+import {
+  FilterNode, FilterParseData, FilterValidator, isBlockNode, isRuleNode, parseFilter,
+  RuleNode, ValidationOptions
+} from "../parsers-nextgen";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+const modData = <types.ModData>require(path.join(dataOutputRoot, "mods.json"));
+const parseData = <FilterParseData>require(path.join(dataOutputRoot, "parsers", "GGG.json"));
+
+/** The validator for item filters, using the item data of the extension. */
+export const validator = new FilterValidator(parseData, {
+  itemBases: itemData.sortedBases,
+  itemClasses: itemData.classes,
+  itemMods: [...modData.prefixes, ...modData.suffixes],
+  prophecies: itemData.prophecies
+});
+
+/** A request to parse the full text of an item filter, such as one sent to a worker. */
+export interface FilterParseRequest {
+  /** The configuration values for the extension. */
+  config: types.ConfigurationValues;
+
+  /** The full text of the item filter. */
+  text: string;
+}
+
+/**
+ * A request to compare the blocks of an item filter with one another, such as
+ * one sent to a worker after the filter has been incrementally reparsed.
+ */
+export interface FilterAnalysisRequest {
+  /** The full text of the item filter. */
+  text: string;
+}
+
+/** A request handled by the workers parsing item filters. */
+export type FilterWorkerRequest = ({ type: "parse" } & FilterParseRequest) |
+  ({ type: "analyze" } & FilterAnalysisRequest);
+
+/** The response to a `FilterWorkerRequest`, which depends on the type of the request. */
+export type FilterWorkerResponse = FilterParseResult | types.Diagnostic[];
+
+export interface FilterParseResult {
+  root: FilterNode;
+  colorInformation: types.ColorInformation[];
+  soundInformation: types.SoundInformation[];
+  diagnostics: types.Diagnostic[];
+}
+
+/**
+ * Parses the full text of an item filter, processing each of its nodes.
+ *
+ * This is the work performed by the parser workers, so everything involved
+ * must remain usable outside of the extension host.
+ */
+export function parseItemFilter(request: FilterParseRequest): FilterParseResult {
+  const root = parseFilter(request.text);
+  return { root, ...processNodes(root, request.config) };
+}
+
+/**
+ * Compares the blocks of an item filter with one another, parsing its full
+ * text. This is the work performed by the parser workers once a filter has
+ * been parsed, as the analysis is too slow to be performed on every edit
+ * within the extension host.
+ */
+export function analyzeItemFilter(request: FilterAnalysisRequest): types.Diagnostic[] {
+  return analyzeBlocks(parseFilter(request.text));
+}
+
+/** Handles a request sent to one of the parser workers. */
+export function handleWorkerRequest(request: FilterWorkerRequest): FilterWorkerResponse {
+  return request.type === "parse" ? parseItemFilter(request) : analyzeItemFilter(request);
+}
+
+/**
+ * Validates and gathers information from each top-level node of the syntax
+ * tree. Results are ordered by the node producing them, allowing the results
+ * of an incremental parse to be spliced in.
+ */
+export function processNodes(root: FilterNode, config: types.ConfigurationValues):
+  Pick<FilterParseResult, "colorInformation" | "soundInformation" | "diagnostics"> {
+
+  const options = getValidationOptions(config);
+  const colorInformation: types.ColorInformation[] = [];
+  const soundInformation: types.SoundInformation[] = [];
+  const diagnostics: types.Diagnostic[] = [];
+
+  for (const node of root.children) {
+    diagnostics.push(...validator.validateNode(node, options));
+
+    if (isBlockNode(node)) {
+      for (const contradiction of findContradictions(node, itemData.classesToBases)) {
+        diagnostics.push(getContradictionDiagnostic(contradiction));
+      }
+    }
+
+    let rules: RuleNode[] = [];
+    if (isBlockNode(node)) {
+      rules = node.children.filter(isRuleNode);
+    } else if (isRuleNode(node)) {
+      rules = [node];
+    }
+
+    for (const rule of rules) {
+      const color = getColorInformation(rule);
+      if (color) {
+        colorInformation.push(color);
+      }
+
+      const sound = getSoundInformation(rule, config, diagnostics);
+      if (sound) {
+        soundInformation.push(sound);
+      }
+    }
+  }
+
+  return { colorInformation, soundInformation, diagnostics };
+}
+
+/**
+ * Compares each block of the item filter with those preceding it, reporting
+ * any that can never catch an item.
+ */
+export function analyzeBlocks(root: FilterNode): types.Diagnostic[] {
+  return findShadowedBlocks(root).map(({ block, shadowingBlock }) => {
+    const line = shadowingBlock.range.start.line + 1;
+
+    return {
+      message: `This block can never catch an item, as the block on line ${line} catches` +
+        " every item meeting its conditions.",
+      range: block.keyword.range,
+      severity: types.DiagnosticSeverity.Warning,
+      code: types.DiagnosticCode.ShadowedBlock,
+      relatedInformation: [{
+        message: "The earlier block catching each of its items.",
+        range: shadowingBlock.keyword.range
+      }]
+    };
+  });
+}
+
+/** Returns the options used to validate item filters with the given configuration. */
+export function getValidationOptions(config: types.ConfigurationValues): ValidationOptions {
+  return {
+    ruleWhitelist: config.ruleWhitelist,
+    valueWhitelists: {
+      BaseType: config.baseWhitelist,
+      Class: config.classWhitelist,
+      HasExplicitMod: config.modWhitelist,
+      Prophecy: config.prophecyWhitelist,
+      PlayAlertSound: config.soundWhitelist,
+      PlayAlertSoundPositional: config.soundWhitelist
+    }
+  };
+}
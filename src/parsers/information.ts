@@ -0,0 +1,196 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import { getRuleColor } from "../items";
+import { CharacterCodes, isAlphabetical, NodeType, RuleNode } from "../parsers-nextgen";
+
+const whitespaceRegex = /^\s*$/;
+const filterData = <types.FilterData>require(path.join(dataOutputRoot, "filter.json"));
+
+/** The rules setting one of the colors of an item's label. */
+const colorRules = ["SetBorderColor", "SetTextColor", "SetBackgroundColor"];
+
+/** The rules playing one of the default alert sounds. */
+const soundRules = ["PlayAlertSound", "PlayAlertSoundPositional"];
+
+/**
+ * Returns the color set by a rule, such as `SetTextColor`.
+ * @param rule The node for the rule.
+ * @return The color information, if the rule sets a valid color.
+ */
+export function getColorInformation(rule: RuleNode): types.ColorInformation | undefined {
+  if (!colorRules.includes(rule.keyword.text)) {
+    return undefined;
+  }
+
+  // Colors with any value that isn't valid aren't shown at all.
+  const { min, max } = filterData.ruleRanges[rule.keyword.text];
+  const valid = rule.values.slice(0, 4).every(v => v.type === NodeType.Number &&
+    v.value >= min && v.value <= max);
+
+  return valid ? getRuleColor(rule) : undefined;
+}
+
+/**
+ * Returns the sound played by a rule, such as `PlayAlertSound`.
+ *
+ * Custom sounds are verified against the file system, as determined by the
+ * configuration, with any issues being added to the given diagnostics.
+ * @param rule The node for the rule.
+ * @param config The configuration values for the extension.
+ * @param diagnostics The diagnostics to append any file system issues onto.
+ * @return The sound information, if the rule plays a valid sound.
+ */
+export function getSoundInformation(rule: RuleNode, config: types.ConfigurationValues,
+  diagnostics: types.Diagnostic[]): types.SoundInformation | undefined {
+
+  if (soundRules.includes(rule.keyword.text)) {
+    return getDefaultSoundInformation(rule, config);
+  } else if (rule.keyword.text === "CustomAlertSound") {
+    return getCustomSoundInformation(rule, config, diagnostics);
+  } else {
+    return undefined;
+  }
+}
+
+function getDefaultSoundInformation(rule: RuleNode, config: types.ConfigurationValues):
+  types.DefaultSoundInformation | undefined {
+
+  const [identifierValue, volumeValue] = rule.values;
+  if (!identifierValue) return undefined;
+
+  const { min, max } = filterData.sounds.numberIdentifier;
+  let knownIdentifier: boolean;
+
+  if (identifierValue.type === NodeType.Number) {
+    if (identifierValue.value < min || identifierValue.value > max) return undefined;
+    knownIdentifier = true;
+  } else if (identifierValue.type === NodeType.Word) {
+    if (filterData.sounds.stringIdentifiers[identifierValue.value] !== undefined) {
+      knownIdentifier = true;
+    } else if (config.soundWhitelist.includes(identifierValue.value)) {
+      knownIdentifier = false;
+    } else {
+      return undefined;
+    }
+  } else {
+    return undefined;
+  }
+
+  let volume = 100;
+  if (volumeValue && volumeValue.type === NodeType.Number && volumeValue.value <= 300) {
+    volume = volumeValue.value;
+  }
+
+  return {
+    knownIdentifier,
+    identifier: identifierValue.text,
+    volume,
+    range: identifierValue.range
+  };
+}
+
+function getCustomSoundInformation(rule: RuleNode, config: types.ConfigurationValues,
+  diagnostics: types.Diagnostic[]): types.CustomSoundInformation | undefined {
+
+  const value = rule.values[0];
+  if (!value || value.type !== NodeType.String) return undefined;
+
+  const extension = path.extname(value.value).toLowerCase();
+
+  if (value.value.length === 0 || whitespaceRegex.test(value.value)) {
+    diagnostics.push({
+      message: `Empty value for a ${rule.keyword.text} rule.` +
+        " Expected the string to contain either a file name or full file path.",
+      range: value.range,
+      code: types.DiagnosticCode.InvalidValue
+    });
+    return undefined;
+  } else if (value.value.length <= 4) {
+    // Going by what we know, the path must be at least 5 characters long in
+    // due to the file extension, with 'mp3' and 'wav' being supported.
+    diagnostics.push({
+      message: `Invalid value for a ${rule.keyword.text} rule.` +
+        " Expected a file name or full file path ending with a file extension.",
+      range: value.range,
+      code: types.DiagnosticCode.InvalidValue
+    });
+    return undefined;
+  } else if (extension !== ".mp3" && extension !== ".wav") {
+    diagnostics.push({
+      message: `Invalid value for a ${rule.keyword.text} rule.` +
+        " Expected the file to end with either '.mp3' or '.wav'.",
+      range: value.range,
+      code: types.DiagnosticCode.InvalidValue
+    });
+    return undefined;
+  }
+
+  if (!config.verifyCustomSounds || os.platform() !== "win32") {
+    return undefined;
+  }
+
+  const firstCharacter = value.value.charCodeAt(0);
+  const secondCharacter = value.value.charCodeAt(1);
+
+  // Were we given a full path?
+  if (isAlphabetical(firstCharacter) && secondCharacter === CharacterCodes.colon) {
+    if (fs.existsSync(value.value)) {
+      return {
+        type: getCustomSoundType(extension),
+        path: value.value,
+        range: value.range
+      };
+    } else {
+      diagnostics.push({
+        message: "Invalid value for a CustomAlertSound rule. Expected the given full" +
+          " file path to exist on your system.",
+        range: value.range,
+        code: types.DiagnosticCode.InvalidSoundFile
+      });
+    }
+  } else {
+    const documentsPath = config.windowsDocumentFolder !== "" ?
+      config.windowsDocumentFolder : path.join(os.homedir(), "Documents");
+    const gameDataRoot = path.join(documentsPath, "My Games", "Path of Exile");
+    const fullFilePath = path.join(gameDataRoot, value.value);
+
+    if (fs.existsSync(fullFilePath)) {
+      return {
+        type: getCustomSoundType(extension),
+        path: fullFilePath,
+        range: value.range
+      };
+    } else {
+      diagnostics.push({
+        message: "Invalid value for a CustomAlertSound rule. " +
+          `Expected a file named ${value.value} to exist at the following ` +
+          `path:\n\n${gameDataRoot}`,
+        range: value.range,
+        code: types.DiagnosticCode.InvalidSoundFile
+      });
+    }
+  }
+
+  return undefined;
+}
+
+function getCustomSoundType(extension: string): types.CustomSoundType {
+  switch (extension) {
+    case ".mp3":
+      return types.CustomSoundType.MP3;
+    case ".wav":
+      return types.CustomSoundType.WAV;
+    default:
+      return types.CustomSoundType.Unknown;
+  }
+}
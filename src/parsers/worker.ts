@@ -0,0 +1,12 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+// The script run by each worker within the pool used to parse item filters.
+
+import { handleRequests } from "../kits/workers";
+import { FilterWorkerRequest, FilterWorkerResponse, handleWorkerRequest } from "./filter";
+
+handleRequests<FilterWorkerRequest, FilterWorkerResponse>(handleWorkerRequest);
@@ -0,0 +1,68 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { range2CodeRange } from "../converters";
+import { ConfigurationManager } from "../managers/configuration";
+import { ItemFilterManager } from "../managers/item-filters";
+import { getValidationOptions, validator } from "../parsers/filter";
+import { getQuickFixes, QuickFix } from "../parsers-nextgen";
+
+/**
+ * Provides quick fixes for the diagnostics reported for item filters.
+ *
+ * The fixes are built from the parse of the requested version of each
+ * document, as the edits must apply to exactly that text.
+ */
+export class FilterCodeActionProvider implements vscode.CodeActionProvider {
+  private readonly _configManager: ConfigurationManager;
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(configManager: ConfigurationManager, filterManager: ItemFilterManager) {
+    this._configManager = configManager;
+    this._filterManager = filterManager;
+  }
+
+  async provideCodeActions(document: vscode.TextDocument, _range: vscode.Range,
+    context: vscode.CodeActionContext, _token: vscode.CancellationToken):
+    Promise<vscode.CodeAction[]> {
+
+    const diagnostics = context.diagnostics.filter(d => typeof d.code === "string");
+    if (diagnostics.length === 0) return [];
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
+
+    const options = getValidationOptions(this._configManager.values);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const result: vscode.CodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+      const fixes = getQuickFixes(payload.root, <types.DiagnosticCode>diagnostic.code,
+        diagnostic.range.start, validator, options, eol);
+
+      for (const fix of fixes) {
+        result.push(createFix(document, diagnostic, fix));
+      }
+    }
+
+    return result;
+  }
+}
+
+function createFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic,
+  fix: QuickFix): vscode.CodeAction {
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, range2CodeRange(fix.edit.range), fix.edit.newText);
+
+  const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+  action.diagnostics = [diagnostic];
+  action.edit = edit;
+  return action;
+}
@@ -0,0 +1,132 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import * as types from "../types";
+import { dataOutputRoot } from "../helpers";
+import { range2CodeRange } from "../converters";
+import { CompositeDisposable, IDisposable } from "../kits/events";
+import { addBlockMatches, BlockMatches, createBlockMatches, isCaughtEarlier } from "../items";
+import { ItemFilterManager } from "../managers/item-filters";
+import { FilterNode } from "../parsers-nextgen";
+
+const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
+
+/** The number of milliseconds spent testing item bases before yielding to the editor. */
+const timeSlice = 10;
+
+/** The block matches computed for a version of an item filter. */
+interface MatchesResult {
+  root: FilterNode;
+  matches: BlockMatches;
+}
+
+/**
+ * Provides a code lens above each block of an item filter, counting the item
+ * bases the block can catch, along with those already caught by earlier blocks.
+ *
+ * Testing every item base takes a while for larger filters, so the results are
+ * computed in short slices in between yielding to the editor. The results for
+ * the latest parse of each filter are kept, with the next parse reusing those
+ * of each block preceding its changes.
+ */
+export class FilterCodeLensProvider implements vscode.CodeLensProvider, IDisposable {
+  private readonly _emitter: vscode.EventEmitter<void>;
+  private readonly _filterManager: ItemFilterManager;
+  private readonly _results: Map<string, MatchesResult>;
+  private readonly _subscriptions: CompositeDisposable;
+
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._emitter = new vscode.EventEmitter();
+    this._filterManager = filterManager;
+    this._results = new Map();
+    this.onDidChangeCodeLenses = this._emitter.event;
+
+    this._subscriptions = new CompositeDisposable([
+      this._filterManager.onDidChangeFilter(() => this._emitter.fire()),
+      this._filterManager.onDidCloseFilter(event => this._results.delete(event.uri))
+    ]);
+  }
+
+  dispose(): void {
+    this._subscriptions.dispose();
+    this._emitter.dispose();
+    this._results.clear();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken):
+    Promise<vscode.CodeLens[]> {
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
+
+    const matches = await this._getMatches(document.uri.toString(), payload.root, token);
+    if (!matches) return [];
+
+    const result: vscode.CodeLens[] = [];
+    for (const [block, baseMatches] of matches.blocks) {
+      const caughtEarlier = baseMatches.filter(isCaughtEarlier).length;
+
+      let title = `Catches ${formatBases(baseMatches.length)}`;
+      if (caughtEarlier > 0) {
+        title += `, ${caughtEarlier} already caught by earlier blocks`;
+      }
+
+      result.push(new vscode.CodeLens(range2CodeRange(block.keyword.range), {
+        title,
+        command: "item-filter.showBlockBases",
+        arguments: [document, block, baseMatches]
+      }));
+    }
+
+    return result;
+  }
+
+  /** Returns the block matches for the filter, which is undefined if cancelled. */
+  private async _getMatches(uri: string, root: FilterNode, token: vscode.CancellationToken):
+    Promise<BlockMatches | undefined> {
+
+    const previous = this._results.get(uri);
+    if (previous && previous.root === root) return previous.matches;
+
+    const result = createBlockMatches(root, previous ? previous.matches : undefined);
+    let sliceStart = Date.now();
+
+    for (const itemClass of Object.keys(itemData.classesToBases)) {
+      for (const baseType of itemData.classesToBases[itemClass]) {
+        if (Date.now() - sliceStart >= timeSlice) {
+          await new Promise(resolve => setImmediate(resolve));
+          if (token.isCancellationRequested) return undefined;
+          sliceStart = Date.now();
+        }
+
+        addBlockMatches(result, baseType, itemClass);
+      }
+    }
+
+    // The filter may have since been closed.
+    if (this._filterManager.get(uri) != null) {
+      this._results.set(uri, { root, matches: result });
+    }
+
+    return result;
+  }
+}
+
+function formatBases(count: number): string {
+  switch (count) {
+    case 0:
+      return "no item bases";
+    case 1:
+      return "1 item base";
+    default:
+      return `${count} item bases`;
+  }
+}
@@ -40,10 +40,9 @@ export class FilterColorProvider implements vscode.DocumentColorProvider, IDispo
   async provideDocumentColors(document: vscode.TextDocument, _token: vscode.CancellationToken):
     Promise<vscode.ColorInformation[]> {
 
-    const filter = this._filterManager.get(document.uri.toString());
-    if (!filter) return [];
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
 
-    const payload = await filter.payload;
     const result: vscode.ColorInformation[] = [];
     for (const colorInfo of payload.colorInformation) {
       result.push(colorInfo2CodeColorInfo(colorInfo));
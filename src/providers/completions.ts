@@ -23,6 +23,7 @@ import * as contextParser from "../parsers/context";
 import * as types from "../types";
 import { range2CodeRange } from "../converters";
 import { ConfigurationManager } from "../managers/configuration";
+import { getSuggestions } from "../parsers-nextgen";
 
 const itemData = <types.ItemData>require(path.join(dataOutputRoot, "items.json"));
 const filterData = <types.FilterData>require(path.join(dataOutputRoot, "filter.json"));
@@ -34,6 +35,9 @@ const whitespaceRegex = /^\s*$/;
 const whitespaceCharacterRegex = /\s/;
 const spaceRegex = / /;
 
+/** The number of completions similar to the current value that are ranked above the rest. */
+const maxRankedCompletions = 5;
+
 export const completionTriggers = ['"', "\\"];
 
 export class FilterCompletionProvider implements vscode.CompletionItemProvider, IDisposable {
@@ -212,6 +216,29 @@ function completionForStringRange(text: string, range: vscode.Range,
   };
 }
 
+/**
+ * Ranks the completions most similar to the value being replaced above the
+ * rest, which also keeps them listed when that value is misspelled.
+ * @param completions The completions for the value.
+ * @param valueText The text of the value being replaced, including any quotation marks.
+ */
+function rankCompletions(completions: vscode.CompletionItem[], valueText: string): void {
+  const typedText = valueText.replace(/"/g, "").trim();
+  if (typedText.length === 0) return;
+
+  const labels = completions.map(c => c.label);
+  const suggestions = getSuggestions(typedText, labels, maxRankedCompletions, true);
+
+  for (const completion of completions) {
+    const rank = suggestions.indexOf(completion.label);
+
+    if (rank !== -1) {
+      completion.sortText = `${rank}`;
+      completion.filterText = valueText;
+    }
+  }
+}
+
 function getClassCompletions(config: types.ConfigurationValues, pos: vscode.Position,
   text: string, index: number, eol: vscode.EndOfLine): vscode.CompletionItem[] {
 
@@ -256,6 +283,7 @@ function getClassCompletions(config: types.ConfigurationValues, pos: vscode.Posi
 
     valueRange.end.character++;
     pushCompletions(range2CodeRange(valueRange));
+    rankCompletions(result, text.slice(valueRange.start.character, valueRange.end.character));
   }
 
   return result;
@@ -318,6 +346,7 @@ function getBaseCompletions(config: types.ConfigurationValues, pos: vscode.Posit
 
     valueRange.end.character++;
     pushCompletions(range2CodeRange(valueRange));
+    rankCompletions(result, text.slice(valueRange.start.character, valueRange.end.character));
   }
 
   return result;
@@ -364,6 +393,7 @@ function getModCompletions(config: types.ConfigurationValues, pos: vscode.Positi
 
     valueRange.end.character++;
     pushCompletions(range2CodeRange(valueRange));
+    rankCompletions(result, text.slice(valueRange.start.character, valueRange.end.character));
   }
 
   return result;
@@ -406,6 +436,7 @@ function getProphecyCompletions(config: types.ConfigurationValues, pos: vscode.P
 
     valueRange.end.character++;
     pushCompletions(range2CodeRange(valueRange));
+    rankCompletions(result, text.slice(valueRange.start.character, valueRange.end.character));
   }
 
   return result;
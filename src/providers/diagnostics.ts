@@ -6,10 +6,16 @@
 
 import * as vscode from "vscode";
 
+import * as types from "../types";
 import { CompositeDisposable, IDisposable } from "../kits/events";
 import { diagnostic2CodeDiagnostic } from "../converters";
 import * as ifm from "../managers/item-filters";
 
+/**
+ * Reports the diagnostics of each item filter, which are first reported once
+ * the filter has been parsed, then again once its blocks have been compared
+ * with one another.
+ */
 export class FilterDiagnosticsProvider implements IDisposable {
   private readonly _diagnostics: vscode.DiagnosticCollection;
   private readonly _filterManager: ifm.ItemFilterManager;
@@ -22,7 +28,8 @@ export class FilterDiagnosticsProvider implements IDisposable {
     this._subscriptions = new CompositeDisposable([
       this._filterManager.observeFilters(this._add, false, this),
       this._filterManager.onDidCloseFilter(this._remove, false, this),
-      this._filterManager.onDidChangeFilter(this._update, false, this)
+      this._filterManager.onDidChangeFilter(this._update, false, this),
+      this._filterManager.onDidAnalyzeFilter(this._analyze, false, this)
     ]);
   }
 
@@ -34,17 +41,30 @@ export class FilterDiagnosticsProvider implements IDisposable {
   private async _add(event: ifm.FilterOpenedEvent, update = false): Promise<void> {
     const result = await event.filter.payload;
 
-    const diagnostics: vscode.Diagnostic[] = [];
-    for (const filterDiagnostic of result.diagnostics) {
-      diagnostics.push(diagnostic2CodeDiagnostic(filterDiagnostic));
-    }
-
     // This filter may have been removed as we were processing the changes.
     if (update && this._filterManager.get(event.uri) == null) {
       return;
     }
 
-    this._diagnostics.set(vscode.Uri.parse(event.uri), diagnostics);
+    this._set(event.uri, result.diagnostics);
+  }
+
+  /** Adds the diagnostics found by comparing the blocks of the filter to its own. */
+  private async _analyze(event: ifm.FilterAnalyzedEvent): Promise<void> {
+    const result = await event.filter.payload;
+
+    // This filter may have since been superseded or removed.
+    if (this._filterManager.getActive(event.uri) !== event.filter) {
+      return;
+    }
+
+    this._set(event.uri, [...result.diagnostics, ...event.diagnostics]);
+  }
+
+  private _set(uri: string, filterDiagnostics: types.Diagnostic[]): void {
+    const codeUri = vscode.Uri.parse(uri);
+    this._diagnostics.set(codeUri, filterDiagnostics.map(d =>
+      diagnostic2CodeDiagnostic(d, codeUri)));
   }
 
   private _remove(event: ifm.FilterClosedEvent): void {
@@ -0,0 +1,33 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { ItemFilterManager } from "../managers/item-filters";
+import { FoldingRangeType, getFoldingRanges } from "../parsers-nextgen";
+
+/**
+ * Provides folding for each block, section, and region of an item filter,
+ * which unlike indentation-based folding doesn't require the blocks to be indented.
+ */
+export class FilterFoldingProvider implements vscode.FoldingRangeProvider {
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._filterManager = filterManager;
+  }
+
+  async provideFoldingRanges(document: vscode.TextDocument, _context: vscode.FoldingContext,
+    _token: vscode.CancellationToken): Promise<vscode.FoldingRange[]> {
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
+
+    return getFoldingRanges(payload.root).map(range => new vscode.FoldingRange(range.startLine,
+      range.endLine, range.type === FoldingRangeType.Region ? vscode.FoldingRangeKind.Region :
+      undefined));
+  }
+}
@@ -0,0 +1,74 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { IDisposable } from "../kits/events";
+import { ConfigurationValues } from "../types";
+import { textEdit2CodeTextEdit } from "../converters";
+import { ConfigurationManager } from "../managers/configuration";
+import { formatFilter, FormattingOptions } from "../parsers-nextgen";
+
+const booleanKeywords = ["Identified", "Corrupted", "ElderItem", "ShaperItem", "ShapedMap",
+  "ElderMap"];
+
+/**
+ * Formats item filters, quoting values using the same settings used for the
+ * values inserted by autocompletion.
+ */
+export class FilterFormattingProvider implements vscode.DocumentFormattingEditProvider,
+  vscode.DocumentRangeFormattingEditProvider, IDisposable {
+
+  private _config: ConfigurationValues;
+  private readonly _configManager: ConfigurationManager;
+  private readonly _subscription: IDisposable;
+
+  constructor(configManager: ConfigurationManager) {
+    this._config = configManager.values;
+    this._configManager = configManager;
+
+    this._subscription = this._configManager.onDidChange(newConfig => {
+      this._config = newConfig;
+    });
+  }
+
+  dispose(): void {
+    this._subscription.dispose();
+  }
+
+  provideDocumentFormattingEdits(document: vscode.TextDocument,
+    options: vscode.FormattingOptions, _token: vscode.CancellationToken): vscode.TextEdit[] {
+
+    return formatFilter(document.getText(), this._getOptions(options))
+      .map(textEdit2CodeTextEdit);
+  }
+
+  provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range,
+    options: vscode.FormattingOptions, _token: vscode.CancellationToken): vscode.TextEdit[] {
+
+    return formatFilter(document.getText(), this._getOptions(options), range)
+      .map(textEdit2CodeTextEdit);
+  }
+
+  private _getOptions(options: vscode.FormattingOptions): FormattingOptions {
+    const valueQuotes: FormattingOptions["valueQuotes"] = {
+      Class: this._config.itemValueQuotes,
+      BaseType: this._config.itemValueQuotes,
+      Rarity: this._config.rarityQuotes,
+      HasExplicitMod: this._config.modQuotes,
+      Prophecy: this._config.modQuotes
+    };
+
+    for (const keyword of booleanKeywords) {
+      valueQuotes[keyword] = this._config.booleanQuotes;
+    }
+
+    return {
+      indent: options.insertSpaces ? " ".repeat(options.tabSize) : "\t",
+      valueQuotes
+    };
+  }
+}
@@ -4,7 +4,16 @@
  * license information.
  * ===========================================================================*/
 
+export * from "./code-actions";
+export * from "./code-lenses";
 export * from "./colors";
 export * from "./completions";
 export * from "./diagnostics";
+export * from "./folding";
+export * from "./formatting";
 export * from "./hovers";
+export * from "./references";
+export * from "./rename";
+export * from "./semantic-tokens";
+export * from "./signatures";
+export * from "./symbols";
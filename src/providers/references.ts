@@ -0,0 +1,34 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { range2CodeRange } from "../converters";
+import { findReferences } from "../items";
+import { ItemFilterManager } from "../managers/item-filters";
+
+/**
+ * Provides the references to item values, colors, and alert sounds, which is
+ * useful in ensuring that each tier of items is styled consistently.
+ */
+export class FilterReferenceProvider implements vscode.ReferenceProvider {
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._filterManager = filterManager;
+  }
+
+  async provideReferences(document: vscode.TextDocument, position: vscode.Position,
+    _context: vscode.ReferenceContext, _token: vscode.CancellationToken):
+    Promise<vscode.Location[]> {
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
+
+    return findReferences(payload.root, position).map(range =>
+      new vscode.Location(document.uri, range2CodeRange(range)));
+  }
+}
@@ -0,0 +1,85 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { IDisposable } from "../kits/events";
+import { ConfigurationValues } from "../types";
+import { range2CodeRange } from "../converters";
+import { ConfigurationManager } from "../managers/configuration";
+import { DocumentRegistry } from "../registries/documents";
+import { getRenameEdits, getRenameTarget, parseFilter, RenameTarget } from "../parsers-nextgen";
+
+/**
+ * Renames item classes, item bases, prophecies, and mods throughout an item
+ * filter, which is useful whenever one is renamed by the game.
+ *
+ * Each filter is parsed from its current text, as the edits must apply to
+ * exactly that text.
+ */
+export class FilterRenameProvider implements vscode.RenameProvider, IDisposable {
+  private _config: ConfigurationValues;
+  private readonly _configManager: ConfigurationManager;
+  private readonly _documentRegistry: DocumentRegistry;
+  private readonly _subscription: IDisposable;
+
+  constructor(configManager: ConfigurationManager, documentRegistry: DocumentRegistry) {
+    this._config = configManager.values;
+    this._configManager = configManager;
+    this._documentRegistry = documentRegistry;
+
+    this._subscription = this._configManager.onDidChange(newConfig => {
+      this._config = newConfig;
+    });
+  }
+
+  dispose(): void {
+    this._subscription.dispose();
+  }
+
+  prepareRename(document: vscode.TextDocument, position: vscode.Position,
+    _token: vscode.CancellationToken): { range: vscode.Range, placeholder: string } {
+
+    const target = getTarget(document, position);
+    return { range: range2CodeRange(target.range), placeholder: target.text };
+  }
+
+  provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string,
+    _token: vscode.CancellationToken): vscode.WorkspaceEdit {
+
+    const target = getTarget(document, position);
+    const newText = newName.trim().replace(/^"(.*)"$/, "$1");
+
+    if (newText.length === 0) {
+      throw new Error("The new name cannot be empty.");
+    } else if (newText.includes("\"")) {
+      throw new Error("The new name cannot contain quotation marks.");
+    }
+
+    const documents = this._config.renameAcrossFilters ? this._documentRegistry.filters :
+      [document];
+
+    const result = new vscode.WorkspaceEdit();
+    for (const d of documents) {
+      for (const edit of getRenameEdits(parseFilter(d.getText()), target, newText)) {
+        result.replace(d.uri, range2CodeRange(edit.range), edit.newText);
+      }
+    }
+
+    return result;
+  }
+}
+
+/** Returns the value at the position, throwing an error shown to the user if there is none. */
+function getTarget(document: vscode.TextDocument, position: vscode.Position): RenameTarget {
+  const target = getRenameTarget(parseFilter(document.getText()), position);
+
+  if (!target) {
+    throw new Error("Only item classes, item bases, prophecies, and mods can be renamed.");
+  }
+
+  return target;
+}
@@ -0,0 +1,74 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { IDisposable } from "../kits/events";
+import { ConfigurationValues } from "../types";
+import { range2CodeRange } from "../converters";
+import { ConfigurationManager } from "../managers/configuration";
+import { ItemFilterManager } from "../managers/item-filters";
+import { getSemanticTokens, semanticTokenModifiers, semanticTokenTypes } from "../parsers-nextgen";
+import { getValidationOptions, validator } from "../parsers/filter";
+
+export const semanticTokensLegend = new vscode.SemanticTokensLegend(semanticTokenTypes,
+  semanticTokenModifiers);
+
+/**
+ * Provides semantic highlighting for item filters, distinguishing between
+ * valid and invalid text in a way the grammar of the language cannot.
+ *
+ * The tokens are determined from the syntax tree and diagnostics of the most
+ * recent version of the document, which are available well before the blocks
+ * of the filter have been compared with one another.
+ */
+export class FilterSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider,
+  IDisposable {
+
+  private _config: ConfigurationValues;
+  private readonly _configManager: ConfigurationManager;
+  private readonly _emitter: vscode.EventEmitter<void>;
+  private readonly _filterManager: ItemFilterManager;
+  private readonly _subscription: IDisposable;
+
+  readonly onDidChangeSemanticTokens: vscode.Event<void>;
+
+  constructor(configManager: ConfigurationManager, filterManager: ItemFilterManager) {
+    this._config = configManager.values;
+    this._configManager = configManager;
+    this._filterManager = filterManager;
+    this._emitter = new vscode.EventEmitter();
+    this.onDidChangeSemanticTokens = this._emitter.event;
+
+    // The whitelists determine which text is valid.
+    this._subscription = this._configManager.onDidChange(newConfig => {
+      this._config = newConfig;
+      this._emitter.fire();
+    });
+  }
+
+  dispose(): void {
+    this._subscription.dispose();
+    this._emitter.dispose();
+  }
+
+  async provideDocumentSemanticTokens(document: vscode.TextDocument,
+    token: vscode.CancellationToken): Promise<vscode.SemanticTokens | undefined> {
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload || token.isCancellationRequested) return undefined;
+
+    const tokens = getSemanticTokens(payload.root, payload.diagnostics, validator,
+      getValidationOptions(this._config));
+    const builder = new vscode.SemanticTokensBuilder(semanticTokensLegend);
+
+    for (const token of tokens) {
+      builder.push(range2CodeRange(token.range), token.type, token.modifiers);
+    }
+
+    return builder.build();
+  }
+}
@@ -0,0 +1,41 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { dataOutputRoot } from "../helpers";
+import { FilterParseData, getRuleSignature } from "../parsers-nextgen";
+
+const parseData = <FilterParseData>require(path.join(dataOutputRoot, "parsers", "GGG.json"));
+
+export const signatureHelpTriggers = [" "];
+
+/**
+ * Provides help for the positional parameters of rules such as `MinimapIcon`
+ * and `SetBorderColor`, which are difficult to tell apart from their values.
+ */
+export class FilterSignatureHelpProvider implements vscode.SignatureHelpProvider {
+  provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position,
+    _token: vscode.CancellationToken, _context: vscode.SignatureHelpContext):
+    vscode.SignatureHelp | undefined {
+
+    const lineText = document.lineAt(position.line).text;
+    const signature = getRuleSignature(lineText, position.character, parseData);
+    if (!signature) return undefined;
+
+    const information = new vscode.SignatureInformation(signature.label,
+      signature.documentation);
+    information.parameters = signature.parameters.map(p =>
+      new vscode.ParameterInformation(p.label, p.documentation));
+
+    const result = new vscode.SignatureHelp();
+    result.signatures = [information];
+    result.activeSignature = 0;
+    result.activeParameter = signature.activeParameter;
+    return result;
+  }
+}
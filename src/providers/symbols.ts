@@ -0,0 +1,45 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as vscode from "vscode";
+
+import { range2CodeRange } from "../converters";
+import { ItemFilterManager } from "../managers/item-filters";
+import { getBlockName, getFilterOutline, isFilterSection, OutlineNode } from "../parsers-nextgen";
+
+/**
+ * Provides the outline and breadcrumbs of an item filter, with each block
+ * nested within the section containing it.
+ */
+export class FilterSymbolProvider implements vscode.DocumentSymbolProvider {
+  private readonly _filterManager: ItemFilterManager;
+
+  constructor(filterManager: ItemFilterManager) {
+    this._filterManager = filterManager;
+  }
+
+  async provideDocumentSymbols(document: vscode.TextDocument, _token: vscode.CancellationToken):
+    Promise<vscode.DocumentSymbol[]> {
+
+    const payload = await this._filterManager.getPayload(document);
+    if (!payload) return [];
+
+    return getFilterOutline(payload.root).map(outlineNode2Symbol);
+  }
+}
+
+function outlineNode2Symbol(node: OutlineNode): vscode.DocumentSymbol {
+  if (isFilterSection(node)) {
+    const result = new vscode.DocumentSymbol(node.name, "", vscode.SymbolKind.Namespace,
+      range2CodeRange(node.range), range2CodeRange(node.headerRange));
+
+    result.children = node.children.map(outlineNode2Symbol);
+    return result;
+  } else {
+    return new vscode.DocumentSymbol(getBlockName(node), node.keyword.text,
+      vscode.SymbolKind.Struct, range2CodeRange(node.range), range2CodeRange(node.keyword.range));
+  }
+}
@@ -43,7 +43,7 @@ export class DocumentRegistry implements IDisposable {
   private readonly _subscriptions: CompositeDisposable;
 
   /** A list of active documents within the editor. */
-  get documents(): vscode.TextDocument[] {
+  get documents(): ReadonlyArray<vscode.TextDocument> {
     return vscode.workspace.textDocuments;
   }
 
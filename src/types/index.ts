@@ -111,6 +111,26 @@ export enum DiagnosticSeverity {
   Hint = 4
 }
 
+/** Identifies the issue reported by a diagnostic, allowing a fix to be offered for it. */
+export enum DiagnosticCode {
+  UnknownKeyword = "unknown-keyword",
+  RuleOutsideBlock = "rule-outside-block",
+  UnreadableLine = "unreadable-line",
+  TrailingText = "trailing-text",
+  RuleLimit = "rule-limit",
+  MultipleValueOperator = "multiple-value-operator",
+  UnexpectedOperator = "unexpected-operator",
+  IgnoredOperator = "ignored-operator",
+  MissingValue = "missing-value",
+  DuplicateValue = "duplicate-value",
+  InvalidQuotes = "invalid-quotes",
+  ValueOutOfRange = "value-out-of-range",
+  InvalidValue = "invalid-value",
+  InvalidSoundFile = "invalid-sound-file",
+  ShadowedBlock = "shadowed-block",
+  ConflictingConditions = "conflicting-conditions"
+}
+
 /** Represents a diagnostic, such as a compiler error or warning. */
 export interface Diagnostic {
   /** The range at which the message applies. */
@@ -124,6 +144,21 @@ export interface Diagnostic {
 
   /** The diagnostic's message. */
   message: string;
+
+  /** The code identifying the issue, if it's one we know how to identify. */
+  code?: DiagnosticCode;
+
+  /** Other ranges of the same document related to the diagnostic, such as a conflicting block. */
+  relatedInformation?: DiagnosticRelatedInformation[];
+}
+
+/** A range related to a diagnostic, along with a message describing that relationship. */
+export interface DiagnosticRelatedInformation {
+  /** The range of the related text. */
+  range: Range;
+
+  /** The message describing the relationship. */
+  message: string;
 }
 
 /** Represents a color range from a document. */
@@ -135,6 +170,15 @@ export interface ColorInformation {
   color: Color;
 }
 
+/** A textual edit applicable to a document. */
+export interface TextEdit {
+  /** The range of the text being replaced, which is empty for insertions. */
+  range: Range;
+
+  /** The text replacing the range, which is empty for deletions. */
+  newText: string;
+}
+
 export interface ConfigurationValues {
   baseWhitelist: string[];
   classWhitelist: string[];
@@ -147,17 +191,14 @@ export interface ConfigurationValues {
   booleanQuotes: boolean;
   rarityQuotes: boolean;
   modQuotes: boolean;
+  renameAcrossFilters: boolean;
+  inlayHints: boolean;
   verifyCustomSounds: boolean;
   windowsDocumentFolder: string;
   linuxMPGAvailable: boolean;
   linuxMPGPath: string;
 }
 
-export interface FilterContext {
-  config: ConfigurationValues;
-  blockFound: boolean;
-}
-
 export enum FilterOperator {
   Equals,
   GreaterThan,
@@ -165,9 +206,3 @@ export enum FilterOperator {
   LessThan,
   LessThanEquals
 }
-
-export interface BlockContext {
-  root?: Range;
-  classes: string[];
-  previousRules: Map<string, number>;
-}
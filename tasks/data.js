@@ -34,7 +34,11 @@ const itemData = JSON.parse(fs.readFileSync(itemDataPath, 'utf8'));
 const prophecyDataPath = path.join(dataSourceRoot, 'prophecies.json');
 const prophecyData = JSON.parse(fs.readFileSync(prophecyDataPath, 'utf8'));
 
+const parseDataPath = path.join(dataSourceRoot, 'parsers', 'GGG.json');
+const parseData = JSON.parse(fs.readFileSync(parseDataPath, 'utf8'));
+
 mkdirp.sync(dataOutputRoot);
+mkdirp.sync(path.join(dataOutputRoot, 'parsers'));
 
 const filterDataContent = JSON.stringify(filterData);
 const filterOutputFile = path.join(dataOutputRoot, 'filter.json');
@@ -66,6 +70,12 @@ fs.writeFile(modOutputFile, modDataContent, err => {
   if (err) throw err;
 });
 
+const parseDataContent = JSON.stringify(parseData);
+const parseOutputFile = path.join(dataOutputRoot, 'parsers', 'GGG.json');
+fs.writeFile(parseOutputFile, parseDataContent, err => {
+  if (err) throw err;
+});
+
 // We need to create the following object in memory, then output it to the file:
 //  .classesToBases -- essentially the YAML file's object.
 //  .basesToClasses -- the list of item bases with their associated class.
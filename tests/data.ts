@@ -0,0 +1,45 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import { ItemSourceData, ModData } from "../src/types";
+import { FilterParseData, FilterValidator, ValidationOptions } from "../src/parsers-nextgen";
+
+/** The directory containing the source data of the extension. */
+export const dataRoot = path.join(__dirname, "..", "build", "data");
+
+export const parseData = <FilterParseData>require(path.join(dataRoot, "parsers", "GGG.json"));
+
+/** The item bases of each item class. */
+export const classesToBases = <ItemSourceData>require(path.join(dataRoot, "items.json"));
+
+const modData = <ModData>require(path.join(dataRoot, "mods.json"));
+const prophecyData = <string[]>require(path.join(dataRoot, "prophecies.json"));
+
+/** The item classes, in the order given by the item data. */
+const itemClasses = Object.keys(classesToBases);
+
+/** The item bases, sorted by their length and then alphabetically as done by `tasks/data.js`. */
+const itemBases = itemClasses.reduce<string[]>((r, c) => r.concat(classesToBases[c]), [])
+  .sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+/**
+ * The validator for item filters, built from the same item data as the
+ * validator used by the extension.
+ */
+export const validator = new FilterValidator(parseData, {
+  itemBases,
+  itemClasses,
+  itemMods: [...modData.prefixes, ...modData.suffixes],
+  prophecies: prophecyData
+});
+
+/** The options used during validation when the extension has its default configuration. */
+export const defaultOptions: ValidationOptions = {
+  ruleWhitelist: [],
+  valueWhitelists: {}
+};
@@ -245,3 +245,28 @@ describe("stylizedArrayJoin", () => {
     expect(helpers.stylizedArrayJoin([1, 2, 3], true)).toStrictEqual("1, 2, or 3");
   });
 });
+
+describe("escapeHtml", () => {
+  test("escapes characters with special meaning within HTML", () => {
+    expect(helpers.escapeHtml("<a href=\"x\">Tom & Jerry's</a>")).toStrictEqual(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;");
+  });
+
+  test("leaves other text untouched", () => {
+    expect(helpers.escapeHtml("Vaal Regalia")).toStrictEqual("Vaal Regalia");
+  });
+});
+
+describe("createNonce", () => {
+  test("returns a different value each time", () => {
+    expect(helpers.createNonce()).not.toStrictEqual(helpers.createNonce());
+  });
+});
+
+describe("renderCspMeta", () => {
+  test("allows only the scripts having the nonce", () => {
+    expect(helpers.renderCspMeta("vscode-resource:", "abc")).toStrictEqual(
+      "<meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'; " +
+      "img-src vscode-resource: data:; style-src 'unsafe-inline'; script-src 'nonce-abc';\">");
+  });
+});
@@ -0,0 +1,70 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import { findContradictions } from "../../src/items";
+import { BlockNode, parseFilter } from "../../src/parsers-nextgen";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const classesToBases = <{ [itemClass: string]: string[] }>require(
+  path.join(dataRoot, "items.json"));
+
+/** Returns the keyword and line of each conflicting rule within the first block of the text. */
+function conflicts(text: string): Array<Array<[string, number]>> {
+  const block = <BlockNode>parseFilter(text).children[0];
+  return findContradictions(block, classesToBases).map(c =>
+    c.rules.map<[string, number]>(r => [r.keyword.text, r.range.start.line]));
+}
+
+describe("findContradictions", () => {
+  test("returns nothing for blocks able to catch an item", () => {
+    const text = "Show\n  ItemLevel > 60\n  ItemLevel < 80\n  Rarity >= Magic\n" +
+      "  Class Rings\n  BaseType Ruby Gold\n  Corrupted True";
+    expect(conflicts(text)).toStrictEqual([]);
+  });
+
+  test("finds number conditions with no values in common", () => {
+    expect(conflicts("Show\n  ItemLevel > 80\n  ItemLevel < 60")).toStrictEqual(
+      [[["ItemLevel", 1], ["ItemLevel", 2]]]);
+    expect(conflicts("Show\n  Quality 5 10\n  Quality > 10")).toStrictEqual(
+      [[["Quality", 1], ["Quality", 2]]]);
+  });
+
+  test("returns only the number conditions that conflict", () => {
+    const text = "Show\n  ItemLevel > 50\n  ItemLevel > 80\n  ItemLevel < 60";
+    expect(conflicts(text)).toStrictEqual([[["ItemLevel", 2], ["ItemLevel", 3]]]);
+  });
+
+  test("finds number conditions with values that no item has", () => {
+    expect(conflicts("Show\n  Sockets < 0")).toStrictEqual([[["Sockets", 1]]]);
+    expect(conflicts("Show\n  Rarity > Unique")).toStrictEqual([[["Rarity", 1]]]);
+  });
+
+  test("compares rarities by their order", () => {
+    expect(conflicts("Show\n  Rarity Unique\n  Rarity < Rare")).toStrictEqual(
+      [[["Rarity", 1], ["Rarity", 2]]]);
+    expect(conflicts("Show\n  Rarity Unique\n  Rarity > Rare")).toStrictEqual([]);
+  });
+
+  test("finds conflicting boolean conditions", () => {
+    expect(conflicts("Show\n  Corrupted True\n  Corrupted \"false\"")).toStrictEqual(
+      [[["Corrupted", 1], ["Corrupted", 2]]]);
+  });
+
+  test("finds item bases that don't belong to any of the classes", () => {
+    expect(conflicts("Show\n  BaseType \"Vaal Regalia\"\n  Class Rings Amulets")).toStrictEqual(
+      [[["BaseType", 1], ["Class", 2]]]);
+    expect(conflicts("Show\n  Class Rings\n  Class Amulets")).toStrictEqual(
+      [[["Class", 1], ["Class", 2]]]);
+    expect(conflicts("Show\n  Class Armours\n  BaseType Regalia")).toStrictEqual([]);
+  });
+
+  test("ignores values that don't appear within the data", () => {
+    expect(conflicts("Show\n  Class \"Custom Rings\"\n  BaseType \"Vaal Regalia\""))
+      .toStrictEqual([]);
+  });
+});
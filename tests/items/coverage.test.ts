@@ -0,0 +1,107 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import {
+  addBaseCoverage, addBlockMatches, BlockMatches, CoverageReport, createBlockMatches,
+  createCoverageReport, getHiddenBases, getUnmatchedBases, isCaughtEarlier
+} from "../../src/items";
+import { FilterNode, parseFilter, reparseFilter } from "../../src/parsers-nextgen";
+
+/** Creates a coverage report for the filter using a few item bases. */
+function report(text: string): CoverageReport {
+  const root = parseFilter(text);
+  const result = createCoverageReport(root);
+
+  addBaseCoverage(result, root, "Vaal Regalia", "Body Armours");
+  addBaseCoverage(result, root, "Chaos Orb", "Stackable Currency");
+  addBaseCoverage(result, root, "Ruby Ring", "Rings");
+
+  return result;
+}
+
+/** Creates the block matches for the filter using the same item bases. */
+function blockMatches(text: string | FilterNode, previous?: BlockMatches): BlockMatches {
+  const result = createBlockMatches(typeof text === "string" ? parseFilter(text) : text,
+    previous);
+
+  addBlockMatches(result, "Vaal Regalia", "Body Armours");
+  addBlockMatches(result, "Chaos Orb", "Stackable Currency");
+  addBlockMatches(result, "Ruby Ring", "Rings");
+
+  return result;
+}
+
+describe("addBaseCoverage", () => {
+  test("tests each base at every rarity and item level", () => {
+    const result = report("Show\n  Rarity Unique\nHide\n  ItemLevel < 68\n  Class Rings");
+    expect(result.bases[2]).toStrictEqual({
+      baseType: "Ruby Ring", class: "Rings", shown: 4, hidden: 3, unmatched: 9
+    });
+  });
+
+  test("counts the items caught by each block", () => {
+    const result = report("Show\n  Class Currency\nHide\n  Rarity Normal\nShow\nShow");
+    expect([...result.blocks.values()]).toStrictEqual([16, 8, 24, 0]);
+  });
+});
+
+describe("getHiddenBases", () => {
+  test("returns the bases hidden at every rarity and item level", () => {
+    const result = report("Show\n  Class Currency\nHide\n  Rarity < Unique\nHide\n  BaseType Ring");
+    expect(getHiddenBases(result).map(b => b.baseType)).toStrictEqual(["Ruby Ring"]);
+  });
+});
+
+describe("getUnmatchedBases", () => {
+  test("returns the bases with any item caught by no block", () => {
+    const result = report("Show\n  Class Currency\nHide\n  Rarity < Unique");
+    expect(getUnmatchedBases(result).map(b => [b.baseType, b.unmatched])).toStrictEqual(
+      [["Vaal Regalia", 4], ["Ruby Ring", 4]]);
+  });
+});
+
+describe("addBlockMatches", () => {
+  test("adds the bases meeting the conditions of each block", () => {
+    const result = blockMatches("Show\n  BaseType Ring Orb\n  Rarity Rare\nShow\n  Class Armour");
+    expect([...result.blocks.values()].map(m => m.map(b => b.baseType))).toStrictEqual(
+      [["Chaos Orb", "Ruby Ring"], ["Vaal Regalia"]]);
+  });
+
+  test("counts the items caught by an earlier block", () => {
+    const result = blockMatches("Show\n  Class Rings\n  ItemLevel >= 75\n" +
+      "Hide\n  Class Currency\nShow\n  BaseType Ring Orb");
+    expect([...result.blocks.values()][2]).toStrictEqual([
+      { baseType: "Chaos Orb", class: "Stackable Currency", items: 16, caughtEarlier: 16 },
+      { baseType: "Ruby Ring", class: "Rings", items: 16, caughtEarlier: 8 }
+    ]);
+  });
+
+  test("reuses the matches of the blocks preceding the changes to a filter", () => {
+    const text = "Show\n  Class Rings\n  ItemLevel >= 75\nHide\n  Class Currency\n" +
+      "Show\n  BaseType Ring Orb\nShow";
+    const previousRoot = parseFilter(text);
+    const previous = blockMatches(previousRoot);
+
+    const changes = [{
+      range: { start: { line: 6, character: 18 }, end: { line: 6, character: 18 } },
+      text: " Regalia"
+    }];
+    const currentText = text.replace("Ring Orb", "Ring Orb Regalia");
+    const { root } = reparseFilter(previousRoot, currentText, changes);
+    const result = blockMatches(root, previous);
+
+    expect(result.reusedBlocks).toStrictEqual(2);
+    expect([...result.blocks.values()]).toStrictEqual(
+      [...blockMatches(currentText).blocks.values()]);
+  });
+});
+
+describe("isCaughtEarlier", () => {
+  test("returns whether every item of the base was caught by an earlier block", () => {
+    const result = blockMatches("Show\n  Class Currency\nShow\n  Rarity Rare\nShow");
+    expect([...result.blocks.values()][2].map(isCaughtEarlier)).toStrictEqual([false, true, false]);
+  });
+});
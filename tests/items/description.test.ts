@@ -0,0 +1,52 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { parseItemDescription, parseSockets } from "../../src/items";
+
+describe("parseItemDescription", () => {
+  test("accepts a base type by itself", () => {
+    expect(parseItemDescription("Vaal Regalia")).toStrictEqual({ baseType: "Vaal Regalia" });
+  });
+
+  test("parses each of the filter conditions", () => {
+    const description = parseItemDescription("Vaal Regalia, Rarity rare, ItemLevel 84," +
+      " Sockets R-G-B B, Corrupted, ShaperItem False, HasExplicitMod \"Tyrannical\"");
+
+    expect(description).toStrictEqual({
+      baseType: "Vaal Regalia",
+      rarity: "Rare",
+      itemLevel: 84,
+      sockets: ["RGB", "B"],
+      corrupted: true,
+      shaperItem: false,
+      explicitMods: ["Tyrannical"]
+    });
+  });
+
+  test("accepts the base type anywhere when given using its keyword", () => {
+    expect(parseItemDescription("StackSize 10, BaseType \"Chaos Orb\"")).toStrictEqual({
+      baseType: "Chaos Orb",
+      stackSize: 10
+    });
+  });
+
+  test("throws for invalid descriptions", () => {
+    expect(() => parseItemDescription("Rarity Rare")).toThrow("base type");
+    expect(() => parseItemDescription("Vaal Regalia, Rarity Legendary")).toThrow("Rarity");
+    expect(() => parseItemDescription("Vaal Regalia, ItemLevel high")).toThrow("ItemLevel");
+    expect(() => parseItemDescription("Vaal Regalia, Links 6")).toThrow("Links 6");
+  });
+});
+
+describe("parseSockets", () => {
+  test("splits the sockets into groups of linked sockets", () => {
+    expect(parseSockets("R-G-B-B W")).toStrictEqual(["RGBB", "W"]);
+  });
+
+  test("throws for unknown socket colors", () => {
+    expect(() => parseSockets("R-X")).toThrow("R-X");
+  });
+});
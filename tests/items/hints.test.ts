@@ -0,0 +1,80 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import { FilterData } from "../../src/types";
+import { getColorName, getInlayHints } from "../../src/items";
+import { parseFilter } from "../../src/parsers-nextgen";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const filterData = <FilterData>require(path.join(dataRoot, "filter.json"));
+
+/** Returns the line with each of its hints inserted, such as `PlayAlertSound id: 1`. */
+function getHintedText(line: string): string {
+  const hints = getInlayHints(parseFilter(line), filterData);
+  let result = line;
+
+  for (const hint of [...hints].reverse()) {
+    const offset = hint.position.character;
+    const label = hint.parameter ? `${hint.label} ` : ` ${hint.label}`;
+    result = result.slice(0, offset) + label + result.slice(offset);
+  }
+
+  return result;
+}
+
+describe("getInlayHints", () => {
+  test("names the identifier and volume of alert sounds", () => {
+    expect(getHintedText("PlayAlertSound 10 300")).toStrictEqual(
+      "PlayAlertSound id: 10 volume: 300 (100%)");
+    expect(getHintedText("PlayAlertSoundPositional ShExalted 150")).toStrictEqual(
+      "PlayAlertSoundPositional id: ShExalted (Exalted Orb) volume: 150 (50%)");
+  });
+
+  test("names the size of minimap icons", () => {
+    expect(getHintedText("MinimapIcon 0 Red Star")).toStrictEqual(
+      "MinimapIcon size: 0 (large) Red Star");
+    expect(getHintedText("MinimapIcon 2 Red Star")).toStrictEqual(
+      "MinimapIcon size: 2 (small) Red Star");
+  });
+
+  test("describes notable font sizes", () => {
+    expect(getHintedText("SetFontSize 45")).toStrictEqual("SetFontSize 45 (max)");
+    expect(getHintedText("SetFontSize 32")).toStrictEqual("SetFontSize 32 (default)");
+    expect(getHintedText("SetFontSize 40")).toStrictEqual("SetFontSize 40");
+  });
+
+  test("names the nearest color of color rules", () => {
+    expect(getHintedText("SetTextColor 250 10 5")).toStrictEqual("SetTextColor 250 10 5 (red)");
+    expect(getHintedText("SetBackgroundColor 0 0 120 200 # Tier 1")).toStrictEqual(
+      "SetBackgroundColor 0 0 120 200 (navy) # Tier 1");
+  });
+
+  test("finds the rules of every block", () => {
+    const hints = getInlayHints(parseFilter("Show\n  SetFontSize 45\nShow\n  SetFontSize 50"),
+      filterData);
+    expect(hints.map(h => h.position.line)).toStrictEqual([1, 3]);
+  });
+
+  test("ignores invalid values", () => {
+    expect(getHintedText("PlayAlertSound 17 300")).toStrictEqual("PlayAlertSound 17 300");
+    expect(getHintedText("PlayAlertSound ShUnknown")).toStrictEqual("PlayAlertSound ShUnknown");
+    expect(getHintedText("PlayAlertSound 1 400")).toStrictEqual("PlayAlertSound id: 1 400");
+    expect(getHintedText("MinimapIcon 3 Red Star")).toStrictEqual("MinimapIcon 3 Red Star");
+    expect(getHintedText("SetFontSize 60")).toStrictEqual("SetFontSize 60");
+    expect(getHintedText("SetBorderColor 0 0 300")).toStrictEqual("SetBorderColor 0 0 300");
+  });
+});
+
+describe("getColorName", () => {
+  test("returns the name of the closest color", () => {
+    expect(getColorName(0, 0, 0)).toStrictEqual("black");
+    expect(getColorName(100, 0, 0)).toStrictEqual("maroon");
+    expect(getColorName(240, 240, 230)).toStrictEqual("white");
+    expect(getColorName(255, 200, 0)).toStrictEqual("gold");
+  });
+});
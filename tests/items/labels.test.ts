@@ -0,0 +1,111 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import {
+  color2Css, defaultLabelStyles, getItemLabel, getSampleBases, renderLabelHtml
+} from "../../src/items";
+import { BlockNode, isBlockNode, parseFilter } from "../../src/parsers-nextgen";
+
+const classesToBases = {
+  "Body Armours": ["Vaal Regalia", "Sadist Garb"],
+  "Rings": ["Ruby Ring", "Opal Ring"],
+  "Stackable Currency": ["Chaos Orb", "Exalted Orb", "Orb of Alchemy"]
+};
+
+function parseBlock(text: string): BlockNode {
+  const block = parseFilter(text).children.find(isBlockNode);
+  if (!block) throw new Error("expected a block");
+  return block;
+}
+
+describe("getSampleBases", () => {
+  test("returns the bases meeting the class and base conditions", () => {
+    const block = parseBlock("Show\n  Class Currency Rings\n  BaseType Orb Ruby\n  Rarity Rare");
+    expect(getSampleBases(block, classesToBases)).toStrictEqual(
+      ["Chaos Orb", "Exalted Orb", "Orb of Alchemy", "Ruby Ring"]);
+  });
+
+  test("orders the bases by the base value they contain", () => {
+    const block = parseBlock("Show\n  BaseType \"Exalted Orb\" Ring \"Chaos Orb\"");
+    expect(getSampleBases(block, classesToBases)).toStrictEqual(
+      ["Exalted Orb", "Ruby Ring", "Opal Ring", "Chaos Orb"]);
+    expect(getSampleBases(block, classesToBases, 2)).toStrictEqual(["Exalted Orb", "Ruby Ring"]);
+  });
+
+  test("returns every base for blocks without any class or base conditions", () => {
+    expect(getSampleBases(parseBlock("Hide\n  ItemLevel > 1"), classesToBases)).toHaveLength(7);
+  });
+});
+
+describe("getItemLabel", () => {
+  test("uses the styles of the block", () => {
+    const block = parseBlock("Show\n  BaseType Regalia\n  SetTextColor 255 0 0\n" +
+      "  SetBorderColor 0 0 0 0\n  SetBackgroundColor 255 255 255 255\n  SetFontSize 45");
+
+    expect(getItemLabel(block, classesToBases)).toStrictEqual({
+      text: "Vaal Regalia",
+      textColor: { red: 1, green: 0, blue: 0, alpha: 1 },
+      backgroundColor: { red: 1, green: 1, blue: 1, alpha: 1 },
+      borderColor: { red: 0, green: 0, blue: 0, alpha: 0 },
+      fontSize: 45
+    });
+  });
+
+  test("clamps the font size to the largest drawn by the game", () => {
+    const label = getItemLabel(parseBlock("Show\n  Class Rings\n  SetFontSize 50"),
+      classesToBases);
+    expect(label.fontSize).toStrictEqual(45);
+  });
+
+  test("uses the default styles of the game when the block sets none", () => {
+    expect(getItemLabel(parseBlock("Show\n  Class Rings"), classesToBases)).toStrictEqual({
+      text: "Ruby Ring",
+      textColor: defaultLabelStyles.textColor,
+      backgroundColor: defaultLabelStyles.backgroundColor,
+      borderColor: undefined,
+      fontSize: defaultLabelStyles.fontSize
+    });
+  });
+
+  test("uses the value of a condition when no known base is caught", () => {
+    const label = (text: string) => getItemLabel(parseBlock(text), classesToBases).text;
+
+    expect(label("Show\n  Class Rings\n  BaseType \"Custom Ring\"")).toStrictEqual("Custom Ring");
+    expect(label("Show\n  Class \"Divination Card\"")).toStrictEqual("Divination Card");
+  });
+
+  test("reuses the sample base of blocks with the same class and base conditions", () => {
+    const cache = new Map<string, string | undefined>();
+    const label = (text: string) => getItemLabel(parseBlock(text), classesToBases, cache).text;
+
+    expect(label("Show\n  Class Rings\n  BaseType Ring\n  SetFontSize 40")).toStrictEqual(
+      "Ruby Ring");
+    expect(cache.size).toStrictEqual(1);
+    expect(label("Hide\n  Class Rings\n  ItemLevel > 1\n  BaseType Ring")).toStrictEqual(
+      "Ruby Ring");
+    expect(label("Show\n  Class Rings\n  BaseType Opal")).toStrictEqual("Opal Ring");
+    expect(cache.size).toStrictEqual(2);
+  });
+});
+
+describe("color2Css", () => {
+  test("returns the color as an rgba function", () => {
+    expect(color2Css({ red: 1, green: 0.5, blue: 0, alpha: 200 / 255 })).toStrictEqual(
+      "rgba(255, 128, 0, 0.784)");
+  });
+});
+
+describe("renderLabelHtml", () => {
+  test("renders the label using its styles", () => {
+    const label = getItemLabel(parseBlock("Show\n  BaseType \"Custom <Base>\"\n" +
+      "  SetTextColor 255 0 0 128\n  SetFontSize 40"), classesToBases);
+
+    expect(renderLabelHtml(label, "label")).toStrictEqual("<span class=\"label\" style=\"" +
+      "display: inline-block; padding: 0.2em 0.6em; color: rgba(255, 0, 0, 0.502); " +
+      "background: rgba(0, 0, 0, 0.941); border: 1px solid transparent; font-size: 20px\">" +
+      "Custom &lt;Base&gt;</span>");
+  });
+});
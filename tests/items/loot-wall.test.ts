@@ -0,0 +1,69 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import {
+  getLootWall, isLootWallSection, LootWallEntry, renderLabelHtml, renderLootWallHtml
+} from "../../src/items";
+import { parseFilter } from "../../src/parsers-nextgen";
+
+const classesToBases = {
+  "Rings": ["Ruby Ring", "Opal Ring"],
+  "Stackable Currency": ["Chaos Orb", "Exalted Orb"]
+};
+
+/** Describes the loot wall using the name of each section and the text of each label. */
+function describeLootWall(entries: LootWallEntry[]): Array<string | object> {
+  return entries.map(e => isLootWallSection(e) ? { [e.name]: describeLootWall(e.children) } :
+    e.label.text);
+}
+
+describe("getLootWall", () => {
+  test("nests the labels of blocks within the sections containing them", () => {
+    const text = "Show\n  Class Rings\n#=====\n# Currency\n#=====\nShow\n  BaseType Exalted\n" +
+      "#---\n# Chaos\n#---\nShow\n  BaseType Chaos\nHide\n  BaseType Mirror";
+
+    expect(describeLootWall(getLootWall(parseFilter(text), classesToBases))).toStrictEqual([
+      "Ruby Ring",
+      { Currency: ["Exalted Orb", { Chaos: ["Chaos Orb", "Mirror"] }] }
+    ]);
+  });
+
+  test("links each label to its block", () => {
+    const [entry] = getLootWall(parseFilter("\nHide\n  Class Rings"), classesToBases);
+
+    expect(entry).toMatchObject({
+      line: 1,
+      title: "Hide block on line 2: Rings",
+      hidden: true
+    });
+  });
+});
+
+describe("renderLootWallHtml", () => {
+  test("renders a heading for each section above the labels of its blocks", () => {
+    const entries = getLootWall(parseFilter("Show\n  Class Rings\n#=====\n# Currency\n#=====\n" +
+      "Hide\n  BaseType Chaos"), classesToBases);
+    const [ringLabel, currencySection] = entries;
+    if (isLootWallSection(ringLabel) || !isLootWallSection(currencySection)) {
+      throw new Error("expected a label followed by a section");
+    }
+
+    const [chaosLabel] = currencySection.children;
+    if (isLootWallSection(chaosLabel)) throw new Error("expected a label");
+
+    expect(renderLootWallHtml(entries)).toStrictEqual(
+      "<div class=\"labels\"><a href=\"#\" data-line=\"0\" title=\"Show block on line 1: Rings\">" +
+      `${renderLabelHtml(ringLabel.label)}</a></div>\n` +
+      "<section><h2>Currency</h2><div class=\"labels\"><a href=\"#\" data-line=\"5\"" +
+      " class=\"hidden\" title=\"Hide block on line 6: Chaos\">" +
+      `${renderLabelHtml(chaosLabel.label)}</a></div></section>`);
+  });
+
+  test("escapes the names of sections", () => {
+    expect(renderLootWallHtml([{ name: "<Maps>", level: 1, children: [] }])).toStrictEqual(
+      "<section><h2>&lt;Maps&gt;</h2></section>");
+  });
+});
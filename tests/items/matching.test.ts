@@ -0,0 +1,179 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  createItem, findNearMisses, getFailedConditions, getRuleColor, ItemDescription, matchItem
+} from "../../src/items";
+import { BlockNode, isRuleNode, parseFilter } from "../../src/parsers-nextgen";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+const itemData = <{ [itemClass: string]: string[] }>require(path.join(dataRoot, "items.json"));
+const basesToClasses: { [base: string]: string } = {};
+for (const itemClass in itemData) {
+  for (const base of itemData[itemClass]) {
+    basesToClasses[base] = itemClass;
+  }
+}
+
+function item(description: ItemDescription) {
+  return createItem(description, basesToClasses);
+}
+
+/** Returns the line of the block catching the item, if any. */
+function matchLine(text: string, description: ItemDescription): number | undefined {
+  const match = matchItem(parseFilter(text), item(description));
+  return match ? match.block.range.start.line : undefined;
+}
+
+describe("createItem", () => {
+  test("determines the class of the item from its base type", () => {
+    expect(item({ baseType: "Vaal Regalia" }).class).toStrictEqual("Body Armours");
+    expect(item({ baseType: "Chaos Orb" }).class).toStrictEqual("Stackable Currency");
+  });
+
+  test("prefers any class given within the description", () => {
+    expect(item({ baseType: "Chaos Orb", class: "Currency" }).class).toStrictEqual("Currency");
+  });
+
+  test("throws for unknown item bases without a class", () => {
+    expect(() => item({ baseType: "Chaos Orbs" })).toThrow("Chaos Orbs");
+  });
+});
+
+describe("matchItem", () => {
+  test("returns the first block with every condition met", () => {
+    const text = "Show\n  Rarity Unique\nHide\n  BaseType \"Vaal Regalia\"\nShow";
+    expect(matchLine(text, { baseType: "Vaal Regalia" })).toStrictEqual(2);
+    expect(matchLine(text, { baseType: "Vaal Regalia", rarity: "Unique" })).toStrictEqual(0);
+    expect(matchLine(text, { baseType: "Chaos Orb" })).toStrictEqual(4);
+  });
+
+  test("returns nothing when no block catches the item", () => {
+    expect(matchLine("Show\n  Rarity Rare", { baseType: "Chaos Orb" })).toBeUndefined();
+  });
+
+  test("compares numbers using the operator of the rule", () => {
+    const description: ItemDescription = { baseType: "Vaal Regalia", itemLevel: 84 };
+    expect(matchLine("Show\n  ItemLevel >= 84", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  ItemLevel > 84", description)).toBeUndefined();
+    expect(matchLine("Show\n  ItemLevel 83 84", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  ItemLevel \"84\"", description)).toStrictEqual(0);
+  });
+
+  test("compares rarities by their order", () => {
+    const description: ItemDescription = { baseType: "Vaal Regalia", rarity: "Rare" };
+    expect(matchLine("Show\n  Rarity >= Magic", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  Rarity < Rare", description)).toBeUndefined();
+  });
+
+  test("matches partial classes, bases, and mods", () => {
+    const description: ItemDescription = {
+      baseType: "Vaal Regalia",
+      explicitMods: ["Tyrannical", "of the Lightning"]
+    };
+
+    expect(matchLine("Show\n  Class Armour\n  BaseType Regalia", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  HasExplicitMod Lightning", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  BaseType regalia", description)).toBeUndefined();
+  });
+
+  test("matches sockets, links, and socket groups", () => {
+    const description: ItemDescription = { baseType: "Vaal Regalia", sockets: ["RGBBBB"] };
+    expect(matchLine("Show\n  LinkedSockets 6", description)).toStrictEqual(0);
+    expect(matchLine("Show\n  SocketGroup RGBB", description)).toStrictEqual(0);
+
+    const split: ItemDescription = { baseType: "Vaal Regalia", sockets: ["RGB", "BBB"] };
+    expect(matchLine("Show\n  Sockets 6", split)).toStrictEqual(0);
+    expect(matchLine("Show\n  LinkedSockets >= 4", split)).toBeUndefined();
+    expect(matchLine("Show\n  SocketGroup RGBB", split)).toBeUndefined();
+  });
+
+  test("matches boolean conditions", () => {
+    const description: ItemDescription = { baseType: "Vaal Regalia", corrupted: true };
+    expect(matchLine("Show\n  Corrupted True\n  ShaperItem False", description))
+      .toStrictEqual(0);
+    expect(matchLine("Show\n  Corrupted \"false\"", description)).toBeUndefined();
+  });
+
+  test("never matches gem or map conditions for other items", () => {
+    expect(matchLine("Show\n  GemLevel >= 1", { baseType: "Vaal Regalia" })).toBeUndefined();
+    expect(matchLine("Show\n  MapTier >= 1", { baseType: "Vaal Regalia" })).toBeUndefined();
+  });
+
+  test("returns the styles of the block", () => {
+    const text = "Hide\n  SetTextColor 255 0 0\n  SetBackgroundColor 0 0 0 51\n" +
+      "  SetFontSize 45\n  PlayAlertSound 6 300\n  MinimapIcon 0 Red Star\n" +
+      "  PlayEffect Blue Temp\n  DisableDropSound";
+    const match = matchItem(parseFilter(text), item({ baseType: "Exalted Orb" }));
+
+    expect(match && match.visible).toStrictEqual(false);
+    expect(match && match.styles).toStrictEqual({
+      textColor: { red: 1, green: 0, blue: 0, alpha: 1 },
+      backgroundColor: { red: 0, green: 0, blue: 0, alpha: 0.2 },
+      fontSize: 45,
+      alertSound: { identifier: "6", volume: 300, positional: false },
+      dropSound: false,
+      minimapIcon: { size: 0, color: "Red", shape: "Star" },
+      effect: { color: "Blue", temporary: true }
+    });
+  });
+
+  test("catches items within the example filters", () => {
+    const text = fs.readFileSync(path.join(examplesRoot, "GGG.filter"), "utf8");
+    const match = matchItem(parseFilter(text), item({ baseType: "Mirror of Kalandra" }));
+    expect(match && match.visible).toStrictEqual(true);
+  });
+});
+
+describe("getFailedConditions", () => {
+  test("returns each condition not met by the item", () => {
+    const root = parseFilter("Show\n  ItemLevel > 80\n  Rarity Rare\n  SetFontSize 45");
+    const failed = getFailedConditions(<BlockNode>root.children[0],
+      item({ baseType: "Vaal Regalia", itemLevel: 84 }));
+
+    expect(failed.map(r => r.keyword.text)).toStrictEqual(["Rarity"]);
+  });
+});
+
+describe("findNearMisses", () => {
+  test("returns the blocks preceding the match which failed a single condition", () => {
+    const text = "Show\n  Rarity Unique\n  ItemLevel > 90\nShow\n  ItemLevel > 85\n" +
+      "Show\n  Class Armours\nShow\n  Rarity Rare";
+    const nearMisses = findNearMisses(parseFilter(text),
+      item({ baseType: "Vaal Regalia", itemLevel: 84, rarity: "Rare" }));
+
+    expect(nearMisses.map(n => n.block.range.start.line)).toStrictEqual([3]);
+    expect(nearMisses[0].condition.keyword.text).toStrictEqual("ItemLevel");
+  });
+});
+
+describe("getRuleColor", () => {
+  const ruleColor = (text: string) => {
+    const rule = parseFilter(text).children.find(isRuleNode);
+    return rule ? getRuleColor(rule) : undefined;
+  };
+
+  test("returns the color and the range of its values", () => {
+    expect(ruleColor("SetTextColor 255 0 51 # Red")).toStrictEqual({
+      color: { red: 1, green: 0, blue: 0.2, alpha: 1 },
+      range: { start: { line: 0, character: 13 }, end: { line: 0, character: 21 } }
+    });
+    expect(ruleColor("SetBorderColor 0 0 0 0")).toStrictEqual({
+      color: { red: 0, green: 0, blue: 0, alpha: 0 },
+      range: { start: { line: 0, character: 15 }, end: { line: 0, character: 22 } }
+    });
+  });
+
+  test("returns nothing for rules with fewer than three leading numbers", () => {
+    expect(ruleColor("SetTextColor 255 0")).toBeUndefined();
+    expect(ruleColor("SetTextColor 255 Red 0")).toBeUndefined();
+  });
+});
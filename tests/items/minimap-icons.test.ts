@@ -0,0 +1,60 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { FilterData } from "../../src/types";
+import { getMinimapIconImage } from "../../src/items";
+import { isRuleNode, parseFilter, RuleNode } from "../../src/parsers-nextgen";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const imageRoot = path.join(__dirname, "..", "..", "build", "images");
+const filterData = <FilterData>require(path.join(dataRoot, "filter.json"));
+
+function parseRule(text: string): RuleNode {
+  const rule = parseFilter(text).children.find(isRuleNode);
+  if (!rule) throw new Error("expected a rule");
+  return rule;
+}
+
+describe("getMinimapIconImage", () => {
+  test("returns the image of the icon", () => {
+    expect(getMinimapIconImage(parseRule("MinimapIcon 0 Red Star"), filterData)).toStrictEqual(
+      "minimap-icons/star_red_0.png");
+    expect(getMinimapIconImage(parseRule("MinimapIcon 2 \"Yellow\" Hexagon"), filterData))
+      .toStrictEqual("minimap-icons/hexagon_yellow_2.png");
+  });
+
+  test("returns an image shipped with the extension for each valid icon", () => {
+    const { sizes, colors, shapes } = filterData.minimapIcons;
+
+    for (const size of sizes) {
+      for (const color of colors) {
+        for (const shape of shapes) {
+          const image = getMinimapIconImage(parseRule(`MinimapIcon ${size} ${color} ${shape}`),
+            filterData);
+
+          expect(image).toBeDefined();
+          expect(fs.existsSync(path.join(imageRoot, image!))).toBe(true);
+        }
+      }
+    }
+  });
+
+  test("returns nothing for invalid values", () => {
+    const image = (text: string) => getMinimapIconImage(parseRule(text), filterData);
+
+    expect(image("MinimapIcon 3 Red Star")).toBeUndefined();
+    expect(image("MinimapIcon 0 red Star")).toBeUndefined();
+    expect(image("MinimapIcon 0 Red Octagon")).toBeUndefined();
+    expect(image("MinimapIcon 0 Red")).toBeUndefined();
+  });
+
+  test("returns nothing for other rules", () => {
+    expect(getMinimapIconImage(parseRule("PlayEffect Red"), filterData)).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { findReferences } from "../../src/items";
+import { parseFilter } from "../../src/parsers-nextgen";
+
+/** Returns the text of each reference to the value at the given position. */
+function referencedText(text: string, line: number, character: number): string[] {
+  const lines = text.split("\n");
+
+  return findReferences(parseFilter(text), { line, character }).map(range =>
+    `${range.start.line}: ${lines[range.start.line].slice(range.start.character,
+      range.end.character)}`);
+}
+
+describe("findReferences", () => {
+  test("finds the item values that would catch the item", () => {
+    const text = "Show\n  BaseType \"Exalted Orb\"\nShow\n  BaseType \"Orb\" Chaos\n" +
+      "Show\n  Class Orb\n  BaseType \"Exalted Orb Shard\" Exalted";
+
+    expect(referencedText(text, 1, 14)).toStrictEqual([
+      "1: \"Exalted Orb\"",
+      "3: \"Orb\"",
+      "6: Exalted"
+    ]);
+    expect(referencedText(text, 3, 13)).toStrictEqual(["3: \"Orb\""]);
+  });
+
+  test("finds the colors with the same components", () => {
+    const text = "Show\n  SetTextColor 255 0 0\n  SetBorderColor 255 0 0 255\nShow\n" +
+      "  SetTextColor 255 0 0 200\n  SetBackgroundColor 255 0 0 # Red";
+
+    expect(referencedText(text, 1, 16)).toStrictEqual([
+      "1: 255 0 0",
+      "2: 255 0 0 255",
+      "5: 255 0 0"
+    ]);
+    expect(referencedText(text, 4, 26)).toStrictEqual(["4: 255 0 0 200"]);
+  });
+
+  test("finds the alert sounds with the same identifier", () => {
+    const text = "Show\n  PlayAlertSound 6 300\nShow\n  PlayAlertSoundPositional 6\n" +
+      "Show\n  PlayAlertSound 16 6";
+
+    expect(referencedText(text, 1, 17)).toStrictEqual(["1: 6", "3: 6"]);
+    expect(referencedText(text, 1, 20)).toStrictEqual([]);
+  });
+
+  test("finds nothing for other text", () => {
+    const text = "Show\n  BaseType \"Exalted Orb\"\n  ItemLevel 75\n  SetFontSize 45";
+
+    expect(referencedText(text, 0, 2)).toStrictEqual([]);
+    expect(referencedText(text, 1, 4)).toStrictEqual([]);
+    expect(referencedText(text, 2, 13)).toStrictEqual([]);
+    expect(referencedText(text, 3, 16)).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { findShadowedBlocks } from "../../src/items";
+import { parseFilter } from "../../src/parsers-nextgen";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+/** Returns the lines of each shadowed block, along with the line of the block shadowing it. */
+function shadowedLines(text: string): Array<[number, number]> {
+  return findShadowedBlocks(parseFilter(text)).map<[number, number]>(s =>
+    [s.block.range.start.line, s.shadowingBlock.range.start.line]);
+}
+
+describe("findShadowedBlocks", () => {
+  test("finds blocks following a block without conditions", () => {
+    expect(shadowedLines("Show\nHide\n  Rarity Rare")).toStrictEqual([[1, 0]]);
+  });
+
+  test("returns the earliest shadowing block", () => {
+    const text = "Show\n  ItemLevel > 70\nShow\n  ItemLevel > 60\nShow\n  ItemLevel > 80";
+    expect(shadowedLines(text)).toStrictEqual([[4, 0]]);
+  });
+
+  test("compares numbers using the operators of the rules", () => {
+    expect(shadowedLines("Show\n  ItemLevel >= 75\nShow\n  ItemLevel 80 84")).toStrictEqual(
+      [[2, 0]]);
+    expect(shadowedLines("Show\n  ItemLevel > 75\nShow\n  ItemLevel 75 84")).toStrictEqual([]);
+    expect(shadowedLines("Show\n  Quality < 10\nShow\n  Quality <= 9")).toStrictEqual([[2, 0]]);
+  });
+
+  test("combines repeated number conditions", () => {
+    const text = "Show\n  ItemLevel 60 61 62\nShow\n  ItemLevel >= 60\n  ItemLevel <= 62";
+    expect(shadowedLines(text)).toStrictEqual([[2, 0]]);
+  });
+
+  test("considers conditions allowing every value to always be met", () => {
+    expect(shadowedLines("Show\n  Rarity <= Unique\nShow\n  BaseType Ring")).toStrictEqual(
+      [[2, 0]]);
+    expect(shadowedLines("Show\n  Rarity >= Magic\nShow\n  BaseType Ring")).toStrictEqual([]);
+  });
+
+  test("never considers gem or map conditions to always be met", () => {
+    expect(shadowedLines("Show\n  GemLevel >= 0\nShow\n  BaseType Ring")).toStrictEqual([]);
+  });
+
+  test("compares the values of partial matches", () => {
+    expect(shadowedLines("Show\n  BaseType Ring\nShow\n  BaseType \"Gold Ring\" \"Ruby Ring\""))
+      .toStrictEqual([[2, 0]]);
+    expect(shadowedLines("Show\n  BaseType \"Gold Ring\"\nShow\n  BaseType Ring"))
+      .toStrictEqual([]);
+    expect(shadowedLines("Show\n  Class Rings\nShow\n  Class Ring")).toStrictEqual([]);
+  });
+
+  test("compares boolean conditions and socket groups", () => {
+    expect(shadowedLines("Show\n  Corrupted True\nShow\n  Corrupted \"true\"\n  Quality 20"))
+      .toStrictEqual([[2, 0]]);
+    expect(shadowedLines("Show\n  Corrupted True\nShow\n  Corrupted False")).toStrictEqual([]);
+    expect(shadowedLines("Show\n  SocketGroup RGB\nShow\n  SocketGroup RRGB")).toStrictEqual(
+      [[2, 0]]);
+    expect(shadowedLines("Show\n  SocketGroup RRGB\nShow\n  SocketGroup RGB")).toStrictEqual([]);
+  });
+
+  test("ignores blocks with conditions that couldn't be understood", () => {
+    expect(shadowedLines("Show\n  ItemLevel Foo\nShow\n  ItemLevel 80")).toStrictEqual([]);
+    expect(shadowedLines("Show\nShow\n  ItemLevel Foo")).toStrictEqual([[1, 0]]);
+  });
+
+  test("ignores the actions of each block", () => {
+    const text = "Show\n  Class Currency\n  SetFontSize 45\nHide\n  Class Currency\n" +
+      "  SetFontSize 20";
+    expect(shadowedLines(text)).toStrictEqual([[3, 0]]);
+  });
+
+  test("finds the blocks shadowed by the race catcher within the example filter", () => {
+    const text = fs.readFileSync(path.join(examplesRoot, "GGG.filter"), "utf8");
+    const raceCatcher = text.split(/\r?\n/).indexOf("# Low Level & Race Catcher") + 1;
+    const shadowed = findShadowedBlocks(parseFilter(text))
+      .filter(s => s.shadowingBlock.range.start.line === raceCatcher);
+
+    expect(shadowed.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,75 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { isItemTooltip, parseItemTooltip, TooltipData } from "../../src/items";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const fixturesRoot = path.join(__dirname, "fixtures", "tooltips");
+
+const itemData = <{ [itemClass: string]: string[] }>require(path.join(dataRoot, "items.json"));
+const modData = <{ prefixes: string[], suffixes: string[] }>require(
+  path.join(dataRoot, "mods.json"));
+
+const tooltipData: TooltipData = {
+  itemBases: Object.keys(itemData).reduce<string[]>((r, c) => r.concat(itemData[c]), []),
+  prefixes: modData.prefixes,
+  suffixes: modData.suffixes,
+  prophecies: <string[]>require(path.join(dataRoot, "prophecies.json"))
+};
+
+// Each fixture is a tooltip copied from the game, along with the expected result.
+const fixtures = fs.readdirSync(fixturesRoot).filter(f => f.endsWith(".txt"))
+  .map(f => path.basename(f, ".txt"));
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(fixturesRoot, `${name}.txt`), "utf8");
+}
+
+describe("isItemTooltip", () => {
+  test("detects each of the fixtures", () => {
+    for (const name of fixtures) {
+      expect(isItemTooltip(readFixture(name))).toStrictEqual(true);
+    }
+  });
+
+  test("rejects other text", () => {
+    expect(isItemTooltip("Vaal Regalia, Rarity Rare")).toStrictEqual(false);
+  });
+});
+
+describe("parseItemTooltip", () => {
+  for (const name of fixtures) {
+    test(`parses the ${name} fixture`, () => {
+      const expected = JSON.parse(fs.readFileSync(path.join(fixturesRoot, `${name}.json`), "utf8"));
+      expect(parseItemTooltip(readFixture(name), tooltipData)).toStrictEqual(expected);
+    });
+  }
+
+  test("accepts CRLF line breaks", () => {
+    const text = readFixture("rare-body-armour").replace(/\n/g, "\r\n");
+    expect(parseItemTooltip(text, tooltipData).item.itemLevel).toStrictEqual(84);
+  });
+
+  test("warns of unknown mods within the name of magic items", () => {
+    const result = parseItemTooltip("Rarity: Magic\nShiny Vaal Regalia of Foo", tooltipData);
+    expect(result.item.explicitMods).toStrictEqual(["Shiny", "of Foo"]);
+    expect(result.warnings).toStrictEqual([
+      "Unknown prefix mod 'Shiny'.",
+      "Unknown suffix mod 'of Foo'."
+    ]);
+  });
+
+  test("throws for text without a rarity or known base", () => {
+    expect(() => parseItemTooltip("Vaal Regalia", tooltipData)).toThrow("rarity");
+    expect(() => parseItemTooltip("Rarity: Legendary\nVaal Regalia", tooltipData))
+      .toThrow("Legendary");
+    expect(() => parseItemTooltip("Rarity: Rare\nDoom Veil\nVaal Regalias", tooltipData))
+      .toThrow("Unknown item base 'Vaal Regalias'.");
+  });
+});
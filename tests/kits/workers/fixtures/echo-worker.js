@@ -0,0 +1,23 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+// Workers are unable to load TypeScript, so this follows the same protocol as
+// `handleRequests`, echoing back the value of each request.
+
+const { parentPort } = require("worker_threads");
+
+parentPort.on("message", ({ id, request }) => {
+  const end = Date.now() + (request.busy || 0);
+  while (Date.now() < end) { }
+
+  if (request.error) {
+    parentPort.postMessage({ id, error: request.error });
+  } else if (request.exit) {
+    process.exit(1);
+  } else {
+    parentPort.postMessage({ id, response: request.value });
+  }
+});
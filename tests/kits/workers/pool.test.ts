@@ -0,0 +1,84 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import { CancellationError, WorkerPool } from "../../../src/kits/workers";
+
+interface EchoRequest {
+  value?: string;
+  busy?: number;
+  error?: string;
+  exit?: boolean;
+}
+
+const workerPath = path.join(__dirname, "fixtures", "echo-worker.js");
+
+describe("WorkerPool", () => {
+  let pool: WorkerPool<EchoRequest, string>;
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  test("resolves each task with the response from a worker", async () => {
+    pool = new WorkerPool(workerPath, 2);
+    const tasks = ["a", "b", "c"].map(value => pool.run({ value }));
+    expect(await Promise.all(tasks.map(t => t.result))).toStrictEqual(["a", "b", "c"]);
+  });
+
+  test("rejects tasks with the errors thrown by a worker", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    await expect(pool.run({ error: "Failure" }).result).rejects.toThrow("Failure");
+    expect(await pool.run({ value: "a" }).result).toStrictEqual("a");
+  });
+
+  test("rejects the task of a worker which exits, replacing the worker", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    await expect(pool.run({ exit: true }).result).rejects.toThrow("exited");
+    expect(await pool.run({ value: "a" }).result).toStrictEqual("a");
+  });
+
+  test("cancels queued tasks without running them", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    const first = pool.run({ value: "a", busy: 50 });
+    const second = pool.run({ value: "b" });
+    second.cancel();
+
+    await expect(second.result).rejects.toBeInstanceOf(CancellationError);
+    expect(await first.result).toStrictEqual("a");
+  });
+
+  test("cancels running tasks, continuing with the next queued task", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    const first = pool.run({ value: "a", busy: 60000 });
+    const second = pool.run({ value: "b" });
+    first.cancel();
+
+    await expect(first.result).rejects.toBeInstanceOf(CancellationError);
+    expect(await second.result).toStrictEqual("b");
+  });
+
+  test("ignores cancellations of completed tasks", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    const task = pool.run({ value: "a" });
+    expect(await task.result).toStrictEqual("a");
+
+    task.cancel();
+    expect(await pool.run({ value: "b" }).result).toStrictEqual("b");
+  });
+
+  test("cancels every remaining task when disposed", async () => {
+    pool = new WorkerPool(workerPath, 1);
+    const running = pool.run({ value: "a", busy: 60000 });
+    const queued = pool.run({ value: "b" });
+    pool.dispose();
+
+    await expect(running.result).rejects.toBeInstanceOf(CancellationError);
+    await expect(queued.result).rejects.toBeInstanceOf(CancellationError);
+    await expect(pool.run({ value: "c" }).result).rejects.toBeInstanceOf(CancellationError);
+  });
+});
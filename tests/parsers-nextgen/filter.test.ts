@@ -0,0 +1,130 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  BlockNode, CommentNode, isBlockNode, NodeType, parseFilter, RuleNode, TextNode
+} from "../../src/parsers-nextgen";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+describe("parseFilter", () => {
+  test("parses an empty filter", () => {
+    const root = parseFilter("");
+
+    expect(root.type).toStrictEqual(NodeType.Filter);
+    expect(root.children).toStrictEqual([]);
+  });
+
+  test("parses blocks along with their rules", () => {
+    const root = parseFilter("Show\n  ItemLevel >= 75\n  BaseType \"Chaos Orb\" Regal\nHide");
+
+    expect(root.children.length).toStrictEqual(2);
+
+    const show = root.children[0] as BlockNode;
+    const hide = root.children[1] as BlockNode;
+    expect(show.keyword.text).toStrictEqual("Show");
+    expect(hide.keyword.text).toStrictEqual("Hide");
+    expect(show.children.length).toStrictEqual(2);
+    expect(hide.children.length).toStrictEqual(0);
+
+    const itemLevel = show.children[0] as RuleNode;
+    expect(itemLevel.keyword.text).toStrictEqual("ItemLevel");
+    expect(itemLevel.operator).toMatchObject({ text: ">=" });
+    expect(itemLevel.values.length).toStrictEqual(1);
+    expect(itemLevel.values[0].type).toStrictEqual(NodeType.Number);
+    expect(itemLevel.values[0].value).toStrictEqual(75);
+
+    const baseType = show.children[1] as RuleNode;
+    expect(baseType.operator).toBeUndefined();
+    expect(baseType.values.map(v => v.type)).toStrictEqual([NodeType.String, NodeType.Word]);
+    expect(baseType.values.map(v => v.value)).toStrictEqual(["Chaos Orb", "Regal"]);
+  });
+
+  test("determines the range of each node", () => {
+    const root = parseFilter("Show # Currency\n  SetFontSize 45\n");
+    const block = root.children[0] as BlockNode;
+    const rule = block.children[0] as RuleNode;
+
+    expect(block.range).toStrictEqual({
+      start: { line: 0, character: 0 },
+      end: { line: 1, character: 16 }
+    });
+    expect(rule.range).toStrictEqual({
+      start: { line: 1, character: 2 },
+      end: { line: 1, character: 16 }
+    });
+    expect(rule.values[0].range).toStrictEqual({
+      start: { line: 1, character: 14 },
+      end: { line: 1, character: 16 }
+    });
+    expect(root.range.end).toStrictEqual({ line: 2, character: 0 });
+  });
+
+  test("parses comments and trailing text", () => {
+    const root = parseFilter("Show ignored text # Currency\n  Corrupted True % # note");
+    const block = root.children[0] as BlockNode;
+    const rule = block.children[0] as RuleNode;
+
+    expect(block.trailingText).toMatchObject({ text: "ignored text" });
+    expect(block.comment).toMatchObject({ value: "Currency" });
+    expect(rule.values[0].type).toStrictEqual(NodeType.Boolean);
+    expect(rule.trailingText).toMatchObject({ text: "%" });
+    expect(rule.comment).toMatchObject({ text: "# note" });
+  });
+
+  test("places comments following the last rule of a block within the filter", () => {
+    const root = parseFilter("# Header\nShow\n  # Inner\n  Rarity Rare\n  # Next\nHide\n");
+
+    expect(root.children.map(c => c.type)).toStrictEqual([
+      NodeType.Comment, NodeType.Block, NodeType.Comment, NodeType.Block
+    ]);
+
+    const show = root.children[1] as BlockNode;
+    expect(show.children.map(c => c.type)).toStrictEqual([NodeType.Comment, NodeType.Rule]);
+    expect((root.children[2] as CommentNode).value).toStrictEqual("Next");
+    expect(show.range.end.line).toStrictEqual(3);
+  });
+
+  test("places rules outside of a block within the filter", () => {
+    const root = parseFilter("Rarity Rare\nShow");
+
+    expect(root.children.map(c => c.type)).toStrictEqual([NodeType.Rule, NodeType.Block]);
+  });
+
+  test("parses unreadable lines as text", () => {
+    const root = parseFilter("Show\n  42 Rarity\n");
+    const block = root.children[0] as BlockNode;
+    const text = block.children[0] as TextNode;
+
+    expect(text.type).toStrictEqual(NodeType.Text);
+    expect(text.text).toStrictEqual("42 Rarity");
+  });
+
+  test("handles CRLF line endings", () => {
+    const root = parseFilter("Show\r\n  Rarity Rare\r\nHide\r\n");
+    const show = root.children[0] as BlockNode;
+    const rule = show.children[0] as RuleNode;
+
+    expect(root.children.length).toStrictEqual(2);
+    expect(rule.values[0].value).toStrictEqual("Rare");
+    expect(rule.range.end).toStrictEqual({ line: 1, character: 13 });
+  });
+
+  test("parses each block within the example filters", () => {
+    for (const file of ["Simple.filter", "GGG.filter", "Stress.filter"]) {
+      const text = fs.readFileSync(path.join(examplesRoot, file), "utf8");
+      const blockCount = text.split(/\r?\n/).filter(line => /^\s*(Show|Hide)(\s|$)/.test(line))
+        .length;
+
+      const root = parseFilter(text);
+      const blocks = root.children.filter(isBlockNode);
+      expect(blocks.length).toStrictEqual(blockCount);
+    }
+  });
+});
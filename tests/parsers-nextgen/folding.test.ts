@@ -0,0 +1,46 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { FoldingRangeType, getFoldingRanges, parseFilter } from "../../src/parsers-nextgen";
+
+describe("getFoldingRanges", () => {
+  test("folds each block spanning multiple lines", () => {
+    const text = "Show\nClass Currency\nSetFontSize 45\n\nHide\nShow\n  Rarity Rare";
+    expect(getFoldingRanges(parseFilter(text))).toStrictEqual([
+      { type: FoldingRangeType.Block, startLine: 0, endLine: 2 },
+      { type: FoldingRangeType.Block, startLine: 5, endLine: 6 }
+    ]);
+  });
+
+  test("folds each section along with the blocks within it", () => {
+    const text = "#=====\n# Currency\n#=====\nShow\n  Class Currency\n#---\n# Orbs\nShow\n" +
+      "  BaseType Orb\n#=====\n# Gear\n#=====\nHide";
+
+    expect(getFoldingRanges(parseFilter(text))).toStrictEqual([
+      { type: FoldingRangeType.Section, startLine: 0, endLine: 8 },
+      { type: FoldingRangeType.Block, startLine: 3, endLine: 4 },
+      { type: FoldingRangeType.Section, startLine: 5, endLine: 8 },
+      { type: FoldingRangeType.Block, startLine: 7, endLine: 8 },
+      { type: FoldingRangeType.Section, startLine: 9, endLine: 12 }
+    ]);
+  });
+
+  test("folds regions, including those within blocks", () => {
+    const text = "# region Currency\nShow\n  # region Bases\n  BaseType Orb\n  #endregion\n" +
+      "  Class Currency\n#endregion";
+
+    expect(getFoldingRanges(parseFilter(text))).toStrictEqual([
+      { type: FoldingRangeType.Block, startLine: 1, endLine: 5 },
+      { type: FoldingRangeType.Region, startLine: 2, endLine: 4 },
+      { type: FoldingRangeType.Region, startLine: 0, endLine: 6 }
+    ]);
+  });
+
+  test("ignores unmatched region markers", () => {
+    expect(getFoldingRanges(parseFilter("#endregion\n#region\n#region\n#endregion")))
+      .toStrictEqual([{ type: FoldingRangeType.Region, startLine: 2, endLine: 3 }]);
+  });
+});
@@ -0,0 +1,164 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { getValueText } from "../../src/items";
+import {
+  formatFilter, FormattingOptions, isBlockNode, isRuleNode, parseFilter, RuleNode
+} from "../../src/parsers-nextgen";
+import { Range, TextEdit } from "../../src/types";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+const defaultOptions: FormattingOptions = {
+  indent: "  ",
+  valueQuotes: {}
+};
+
+/** Returns the text resulting from applying the edits, which must be ordered and not overlap. */
+function applyEdits(text: string, edits: TextEdit[]): string {
+  const lineOffsets = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineOffsets.push(i + 1);
+  }
+
+  const parts: string[] = [];
+  let offset = 0;
+  for (const edit of edits) {
+    const start = lineOffsets[edit.range.start.line] + edit.range.start.character;
+    const end = lineOffsets[edit.range.end.line] + edit.range.end.character;
+    parts.push(text.slice(offset, start), edit.newText);
+    offset = end;
+  }
+
+  parts.push(text.slice(offset));
+  return parts.join("");
+}
+
+function format(text: string, options = defaultOptions, range?: Range): string {
+  return applyEdits(text, formatFilter(text, options, range));
+}
+
+/**
+ * Describes what the filter means to the game, being each of its blocks and
+ * rules, along with the comments describing them.
+ */
+function describeFilter(text: string): string[] {
+  const describeRule = (rule: RuleNode) => [rule.keyword.text,
+    rule.operator ? rule.operator.value : "", ...rule.values.map(v => getValueText(v)),
+    rule.trailingText ? rule.trailingText.text : ""].join("|");
+
+  const result: string[] = [];
+  for (const node of parseFilter(text).children) {
+    if (isBlockNode(node)) {
+      result.push(`${node.keyword.text} ${node.comment ? node.comment.value : ""}`);
+
+      for (const child of node.children) {
+        result.push(isRuleNode(child) ? describeRule(child) : child.text.trim());
+      }
+    } else if (isRuleNode(node)) {
+      result.push(describeRule(node));
+    } else {
+      result.push(node.text.trim());
+    }
+  }
+
+  return result;
+}
+
+describe("formatFilter", () => {
+  test("indents each line within a block", () => {
+    expect(format("Show\nRarity Rare\n\t  # Comment\n    SetFontSize 45\n")).toStrictEqual(
+      "Show\n  Rarity Rare\n  # Comment\n  SetFontSize 45\n");
+    expect(format("  Show\n  Rarity Rare", { ...defaultOptions, indent: "\t" }))
+      .toStrictEqual("Show\n\tRarity Rare");
+  });
+
+  test("separates the parts of each rule by a single space", () => {
+    expect(format("Show\n  ItemLevel    >=\t75   # Comment  \n  Sockets  6   ")).toStrictEqual(
+      "Show\n  ItemLevel >= 75 # Comment\n  Sockets 6");
+  });
+
+  test("separates each block by a single blank line", () => {
+    expect(format("\n\nShow\n\n  Rarity Rare\nHide\n\n\n\nShow\n\n")).toStrictEqual(
+      "Show\n  Rarity Rare\n\nHide\n\nShow\n");
+  });
+
+  test("keeps comments attached to the block following them", () => {
+    expect(format("Show\n  Rarity Rare\n# Uniques\nShow\n  Rarity Unique")).toStrictEqual(
+      "Show\n  Rarity Rare\n# Uniques\nShow\n  Rarity Unique");
+  });
+
+  test("retains the line breaks of the filter", () => {
+    expect(format("Show\r\n  Rarity Rare\r\nHide\r\n")).toStrictEqual(
+      "Show\r\n  Rarity Rare\r\n\r\nHide\r\n");
+  });
+
+  test("adds or removes quotation marks as configured", () => {
+    const text = "Show\n  BaseType Regalia \"Chaos Orb\" \"Orb\"\n  Corrupted \"True\"\n" +
+      "  Rarity Rare";
+    const options: FormattingOptions = {
+      ...defaultOptions,
+      valueQuotes: { BaseType: false, Corrupted: false, Rarity: true }
+    };
+
+    expect(format(text, options)).toStrictEqual("Show\n  BaseType Regalia \"Chaos Orb\" Orb\n" +
+      "  Corrupted True\n  Rarity \"Rare\"");
+    expect(format(text, { ...options, valueQuotes: { BaseType: true } })).toStrictEqual(
+      "Show\n  BaseType \"Regalia\" \"Chaos Orb\" \"Orb\"\n  Corrupted \"True\"\n  Rarity Rare");
+  });
+
+  test("never unquotes values that would be read differently", () => {
+    const text = "Show\n  BaseType \"45\" \"Jeweller's Orb\" \"\"";
+    const options = { ...defaultOptions, valueQuotes: { BaseType: false } };
+    expect(format(text, options)).toStrictEqual(text);
+  });
+
+  test("leaves lines it can't read as they are", () => {
+    const text = "Rarity Rare\n  Sh0w\n\nShow\n  BaseType  \"Orb  \"Chaos";
+    expect(format(text)).toStrictEqual(text);
+  });
+
+  test("only formats the lines within the range", () => {
+    const range = { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } };
+    expect(format("Show\n    Rarity Rare\n    ItemLevel  75", defaultOptions, range))
+      .toStrictEqual("Show\n    Rarity Rare\n  ItemLevel 75");
+  });
+
+  test("makes no changes to a formatted filter", () => {
+    const text = fs.readFileSync(path.join(examplesRoot, "GGG.filter"), "utf8");
+    const formattedText = format(text);
+    expect(formatFilter(formattedText, defaultOptions)).toStrictEqual([]);
+  });
+
+  test("never changes the meaning of the example filters", () => {
+    const optionSets: FormattingOptions[] = [
+      defaultOptions,
+      {
+        indent: "\t",
+        valueQuotes: { BaseType: true, Class: true, Rarity: true, Corrupted: true }
+      },
+      {
+        indent: "    ",
+        valueQuotes: { BaseType: false, Class: false, Rarity: false, Corrupted: false }
+      }
+    ];
+
+    for (const file of ["Simple.filter", "GGG.filter", "Stress.filter"]) {
+      const filePath = path.join(examplesRoot, file);
+      if (!fs.existsSync(filePath)) continue;
+
+      const text = fs.readFileSync(filePath, "utf8");
+      const description = describeFilter(text);
+
+      for (const options of optionSets) {
+        expect(describeFilter(format(text, options))).toStrictEqual(description);
+      }
+    }
+  });
+});
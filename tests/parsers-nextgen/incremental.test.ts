@@ -0,0 +1,227 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { Diagnostic, Position } from "../../src/types";
+import { findContradictions, getContradictionDiagnostic } from "../../src/items";
+import {
+  FilterNode, isBlockNode, parseFilter, reparseFilter, spliceResults, TextChange
+} from "../../src/parsers-nextgen";
+import { classesToBases, defaultOptions, validator } from "../data";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+/**
+ * Returns the diagnostics for each node of the syntax tree, as produced by
+ * `processNodes` when parsing a filter.
+ */
+function getNodeDiagnostics(root: FilterNode): Diagnostic[] {
+  const result: Diagnostic[] = [];
+
+  for (const node of root.children) {
+    result.push(...validator.validateNode(node, defaultOptions));
+
+    if (isBlockNode(node)) {
+      result.push(...findContradictions(node, classesToBases).map(getContradictionDiagnostic));
+    }
+  }
+
+  return result;
+}
+
+/** Returns the character index of the position within the text. */
+function getOffset(text: string, position: Position): number {
+  let offset = 0;
+
+  for (let line = 0; line < position.line; line++) {
+    offset = text.indexOf("\n", offset) + 1;
+  }
+
+  return offset + position.character;
+}
+
+/** Applies each change to the text, in order. */
+function applyChanges(text: string, changes: TextChange[]): string {
+  let result = text;
+
+  for (const change of changes) {
+    const start = getOffset(result, change.range.start);
+    const end = getOffset(result, change.range.end);
+    result = result.slice(0, start) + change.text + result.slice(end);
+  }
+
+  return result;
+}
+
+/** Returns the length of the line, excluding any line break. */
+function getLineLength(lines: string[], line: number): number {
+  return lines[line].replace(/\r$/, "").length;
+}
+
+function insert(line: number, character: number, text: string): TextChange {
+  return { range: { start: { line, character }, end: { line, character } }, text };
+}
+
+function remove(startLine: number, endLine: number): TextChange {
+  return {
+    range: { start: { line: startLine, character: 0 }, end: { line: endLine, character: 0 } },
+    text: ""
+  };
+}
+
+/**
+ * Reparses the text after applying the changes, checking that both the syntax
+ * tree and the diagnostics are identical to those of a full parse.
+ */
+function expectIdenticalParse(text: string, changes: TextChange[]): void {
+  const previousRoot = parseFilter(text);
+  const previousDiagnostics = getNodeDiagnostics(previousRoot);
+
+  const currentText = applyChanges(text, changes);
+  const reparse = reparseFilter(previousRoot, currentText, changes);
+  const diagnostics = spliceResults(previousDiagnostics, getNodeDiagnostics(reparse.reparsed),
+    reparse);
+
+  const expectedRoot = parseFilter(currentText);
+  expect(reparse.root).toStrictEqual(expectedRoot);
+  expect(diagnostics).toStrictEqual(getNodeDiagnostics(expectedRoot));
+}
+
+/** A set of changes to make to an example filter. */
+type Scenario = (lines: string[], blockLines: number[]) => TextChange[];
+
+const scenarios: { [name: string]: Scenario } = {
+  "editing a rule": (lines, blockLines) => {
+    const line = blockLines[Math.floor(blockLines.length / 2)] + 1;
+    return [insert(line, getLineLength(lines, line), "5")];
+  },
+  "inserting a block": (_, blockLines) => {
+    const line = blockLines[Math.floor(blockLines.length / 2)];
+    return [insert(line, 0, "Show\n  Rarity Rare\n  SetFontSize 100\n\n")];
+  },
+  "removing a block keyword": (_, blockLines) => {
+    const line = blockLines[Math.floor(blockLines.length / 2)];
+    return [remove(line, line + 1)];
+  },
+  "commenting a block keyword": (lines, blockLines) => {
+    const line = blockLines[blockLines.length - 1];
+    return [insert(line, lines[line].search(/\S/), "#")];
+  },
+  "replacing a block keyword": (lines, blockLines) => {
+    const line = blockLines[0];
+    const character = lines[line].search(/\S/);
+
+    return [{
+      range: { start: { line, character }, end: { line, character: character + 4 } },
+      text: "Hide # Replaced"
+    }];
+  },
+  "removing several blocks": (_, blockLines) => {
+    const index = Math.floor(blockLines.length / 3);
+    const end = blockLines[Math.min(index + 3, blockLines.length - 1)];
+    return [remove(blockLines[index] + 1, end + 1)];
+  },
+  "splitting a line": (lines, blockLines) => {
+    const line = blockLines[0] + 1;
+    return [insert(line, Math.floor(getLineLength(lines, line) / 2), "\n")];
+  },
+  "inserting at the start": () => [insert(0, 0, "# Header\nRarity Rare\n")],
+  "appending to the end": lines => {
+    const line = lines.length - 1;
+    return [insert(line, getLineLength(lines, line), "\nShow\n  Rarity Rare\n# Trailing")];
+  },
+  "removing the entire text": lines => {
+    const line = lines.length - 1;
+
+    return [{
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line, character: getLineLength(lines, line) }
+      },
+      text: ""
+    }];
+  },
+  "making several changes in reverse order": (lines, blockLines) => {
+    const later = blockLines[blockLines.length - 1];
+    const earlier = blockLines[0];
+
+    return [
+      insert(later + 1, 0, "  ItemLevel > 50\n  Quality 20\n"),
+      insert(earlier, getLineLength(lines, earlier), " trailing")
+    ];
+  },
+  "making several changes in order": (_, blockLines) => {
+    const earlier = blockLines[0];
+    const later = blockLines[blockLines.length - 1] + 2;
+
+    return [
+      insert(earlier, 0, "# Added\nShow\n  Corrupted True\n"),
+      remove(later, later + 1)
+    ];
+  }
+};
+
+// The stress filter is large enough to only be worth checking a few scenarios.
+const examples: { [file: string]: string[] } = {
+  "Simple.filter": Object.keys(scenarios),
+  "GGG.filter": Object.keys(scenarios),
+  "Stress.filter": ["editing a rule", "removing a block keyword"]
+};
+
+describe("reparseFilter", () => {
+  for (const file in examples) {
+    describe(file, () => {
+      const text = fs.readFileSync(path.join(examplesRoot, file), "utf8");
+      const lines = text.split("\n");
+      const blockLines: number[] = [];
+
+      lines.forEach((line, index) => {
+        if (/^\s*(Show|Hide)(\s|$)/.test(line)) {
+          blockLines.push(index);
+        }
+      });
+
+      for (const name of examples[file]) {
+        test(`produces the same result as a full parse when ${name}`, () => {
+          expectIdenticalParse(text, scenarios[name](lines, blockLines));
+        });
+      }
+    });
+  }
+
+  test("moves the related information of diagnostics following the changes", () => {
+    const text = "Show\n  Rarity Rare\nShow\n  ItemLevel > 80\n  ItemLevel < 60\n";
+    expectIdenticalParse(text, [insert(0, 0, "# First\n# Second\n")]);
+
+    const changes = [insert(2, 0, "# First\n# Second\n")];
+    const previousRoot = parseFilter(text);
+    const reparse = reparseFilter(previousRoot, applyChanges(text, changes), changes);
+    const [diagnostic] = spliceResults(getNodeDiagnostics(previousRoot),
+      getNodeDiagnostics(reparse.reparsed), reparse);
+
+    expect(diagnostic.relatedInformation).toBeDefined();
+    if (!diagnostic.relatedInformation) return;
+    expect(diagnostic.relatedInformation[0].range.start.line).toStrictEqual(5);
+  });
+
+  test("reuses the previous syntax tree when given no changes", () => {
+    const root = parseFilter("Show\n  Rarity Rare");
+    expect(reparseFilter(root, "Show\n  Rarity Rare", []).root).toBe(root);
+  });
+
+  test("only reparses the blocks affected by the changes", () => {
+    const text = "Show\n  Rarity Rare\nShow\n  Rarity Magic\nShow\n  Rarity Normal\n";
+    const changes = [insert(3, 0, "  Corrupted True\n")];
+    const reparse = reparseFilter(parseFilter(text), applyChanges(text, changes), changes);
+
+    expect(reparse.startLine).toStrictEqual(2);
+    expect(reparse.previousEndLine).toStrictEqual(4);
+    expect(reparse.lineDelta).toStrictEqual(1);
+    expect(reparse.reparsed.children.length).toStrictEqual(1);
+  });
+});
@@ -0,0 +1,89 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  BlockNode, getBlockName, getFilterOutline, isFilterSection, OutlineNode, parseFilter
+} from "../../src/parsers-nextgen";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+/** Describes the outline using the name of each section and the line of each block. */
+function describeOutline(nodes: OutlineNode[]): Array<string | number | object> {
+  return nodes.map(n => isFilterSection(n) ? { [n.name]: describeOutline(n.children) } :
+    n.range.start.line);
+}
+
+describe("getFilterOutline", () => {
+  test("lists blocks outside of any section", () => {
+    const text = fs.readFileSync(path.join(examplesRoot, "Simple.filter"), "utf8");
+    expect(describeOutline(getFilterOutline(parseFilter(text)))).toStrictEqual([1, 7]);
+  });
+
+  test("nests blocks within the sections introduced by header comments", () => {
+    const text = "Show\n#=====\n# Currency\n#=====\nShow\n#---\n# Orbs\n#---\nShow\nShow\n" +
+      "#=====\n# Gear\n#=====\nHide";
+
+    expect(describeOutline(getFilterOutline(parseFilter(text)))).toStrictEqual([
+      0,
+      { Currency: [4, { Orbs: [8, 9] }] },
+      { Gear: [13] }
+    ]);
+  });
+
+  test("accepts headers with the title on the same line", () => {
+    const text = "#==== Currency ====\nShow\n# ---- Orbs ----\nShow";
+    expect(describeOutline(getFilterOutline(parseFilter(text)))).toStrictEqual([
+      { Currency: [1, { Orbs: [3] }] }
+    ]);
+  });
+
+  test("ignores rulers without a title and other comments", () => {
+    const text = "#=====\nShow\n# --- not a header\nShow\n# Currency\nShow";
+    expect(describeOutline(getFilterOutline(parseFilter(text)))).toStrictEqual([1, 3, 5]);
+  });
+
+  test("determines the range of each section", () => {
+    const text = "#=====\n# Currency\n#=====\nShow\n  Class Currency\n\n#---\n# Orbs\nShow\n" +
+      "  BaseType Orb";
+    const [section] = getFilterOutline(parseFilter(text));
+
+    expect(isFilterSection(section) && section.headerRange).toStrictEqual({
+      start: { line: 0, character: 0 },
+      end: { line: 2, character: 6 }
+    });
+    expect(section.range.start).toStrictEqual({ line: 0, character: 0 });
+    expect(section.range.end.line).toStrictEqual(9);
+  });
+});
+
+describe("getBlockName", () => {
+  function blockName(text: string): string {
+    return getBlockName(<BlockNode>parseFilter(text).children[0]);
+  }
+
+  test("uses the trailing comment of the block", () => {
+    expect(blockName("Show # Currency->High Value\n  Class Currency")).toStrictEqual(
+      "Currency->High Value");
+  });
+
+  test("uses the values of the Class and BaseType conditions", () => {
+    expect(blockName("Show\n  Class Currency\n  BaseType \"Mirror of Kalandra\" Exalted"))
+      .toStrictEqual("Currency / Mirror of Kalandra, Exalted");
+  });
+
+  test("uses the keyword of the block when nothing else is available", () => {
+    expect(blockName("Hide\n  ItemLevel < 60")).toStrictEqual("Hide");
+  });
+
+  test("shortens long names", () => {
+    const name = blockName(`Show\n  BaseType ${"Orb ".repeat(30)}`);
+    expect(name.length).toStrictEqual(60);
+    expect(name.endsWith("…")).toStrictEqual(true);
+  });
+});
@@ -0,0 +1,87 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { DiagnosticCode, TextEdit } from "../../src/types";
+import { getQuickFixes, parseFilter } from "../../src/parsers-nextgen";
+import { defaultOptions, validator } from "../data";
+
+/** Returns the text resulting from the edit. */
+function applyEdit(text: string, edit: TextEdit): string {
+  const lines = text.split("\n");
+  const { start, end } = edit.range;
+
+  const before = lines.slice(0, start.line).concat(lines[start.line].slice(0, start.character));
+  const after = [lines[end.line].slice(end.character)].concat(lines.slice(end.line + 1));
+  return before.join("\n") + edit.newText + after.join("\n");
+}
+
+/**
+ * Returns the title of each fix for the first diagnostic the validator reports
+ * for the filter, along with the text resulting from that fix.
+ */
+function fixFirstDiagnostic(text: string, eol = "\n"): string[][] {
+  const root = parseFilter(text);
+  const [diagnostic] = validator.validate(root, defaultOptions);
+  if (!diagnostic || !diagnostic.code) throw new Error("expected a diagnostic with a code");
+
+  return getQuickFixes(root, diagnostic.code, diagnostic.range.start, validator, defaultOptions,
+    eol).map(fix => [fix.title, applyEdit(text, fix.edit)]);
+}
+
+describe("getQuickFixes", () => {
+  test("removes duplicate values", () => {
+    expect(fixFirstDiagnostic("Show\n  Rarity Rare Magic Rare")).toStrictEqual([
+      ["Remove the duplicate value", "Show\n  Rarity Rare Magic"]
+    ]);
+  });
+
+  test("replaces invalid values with similar values", () => {
+    expect(fixFirstDiagnostic("Show\n  Rarity unqiue")).toStrictEqual([
+      ["Replace with 'Unique'", "Show\n  Rarity Unique"]
+    ]);
+  });
+
+  test("quotes replacements containing whitespace or replacing quoted values", () => {
+    expect(fixFirstDiagnostic("Show\n  BaseType Regalai")[0]).toStrictEqual(
+      ["Replace with 'Vaal Regalia'", "Show\n  BaseType \"Vaal Regalia\""]);
+    expect(fixFirstDiagnostic("Show\n  Rarity \"unqiue\"")).toStrictEqual([
+      ["Replace with 'Unique'", "Show\n  Rarity \"Unique\""]
+    ]);
+  });
+
+  test("clamps values outside of their range", () => {
+    expect(fixFirstDiagnostic("Show\n  SetFontSize 60")).toStrictEqual([
+      ["Change to 50", "Show\n  SetFontSize 50"]
+    ]);
+    expect(fixFirstDiagnostic("Show\n  SetTextColor 0 0 300")).toStrictEqual([
+      ["Change to 255", "Show\n  SetTextColor 0 0 255"]
+    ]);
+  });
+
+  test("replaces unknown keywords with similar keywords", () => {
+    expect(fixFirstDiagnostic("Show\n  ItemLevl 75")).toStrictEqual([
+      ["Replace with 'ItemLevel'", "Show\n  ItemLevel 75"]
+    ]);
+  });
+
+  test("removes operators from rules without one", () => {
+    expect(fixFirstDiagnostic("Show\n  BaseType = Ring")).toStrictEqual([
+      ["Remove the operator", "Show\n  BaseType Ring"]
+    ]);
+  });
+
+  test("wraps rules outside of a block within a new block", () => {
+    expect(fixFirstDiagnostic("Rarity Rare\nShow", "\r\n")).toStrictEqual([
+      ["Wrap within a new Show block", "Show\r\nRarity Rare\nShow"]
+    ]);
+  });
+
+  test("returns nothing for lines without a rule", () => {
+    const root = parseFilter("Show\n  Rarity Rare\n\nShow");
+    expect(getQuickFixes(root, DiagnosticCode.InvalidValue, { line: 2, character: 0 },
+      validator, defaultOptions, "\n")).toStrictEqual([]);
+  });
+});
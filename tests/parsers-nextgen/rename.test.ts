@@ -0,0 +1,95 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { getRenameEdits, getRenameTarget, parseFilter } from "../../src/parsers-nextgen";
+
+/** Returns the text resulting from renaming the value at the given position. */
+function rename(text: string, line: number, character: number, newText: string): string {
+  const root = parseFilter(text);
+  const target = getRenameTarget(root, { line, character });
+  if (!target) throw new Error("expected a value to rename");
+
+  const lines = text.split("\n");
+  for (const edit of getRenameEdits(root, target, newText).reverse()) {
+    const { start, end } = edit.range;
+    lines[start.line] = lines[start.line].slice(0, start.character) + edit.newText +
+      lines[start.line].slice(end.character);
+  }
+
+  return lines.join("\n");
+}
+
+describe("getRenameTarget", () => {
+  const text = "Show\n  BaseType \"Chaos Orb\" Regalia\n  ItemLevel 75\nClass Currency";
+  const root = parseFilter(text);
+
+  test("returns the value at the position", () => {
+    expect(getRenameTarget(root, { line: 1, character: 13 })).toStrictEqual({
+      keyword: "BaseType",
+      text: "Chaos Orb",
+      range: { start: { line: 1, character: 11 }, end: { line: 1, character: 22 } }
+    });
+    expect(getRenameTarget(root, { line: 1, character: 30 })).toStrictEqual({
+      keyword: "BaseType",
+      text: "Regalia",
+      range: { start: { line: 1, character: 23 }, end: { line: 1, character: 30 } }
+    });
+  });
+
+  test("returns values of rules outside of a block", () => {
+    expect(getRenameTarget(root, { line: 3, character: 8 })).toMatchObject({
+      keyword: "Class",
+      text: "Currency"
+    });
+  });
+
+  test("returns nothing for keywords and other rules", () => {
+    expect(getRenameTarget(root, { line: 1, character: 4 })).toBeUndefined();
+    expect(getRenameTarget(root, { line: 2, character: 13 })).toBeUndefined();
+    expect(getRenameTarget(root, { line: 0, character: 2 })).toBeUndefined();
+  });
+});
+
+describe("getRenameEdits", () => {
+  test("renames the value within every block", () => {
+    const text = "Show\n  BaseType \"Chaos Orb\"\nHide\n  BaseType Regalia \"Chaos Orb\"";
+    expect(rename(text, 1, 14, "Chaos Sphere")).toStrictEqual(
+      "Show\n  BaseType \"Chaos Sphere\"\nHide\n  BaseType Regalia \"Chaos Sphere\"");
+  });
+
+  test("leaves values only matching part of the renamed value", () => {
+    const text = "Show\n  BaseType \"Chaos Orb\"\nShow\n  BaseType Orb \"Orb of Chance\"";
+    expect(rename(text, 1, 14, "Chaos Sphere")).toStrictEqual(
+      "Show\n  BaseType \"Chaos Sphere\"\nShow\n  BaseType Orb \"Orb of Chance\"");
+    expect(rename(text, 3, 12, "Sphere")).toStrictEqual(
+      "Show\n  BaseType \"Chaos Orb\"\nShow\n  BaseType Sphere \"Orb of Chance\"");
+  });
+
+  test("only renames values of the same rule", () => {
+    const text = "Show\n  Class Currency\n  BaseType Currency\n  HasExplicitMod Currency";
+    expect(rename(text, 1, 10, "Stackable Currency")).toStrictEqual(
+      "Show\n  Class \"Stackable Currency\"\n  BaseType Currency\n  HasExplicitMod Currency");
+  });
+
+  test("quotes values which can't be read as a single word", () => {
+    const text = "Show\n  Prophecy Trash \"Trash\"";
+    expect(rename(text, 1, 12, "Treasure")).toStrictEqual(
+      "Show\n  Prophecy Treasure \"Treasure\"");
+    expect(rename(text, 1, 12, "The Treasure")).toStrictEqual(
+      "Show\n  Prophecy \"The Treasure\" \"The Treasure\"");
+  });
+
+  test("renames values within another filter", () => {
+    const root = parseFilter("Show\n  BaseType Regalia");
+    const target = getRenameTarget(root, { line: 1, character: 12 });
+    const otherRoot = parseFilter("Hide\n  Class Regalia\n\nShow\n  BaseType \"Regalia\"");
+
+    expect(getRenameEdits(otherRoot, target!, "Vaal Regalia")).toStrictEqual([{
+      range: { start: { line: 4, character: 11 }, end: { line: 4, character: 20 } },
+      newText: "\"Vaal Regalia\""
+    }]);
+  });
+});
@@ -0,0 +1,105 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  getSemanticTokens, parseFilter, SemanticTokenModifier, SemanticTokenType, ValidationOptions
+} from "../../src/parsers-nextgen";
+import { defaultOptions, validator } from "../data";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+/** Returns the text, type, and modifiers of each token, joined together for brevity. */
+function getTokens(text: string, options = defaultOptions): string[] {
+  const lines = text.split("\n");
+
+  const root = parseFilter(text);
+  const diagnostics = validator.validate(root, options);
+
+  return getSemanticTokens(root, diagnostics, validator, options).map(token => {
+    const { start, end } = token.range;
+    const tokenText = lines[start.line].slice(start.character, end.character);
+    return [tokenText, token.type, ...token.modifiers].join(" ");
+  });
+}
+
+describe("getSemanticTokens", () => {
+  test("classifies keywords, operators, and values", () => {
+    const text = "Show\n  ItemLevel >= 75\n  Rarity Rare\n  BaseType Regalia \"Chaos Orb\"\n" +
+      "  Corrupted True";
+
+    expect(getTokens(text)).toStrictEqual([
+      `Show ${SemanticTokenType.Keyword}`,
+      `ItemLevel ${SemanticTokenType.Rule}`,
+      `>= ${SemanticTokenType.Operator}`,
+      `75 ${SemanticTokenType.Number}`,
+      `Rarity ${SemanticTokenType.Rule}`,
+      `Rare ${SemanticTokenType.EnumMember}`,
+      `BaseType ${SemanticTokenType.Rule}`,
+      `Regalia ${SemanticTokenType.String}`,
+      `"Chaos Orb" ${SemanticTokenType.String}`,
+      `Corrupted ${SemanticTokenType.Rule}`,
+      `True ${SemanticTokenType.EnumMember}`
+    ]);
+  });
+
+  test("classifies colors and sound identifiers", () => {
+    expect(getTokens("Show\n  SetTextColor 255 0 0\n  PlayAlertSound 6 300")).toStrictEqual([
+      `Show ${SemanticTokenType.Keyword}`,
+      `SetTextColor ${SemanticTokenType.Rule}`,
+      `255 ${SemanticTokenType.Color}`,
+      `0 ${SemanticTokenType.Color}`,
+      `0 ${SemanticTokenType.Color}`,
+      `PlayAlertSound ${SemanticTokenType.Rule}`,
+      `6 ${SemanticTokenType.Sound}`,
+      `300 ${SemanticTokenType.Number}`
+    ]);
+  });
+
+  test("marks invalid keywords and values", () => {
+    const invalid = SemanticTokenModifier.Invalid;
+
+    expect(getTokens("Show\n  BaseTyp Orb\n  BaseType \"Chaos Orbs\"\n  SetFontSize 100"))
+      .toStrictEqual([
+        `Show ${SemanticTokenType.Keyword}`,
+        `BaseTyp ${SemanticTokenType.Rule} ${invalid}`,
+        `Orb ${SemanticTokenType.EnumMember}`,
+        `BaseType ${SemanticTokenType.Rule}`,
+        `"Chaos Orbs" ${SemanticTokenType.String} ${invalid}`,
+        `SetFontSize ${SemanticTokenType.Rule}`,
+        `100 ${SemanticTokenType.Number} ${invalid}`
+      ]);
+  });
+
+  test("marks whitelisted keywords and values", () => {
+    const options: ValidationOptions = {
+      ruleWhitelist: ["Fractured"],
+      valueWhitelists: { BaseType: ["Custom Orb"] }
+    };
+    const whitelisted = SemanticTokenModifier.Whitelisted;
+
+    expect(getTokens("Show\n  Fractured True\n  BaseType Custom \"Chaos Orb\"", options))
+      .toStrictEqual([
+        `Show ${SemanticTokenType.Keyword}`,
+        `Fractured ${SemanticTokenType.Rule} ${whitelisted}`,
+        `True ${SemanticTokenType.EnumMember}`,
+        `BaseType ${SemanticTokenType.Rule}`,
+        `Custom ${SemanticTokenType.String} ${whitelisted}`,
+        `"Chaos Orb" ${SemanticTokenType.String}`
+      ]);
+  });
+
+  test("marks nothing as invalid within the example filters", () => {
+    const text = fs.readFileSync(path.join(examplesRoot, "GGG.filter"), "utf8");
+    const root = parseFilter(text);
+    const tokens = getSemanticTokens(root, validator.validate(root, defaultOptions), validator,
+      defaultOptions);
+
+    expect(tokens.filter(t => t.modifiers.length > 0)).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as path from "path";
+
+import { FilterParseData, getRuleSignature } from "../../src/parsers-nextgen";
+
+const dataRoot = path.join(__dirname, "..", "..", "build", "data");
+const parseData = <FilterParseData>require(path.join(dataRoot, "parsers", "GGG.json"));
+
+function getSignature(text: string): ReturnType<typeof getRuleSignature> {
+  const character = text.indexOf("|");
+  return getRuleSignature(text.replace("|", ""), character, parseData);
+}
+
+describe("getRuleSignature", () => {
+  test("labels each parameter of the rule", () => {
+    const signature = getSignature("  MinimapIcon |");
+    expect(signature).toBeDefined();
+    if (!signature) return;
+
+    expect(signature.label).toStrictEqual("MinimapIcon size color shape");
+    expect(signature.parameters.map(p => signature.label.slice(...p.label))).toStrictEqual(
+      ["size", "color", "shape"]);
+    expect(signature.documentation).toStrictEqual(
+      "Displays an icon on the minimap wherever the item was dropped.");
+  });
+
+  test("brackets optional parameters", () => {
+    const signature = getSignature("SetBorderColor |");
+    expect(signature).toBeDefined();
+    if (!signature) return;
+
+    expect(signature.label).toStrictEqual("SetBorderColor red green blue [alpha]");
+    expect(signature.label.slice(...signature.parameters[3].label)).toStrictEqual("alpha");
+  });
+
+  test("describes the valid values of each parameter", () => {
+    const signature = getSignature("SetTextColor |");
+    expect(signature).toBeDefined();
+    if (!signature) return;
+
+    expect(signature.parameters[0].documentation).toStrictEqual(
+      "The intensity of the red, which can be any number from 0 to 255.");
+  });
+
+  test("uses only the first paragraph of each description", () => {
+    const signature = getSignature("PlayAlertSound |");
+    expect(signature).toBeDefined();
+    if (!signature) return;
+
+    expect(signature.parameters[0].documentation).toStrictEqual("The identifier for the alert" +
+      " sound, which can either a number from 1 to 16 or a string.");
+  });
+
+  test("marks the parameter following the last complete value as active", () => {
+    const signatures = [
+      getSignature("PlayAlertSound |"),
+      getSignature("PlayAlertSound 1|"),
+      getSignature("PlayAlertSound 1 |"),
+      getSignature("PlayAlertSound 1 |300 # Comment"),
+      getSignature("MinimapIcon 0 Red \"Sta|")
+    ];
+
+    expect(signatures.map(s => s && s.activeParameter)).toStrictEqual([0, 0, 1, 1, 2]);
+  });
+
+  test("ignores text beyond the parameters of the rule", () => {
+    expect(getSignature("SetBorderColor 0 0 0 255 |")).toBeUndefined();
+    expect(getSignature("PlayEffect Red # Comment |")).toBeUndefined();
+  });
+
+  test("ignores the keyword itself", () => {
+    expect(getSignature("MinimapIcon|")).toBeUndefined();
+    expect(getSignature("Minimap|Icon 0")).toBeUndefined();
+    expect(getSignature("|")).toBeUndefined();
+  });
+
+  test("ignores rules with a single parameter", () => {
+    expect(getSignature("SetFontSize |")).toBeUndefined();
+    expect(getSignature("BaseType \"Orb\" |")).toBeUndefined();
+  });
+});
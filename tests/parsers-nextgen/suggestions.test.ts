@@ -0,0 +1,45 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import { getEditDistance, getSuggestions } from "../../src/parsers-nextgen";
+
+describe("getEditDistance", () => {
+  test("counts the insertions, deletions, and substitutions", () => {
+    expect(getEditDistance("", "")).toStrictEqual(0);
+    expect(getEditDistance("kitten", "sitting")).toStrictEqual(3);
+    expect(getEditDistance("Orb", "")).toStrictEqual(3);
+  });
+
+  test("compares against the most similar substring for partial matches", () => {
+    expect(getEditDistance("regalai", "vaal regalia", true)).toStrictEqual(1);
+    expect(getEditDistance("orb", "chaos orb", true)).toStrictEqual(0);
+  });
+
+  test("stops once the maximum distance is exceeded", () => {
+    expect(getEditDistance("abcdef", "uvwxyz", false, 2)).toBeGreaterThan(2);
+  });
+});
+
+describe("getSuggestions", () => {
+  const candidates = ["Chaos Orb", "Chance Orb", "Orb of Chance", "Regal Orb"];
+
+  test("orders the candidates by their similarity, ignoring case", () => {
+    expect(getSuggestions("chanse orb", candidates, 3)).toStrictEqual(["Chance Orb", "Chaos Orb"]);
+  });
+
+  test("limits the number of suggestions", () => {
+    expect(getSuggestions("chanse orb", candidates, 1)).toStrictEqual(["Chance Orb"]);
+  });
+
+  test("matches part of each candidate for partial matches", () => {
+    expect(getSuggestions("chanse", candidates, 2, true)).toStrictEqual(
+      ["Chance Orb", "Orb of Chance"]);
+  });
+
+  test("ignores dissimilar candidates", () => {
+    expect(getSuggestions("Exalted", candidates, 3)).toStrictEqual([]);
+  });
+});
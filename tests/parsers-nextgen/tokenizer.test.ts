@@ -4,7 +4,7 @@
  * license information.
  * ===========================================================================*/
 
-import { Position } from "../../src/types";
+import { FilterOperator, Position } from "../../src/types";
 import * as Parser from "../../src/parsers-nextgen/tokens";
 
 describe("isTokenSeparatingWhitespace", () => {
@@ -401,3 +401,117 @@ describe("ItemFilterTokenizer", () => {
     });
   });
 });
+
+describe("TokenParser consumption", () => {
+  test("consumes numbers", () => {
+    const tokenParser = new Parser.TokenParser("42 7");
+    const node = tokenParser.consumeNumber();
+
+    expect(node.value).toStrictEqual(42);
+    expect(node.text).toStrictEqual("42");
+    expect(node.range).toStrictEqual({
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 2 }
+    });
+    expect(tokenParser.position).toStrictEqual({ line: 0, character: 2 });
+  });
+
+  test("consumes booleans", () => {
+    const t1 = new Parser.TokenParser("True");
+    const t2 = new Parser.TokenParser('"False"');
+
+    const n1 = t1.consumeBoolean();
+    const n2 = t2.consumeBoolean();
+
+    expect(n1.value).toStrictEqual(true);
+    expect(n1.quoted).toStrictEqual(false);
+    expect(n2.value).toStrictEqual(false);
+    expect(n2.quoted).toStrictEqual(true);
+  });
+
+  test("consumes operators", () => {
+    const tokenParser = new Parser.TokenParser(">= 4");
+    const node = tokenParser.consumeOperator();
+
+    expect(node.text).toStrictEqual(">=");
+    expect(node.value).toStrictEqual(FilterOperator.GreaterThanEquals);
+  });
+
+  test("consumes words and keywords", () => {
+    const t1 = new Parser.TokenParser("Two-Stone Ring");
+    const t2 = new Parser.TokenParser("BaseType");
+
+    expect(t1.isKeyword()).toStrictEqual(false);
+    expect(t1.consumeWord().value).toStrictEqual("Two-Stone");
+    expect(t2.isKeyword()).toStrictEqual(true);
+    expect(t2.consumeKeyword().text).toStrictEqual("BaseType");
+  });
+
+  test("consumes strings", () => {
+    const tokenParser = new Parser.TokenParser('"Chaos Orb" "Exalted Orb"');
+    const node = tokenParser.consumeString();
+
+    expect(node.value).toStrictEqual("Chaos Orb");
+    expect(node.text).toStrictEqual('"Chaos Orb"');
+    expect(node.range.end.character).toStrictEqual(11);
+  });
+
+  test("does not consider unterminated or adjoined strings to be strings", () => {
+    const t1 = new Parser.TokenParser('"Chaos Orb');
+    const t2 = new Parser.TokenParser('"Chaos"Orb');
+    const t3 = new Parser.TokenParser('"Chaos\nOrb"');
+
+    expect(t1.isString()).toStrictEqual(false);
+    expect(t2.isString()).toStrictEqual(false);
+    expect(t3.isString()).toStrictEqual(false);
+  });
+
+  test("consumes comments with the trailing whitespace removed", () => {
+    const tokenParser = new Parser.TokenParser("# Currency  \nShow");
+    const node = tokenParser.consumeComment();
+
+    expect(node.text).toStrictEqual("# Currency");
+    expect(node.value).toStrictEqual("Currency");
+    expect(node.range.end.character).toStrictEqual(10);
+    expect(tokenParser.isLineBreak()).toStrictEqual(true);
+  });
+
+  test("consumes text up to a comment", () => {
+    const tokenParser = new Parser.TokenParser("foo bar # comment");
+    const node = tokenParser.consumeText();
+
+    expect(node.text).toStrictEqual("foo bar");
+    expect(tokenParser.isComment()).toStrictEqual(true);
+  });
+
+  test("consumes LF and CRLF line breaks", () => {
+    const tokenParser = new Parser.TokenParser("a\r\nb\nc");
+
+    tokenParser.consumeWord();
+    expect(tokenParser.consumeLineBreak().text).toStrictEqual("\r\n");
+    expect(tokenParser.position).toStrictEqual({ line: 1, character: 0 });
+
+    tokenParser.consumeWord();
+    expect(tokenParser.consumeLineBreak().text).toStrictEqual("\n");
+    expect(tokenParser.position).toStrictEqual({ line: 2, character: 0 });
+
+    tokenParser.consumeWord();
+    expect(tokenParser.isEndOfFile()).toStrictEqual(true);
+  });
+
+  test("consumes whitespace", () => {
+    const tokenParser = new Parser.TokenParser(" \t 12");
+    const node = tokenParser.consumeSingleLineWhitespace();
+
+    expect(node.text).toStrictEqual(" \t ");
+    expect(tokenParser.isNumber()).toStrictEqual(true);
+  });
+
+  test("throws when consuming the wrong kind of token", () => {
+    const tokenParser = new Parser.TokenParser("Chaos");
+
+    expect(() => tokenParser.consumeNumber()).toThrow();
+    expect(() => tokenParser.consumeString()).toThrow();
+    expect(() => tokenParser.consumeLineBreak()).toThrow();
+  });
+});
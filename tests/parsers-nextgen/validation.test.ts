@@ -0,0 +1,308 @@
+/* ============================================================================
+ * Copyright (c) Glen Marker. All rights reserved.
+ * Licensed under the MIT license. See the LICENSE file in the project root for
+ * license information.
+ * ===========================================================================*/
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { DiagnosticCode, DiagnosticSeverity } from "../../src/types";
+import { parseFilter, ValidationOptions } from "../../src/parsers-nextgen";
+import { defaultOptions, validator } from "../data";
+
+const examplesRoot = path.join(__dirname, "..", "..", "examples");
+
+function validate(text: string, options = defaultOptions) {
+  return validator.validate(parseFilter(text), options);
+}
+
+function validateRule(text: string, options = defaultOptions) {
+  return validate(`Show\n  ${text}`, options);
+}
+
+describe("FilterValidator", () => {
+  test("accepts each of the example filters", () => {
+    for (const file of ["Simple.filter", "GGG.filter"]) {
+      const text = fs.readFileSync(path.join(examplesRoot, file), "utf8");
+      const errors = validate(text).filter(d => d.severity === DiagnosticSeverity.Error);
+
+      expect(errors).toStrictEqual([]);
+    }
+  });
+
+  test("accepts valid rules", () => {
+    const rules = [
+      "ItemLevel >= 75",
+      "DropLevel 1 2 3",
+      "Rarity Normal \"Rare\"",
+      "SocketGroup RGB wwwww",
+      "Class \"Currency\" Maps",
+      "BaseType \"Chaos Orb\" Regal",
+      "HasExplicitMod Tyrannical",
+      "Corrupted True",
+      "Identified \"false\"",
+      "SetTextColor 255 255 255",
+      "SetBorderColor 0 0 0 100",
+      "PlayAlertSound 1 300",
+      "PlayAlertSound ShVaal",
+      "CustomAlertSound \"sound.mp3\"",
+      "MinimapIcon 0 Red Star",
+      "PlayEffect Blue Temp",
+      "SetFontSize 45",
+      "DisableDropSound"
+    ];
+
+    for (const rule of rules) {
+      expect(validateRule(rule)).toStrictEqual([]);
+    }
+  });
+
+  test("reports unknown keywords unless whitelisted", () => {
+    const diagnostics = validateRule("Foo 1");
+    expect(diagnostics.length).toStrictEqual(1);
+    expect(diagnostics[0].message).toStrictEqual("Unknown filter keyword.");
+    expect(diagnostics[0].range).toStrictEqual({
+      start: { line: 1, character: 2 },
+      end: { line: 1, character: 5 }
+    });
+
+    expect(validateRule("Foo 1", { ruleWhitelist: ["Foo"], valueWhitelists: {} }))
+      .toStrictEqual([]);
+  });
+
+  test("reports rules outside of a block", () => {
+    const diagnostics = validate("Rarity Rare\nShow");
+    expect(diagnostics.length).toStrictEqual(1);
+    expect(diagnostics[0].message).toContain("outside of a Hide or Show block");
+  });
+
+  test("reports unreadable lines", () => {
+    const diagnostics = validateRule("42 Rarity");
+    expect(diagnostics.length).toStrictEqual(1);
+    expect(diagnostics[0].message).toContain("Unreadable keyword");
+  });
+
+  describe("operators", () => {
+    test("reports operators for rules without operator support", () => {
+      const diagnostics = validateRule("SetFontSize = 45");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Error);
+      expect(diagnostics[0].range).toStrictEqual({
+        start: { line: 1, character: 14 },
+        end: { line: 1, character: 15 }
+      });
+    });
+
+    test("hints at operators ignored by the client", () => {
+      const diagnostics = validateRule("CustomAlertSound = \"sound.wav\"");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Hint);
+    });
+
+    test("only allows the equals operator when given multiple values", () => {
+      expect(validateRule("ItemLevel = 1 2")).toStrictEqual([]);
+      expect(validateRule("ItemLevel > 1 2").length).toStrictEqual(1);
+    });
+  });
+
+  describe("values", () => {
+    test("reports missing values", () => {
+      const diagnostics = validateRule("ItemLevel >=");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toStrictEqual("Missing value for a ItemLevel rule." +
+        " One or more integers from 0 to 100.");
+    });
+
+    test("reports missing values following an optional parameter", () => {
+      expect(validateRule("SetTextColor 255 255").length).toStrictEqual(1);
+      expect(validateRule("MinimapIcon 0 Red").length).toStrictEqual(1);
+    });
+
+    test("reports numbers outside of the range", () => {
+      const diagnostics = validateRule("GemLevel 0 1 31");
+      expect(diagnostics.length).toStrictEqual(2);
+      expect(diagnostics[0].message).toStrictEqual("Invalid value for a GemLevel rule." +
+        " Valid values are between 1 and 30.");
+      expect(diagnostics[1].range.start.character).toStrictEqual(15);
+    });
+
+    test("reports values not within the list", () => {
+      const diagnostics = validateRule("Rarity Rare Legendary");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toStrictEqual("Invalid value for a Rarity rule." +
+        " Valid values are Normal, Magic, Rare, or Unique.");
+    });
+
+    test("respects the case sensitivity of values", () => {
+      expect(validateRule("Rarity rare").length).toStrictEqual(1);
+      expect(validateRule("Corrupted true")).toStrictEqual([]);
+      expect(validateRule("SocketGroup rgb")).toStrictEqual([]);
+    });
+
+    test("accepts partial values only where allowed", () => {
+      expect(validateRule("BaseType Orb")).toStrictEqual([]);
+      expect(validateRule("Class Curr")).toStrictEqual([]);
+      expect(validateRule("PlayEffect Blu").length).toStrictEqual(1);
+    });
+
+    test("reports values missing from the references", () => {
+      const diagnostics = validateRule("BaseType \"Chaos Orbs\"");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toStrictEqual("Invalid value for a BaseType rule." +
+        " An item base, such as \"Chaos Orb\".\nDid you mean \"Chaos Orb\"?");
+    });
+
+    test("accepts whitelisted values", () => {
+      const options: ValidationOptions = {
+        ruleWhitelist: [],
+        valueWhitelists: { BaseType: ["Chaos Orbs"], PlayAlertSound: ["MySound"] }
+      };
+
+      expect(validateRule("BaseType \"Chaos Orbs\"", options)).toStrictEqual([]);
+      expect(validateRule("PlayAlertSound MySound", options)).toStrictEqual([]);
+      expect(validateRule("PlayAlertSound MySound").length).toStrictEqual(1);
+    });
+
+    test("accepts any of the alternative values for a parameter", () => {
+      expect(validateRule("PlayAlertSound 16")).toStrictEqual([]);
+      expect(validateRule("PlayAlertSound ShChaos 50")).toStrictEqual([]);
+      expect(validateRule("PlayAlertSound 17").length).toStrictEqual(1);
+    });
+
+    test("reports words containing invalid characters", () => {
+      const diagnostics = validateRule("SocketGroup RGX");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toContain("R, G, B, and W");
+    });
+
+    test("reports duplicate values", () => {
+      const diagnostics = validateRule("BaseType \"Chaos Orb\" \"Chaos Orb\"");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Hint);
+    });
+  });
+
+  describe("quotation marks", () => {
+    test("reports quoted values where they are never allowed", () => {
+      const diagnostics = validateRule("SetFontSize \"45\"");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toContain("must not be surrounded by quotation marks");
+    });
+
+    test("reports unquoted values where they are required", () => {
+      const diagnostics = validateRule("CustomAlertSound Alert");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toContain("must be surrounded by quotation marks");
+    });
+
+    test("accepts optionally quoted values", () => {
+      expect(validateRule("ItemLevel \"75\"")).toStrictEqual([]);
+      expect(validateRule("Corrupted \"True\"")).toStrictEqual([]);
+    });
+  });
+
+  describe("trailing text", () => {
+    test("reports trailing text as an error where the client does", () => {
+      const diagnostics = validateRule("Corrupted True False");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Error);
+      expect(diagnostics[0].range).toStrictEqual({
+        start: { line: 1, character: 17 },
+        end: { line: 1, character: 22 }
+      });
+    });
+
+    test("reports trailing text as a warning where the client skips it", () => {
+      const diagnostics = validateRule("SetTextColor 1 2 3 4 5 % # comment");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Warning);
+      expect(diagnostics[0].range).toStrictEqual({
+        start: { line: 1, character: 23 },
+        end: { line: 1, character: 26 }
+      });
+    });
+
+    test("reports trailing text following a block keyword", () => {
+      const diagnostics = validate("Show Currency # comment");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].severity).toStrictEqual(DiagnosticSeverity.Warning);
+    });
+
+    test("does not report trailing text alongside other diagnostics", () => {
+      const diagnostics = validateRule("SetFontSize 100 %");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toContain("between 16 and 50");
+    });
+  });
+
+  describe("block limits", () => {
+    test("reports rules exceeding the limit of a block", () => {
+      const diagnostics = validate("Show\n  ItemLevel > 1\n  ItemLevel < 5\n  ItemLevel 3");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toStrictEqual("3rd occurrence of the ItemLevel rule" +
+        " within a block with a limit of 2.");
+      expect(diagnostics[0].range.start.line).toStrictEqual(3);
+    });
+
+    test("resets the occurrences for each block", () => {
+      expect(validate("Show\n  SetFontSize 45\nHide\n  SetFontSize 45")).toStrictEqual([]);
+    });
+  });
+
+  describe("codes", () => {
+    test("identifies the issue reported by each diagnostic", () => {
+      const codes = (text: string) => validateRule(text).map(d => d.code);
+
+      expect(codes("Rarity Rare Rare")).toStrictEqual([DiagnosticCode.DuplicateValue]);
+      expect(codes("SetFontSize 100")).toStrictEqual([DiagnosticCode.ValueOutOfRange]);
+      expect(codes("SetFontSize Big")).toStrictEqual([DiagnosticCode.InvalidValue]);
+      expect(codes("BaseType \"Vaal Regalai\"")).toStrictEqual([DiagnosticCode.InvalidValue]);
+      expect(codes("ItemLevl 1")).toStrictEqual([DiagnosticCode.UnknownKeyword]);
+      expect(codes("SetFontSize = 45")).toStrictEqual([DiagnosticCode.UnexpectedOperator]);
+      expect(validate("Rarity Rare").map(d => d.code)).toStrictEqual(
+        [DiagnosticCode.RuleOutsideBlock]);
+    });
+  });
+
+  describe("suggestions", () => {
+    test("suggests keywords similar to an unknown keyword", () => {
+      expect(validator.suggestKeywords("ItemLevl", 3)).toStrictEqual(["ItemLevel"]);
+      expect(validator.suggestKeywords("shw", 3)).toStrictEqual(["Show"]);
+      expect(validator.suggestKeywords("Foo", 3)).toStrictEqual([]);
+    });
+
+    test("suggests values similar to an invalid value", () => {
+      expect(validator.suggestValues("BaseType", 0, "Vaal Regalai", defaultOptions, 3)[0])
+        .toStrictEqual("Vaal Regalia");
+      expect(validator.suggestValues("Rarity", 2, "unqiue", defaultOptions, 3)).toStrictEqual(
+        ["Unique"]);
+      expect(validator.suggestValues("SetFontSize", 0, "45", defaultOptions, 3)).toStrictEqual(
+        []);
+    });
+
+    test("suggests values containing a similar part for partial values", () => {
+      expect(validator.suggestValues("BaseType", 0, "Regalai", defaultOptions, 1)).toStrictEqual(
+        ["Vaal Regalia"]);
+    });
+
+    test("includes suggestions within the diagnostics for invalid values", () => {
+      const diagnostics = validateRule("Prophecy \"The Queens Vaults\"");
+      expect(diagnostics.length).toStrictEqual(1);
+      expect(diagnostics[0].message).toMatch(/\nDid you mean "The Queen's Vaults"\?$/);
+      expect(validateRule("BaseType Foobarbaz")[0].message).not.toMatch("Did you mean");
+    });
+
+    test("suggests whitelisted values", () => {
+      const options = { ...defaultOptions, valueWhitelists: { Class: ["Custom Items"] } };
+      expect(validator.suggestValues("Class", 0, "Custom Itms", options, 3)[0]).toStrictEqual(
+        "Custom Items");
+    });
+
+    test("returns the range for number values", () => {
+      expect(validator.getValueRange("SetFontSize", 0)).toStrictEqual({ min: 16, max: 50 });
+      expect(validator.getValueRange("PlayAlertSound", 1)).toStrictEqual({ min: 0, max: 300 });
+      expect(validator.getValueRange("BaseType", 0)).toBeUndefined();
+    });
+  });
+});